@@ -1,32 +1,18 @@
-import React, { useRef, useEffect } from 'react';
-import { protect } from 'cloakscreen';
+import { Cloakscreen } from 'cloakscreen/react';
 
 function ProtectedContent() {
-  const contentRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    const initializeCloakscreen = async () => {
-      if (!contentRef.current) return;
-
-      try {
-        await protect(contentRef.current, {
-          provider: {
-            name: import.meta.env.VITE_DRM_PROVIDER,
+  return (
+    <div style={{ background: 'white', color: 'black', fontFamily: 'Arial, sans-serif', padding: '20px' }}>
+      <Cloakscreen
+        provider={{
+          name: import.meta.env.VITE_DRM_PROVIDER,
+          config: {
             siteId: import.meta.env.VITE_DRM_SITE_ID,
             tokenEndpoint: import.meta.env.VITE_DRM_TOKEN_ENDPOINT,
           },
-        });
-      } catch (error) {
-        console.error('Failed to protect content:', error);
-      }
-    };
-
-    initializeCloakscreen();
-  }, []);
-
-  return (
-    <div style={{ background: 'white', color: 'black', fontFamily: 'Arial, sans-serif', padding: '20px' }}>
-      <div ref={contentRef}>
+        }}
+        onError={error => console.error('Failed to protect content:', error)}
+      >
         <h2>Protected Sensitive Information</h2>
         <p>
           This is highly sensitive content that should be protected from AI vision models and
@@ -55,7 +41,7 @@ function ProtectedContent() {
           <span style={{ color: 'maroon' }}>per</span>{' '}
           <span style={{ color: 'olive' }}>character.</span>
         </p>
-      </div>
+      </Cloakscreen>
     </div>
   );
 }
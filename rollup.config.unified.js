@@ -162,6 +162,43 @@ configs.push({
   plugins: [dts()],
 });
 
+// 6. Framework bindings - core and frameworks stay external so apps share one Cloakscreen instance
+const isCoreEntry = id => /[\\/]src[\\/]index(\.ts)?$/.test(id) || id === '../index';
+const bindingExternal = id =>
+  ['react', 'react/jsx-runtime', ...external].includes(id) || isCoreEntry(id);
+const bindingPaths = id => (isCoreEntry(id) ? 'cloakscreen' : id);
+
+['react', 'vue', 'svelte'].forEach(binding => {
+  configs.push({
+    input: `src/${binding}/index.ts`,
+    output: [
+      { file: `dist/${binding}.esm.js`, format: 'es', sourcemap: true, paths: bindingPaths },
+      {
+        file: `dist/${binding}.js`,
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+        paths: bindingPaths,
+      },
+    ],
+    external: bindingExternal,
+    makeAbsoluteExternalsRelative: false,
+    plugins: getPlugins(true, false),
+  });
+
+  configs.push({
+    input: `src/${binding}/index.ts`,
+    output: {
+      file: `dist/${binding}.d.ts`,
+      format: 'es',
+      paths: bindingPaths,
+    },
+    external: bindingExternal,
+    makeAbsoluteExternalsRelative: false,
+    plugins: [dts()],
+  });
+});
+
 // Note: Removed redundant builds to optimize build time:
 // - Removed separate Node.js ES Module build (CJS covers Node.js needs)
 // - Removed separate type definitions for errors/types (consolidated into main .d.ts)
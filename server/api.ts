@@ -8,8 +8,22 @@
 import express from 'express';
 import cors from 'cors';
 import crypto from 'crypto';
+import fs from 'fs/promises';
 import dotenv from 'dotenv';
 import { serverLogger } from '../src/utils/logger.js';
+import { Authenticator, createJwtAuthenticator, requireUser } from './auth.js';
+import { PolicyEngine, PolicyRequest } from './policy.js';
+import {
+  AttestationLedger,
+  AttestationRequirements,
+  requireAttestation,
+} from './attestation.js';
+import { ContentTokenIssuer, FileContentStore } from './content.js';
+import type {
+  ClearKeyJWK,
+  ClearKeyLicenseRequest,
+  ClearKeyLicenseResponse,
+} from '../src/providers/clearkey/types.js';
 
 dotenv.config();
 
@@ -28,7 +42,40 @@ const config = {
     defaultContentId: process.env.CONTENT_ID || 'blank',
     defaultUserId: process.env.DEFAULT_USER_ID || 'demo-user',
   },
+  auth: {
+    // 'jwt' verifies bearer tokens; 'none' mints every token for the default user
+    // and has to be opted in to in production
+    mode: process.env.AUTH_MODE || (process.env.NODE_ENV === 'production' ? undefined : 'none'),
+    jwtKey: process.env.AUTH_JWT_KEY,
+    jwtKeyFile: process.env.AUTH_JWT_KEY_FILE,
+    jwtIssuer: process.env.AUTH_JWT_ISSUER,
+    jwtAudience: process.env.AUTH_JWT_AUDIENCE,
+  },
+  attestation: {
+    // How long a client's DRM status report keeps its content released
+    maxReportAgeSeconds: Number(process.env.ATTESTATION_MAX_AGE_SECONDS) || 300,
+    requirements: {
+      securityLevel: process.env.ATTESTATION_REQUIRE_SECURITY_LEVEL,
+      hardwareBacked: process.env.ATTESTATION_REQUIRE_HARDWARE === 'true',
+    } as AttestationRequirements,
+  },
+  contentDelivery: {
+    // Protected HTML served as <directory>/<contentId>.html once a license was issued
+    directory: process.env.CONTENT_DIR || 'protected-content',
+    // Without a secret tokens are signed with a per-process key (single instance only)
+    tokenSecret: process.env.CONTENT_TOKEN_SECRET,
+    tokenTtlSeconds: Number(process.env.CONTENT_TOKEN_TTL_SECONDS) || 120,
+    // Content tokens are only redeemed once the client reported acquiring their license
+    requireAttestation: process.env.CONTENT_REQUIRE_ATTESTATION !== 'false',
+  },
+  clearKey: {
+    // Development only - ClearKey hands keys out in the clear
+    enabled: process.env.NODE_ENV !== 'production' || process.env.CLEARKEY_ENABLED === 'true',
+    keyFiles: (process.env.CLEARKEY_KEYS_FILE || 'drm-content/keys.json').split(','),
+  },
   drm: {
+    // JSON or YAML rules choosing the policy per role, content and time (see server/policy.ts)
+    policyFile: process.env.DRM_POLICY_FILE,
     defaultPolicy: {
       policy_version: 2,
       playback_policy: {
@@ -140,6 +187,134 @@ class TokenGenerator {
 
 const tokenGenerator = new TokenGenerator(config);
 
+// ClearKey Key Store (development only)
+class ClearKeyStore {
+  constructor(private keyFiles: string[]) {}
+
+  // Files are re-read on every request so freshly generated content works without a restart
+  async find(kids: string[]): Promise<ClearKeyJWK[]> {
+    const keys = await this.load();
+    return kids.flatMap(kid => {
+      const key = keys.get(kid);
+      return key ? [key] : [];
+    });
+  }
+
+  private async load(): Promise<Map<string, ClearKeyJWK>> {
+    const keys = new Map<string, ClearKeyJWK>();
+
+    for (const file of this.keyFiles) {
+      try {
+        const keySet = JSON.parse(await fs.readFile(file.trim(), 'utf8'));
+        (keySet.keys || []).forEach((key: ClearKeyJWK) => keys.set(key.kid, key));
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          serverLogger.warn(`Unable to read ClearKey keys from ${file}:`, error);
+        }
+      }
+    }
+
+    return keys;
+  }
+}
+
+const clearKeyStore = new ClearKeyStore(config.clearKey.keyFiles);
+
+// Authentication
+async function createConfiguredAuthenticator(): Promise<Authenticator> {
+  if (!config.auth.mode) {
+    throw new Error(
+      'AUTH_MODE must be set in production - jwt, or none to mint every token for the default user'
+    );
+  }
+
+  if (config.auth.mode === 'jwt') {
+    const key = config.auth.jwtKeyFile
+      ? await fs.readFile(config.auth.jwtKeyFile, 'utf8')
+      : config.auth.jwtKey;
+    if (!key) {
+      throw new Error('AUTH_MODE=jwt requires AUTH_JWT_KEY or AUTH_JWT_KEY_FILE');
+    }
+
+    return createJwtAuthenticator({
+      key,
+      issuer: config.auth.jwtIssuer,
+      audience: config.auth.jwtAudience,
+    });
+  }
+
+  if (config.auth.mode !== 'none') {
+    throw new Error(`Unknown AUTH_MODE "${config.auth.mode}"`);
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    serverLogger.warn('AUTH_MODE=none - every license token is minted for the default user');
+  }
+  return () => ({ userId: config.content.defaultUserId });
+}
+
+let authenticator: Authenticator = await createConfiguredAuthenticator();
+
+/**
+ * Replace the authenticator, e.g. with createSessionAuthenticator() or a custom function
+ */
+export function setAuthenticator(next: Authenticator): void {
+  authenticator = next;
+}
+
+// DRM Policies
+const policyEngine = config.drm.policyFile
+  ? await PolicyEngine.fromFile(config.drm.defaultPolicy, config.drm.policyFile)
+  : new PolicyEngine(config.drm.defaultPolicy);
+
+function createPolicyRequest(req: express.Request, res: express.Response): PolicyRequest {
+  const { contentId = config.content.defaultContentId, drmType = 'Widevine' } = req.body || {};
+
+  return {
+    userId: res.locals.user.userId,
+    roles: res.locals.user.roles || [],
+    contentId: String(contentId),
+    drmType: String(drmType),
+    at: new Date(),
+  };
+}
+
+// DRM Attestation
+const attestationLedger = new AttestationLedger({
+  maxReportAgeSeconds: config.attestation.maxReportAgeSeconds,
+});
+
+const requiredSecurityLevel = config.attestation.requirements.securityLevel;
+if (requiredSecurityLevel && !['L1', 'L2', 'L3'].includes(requiredSecurityLevel)) {
+  throw new Error(`Unknown ATTESTATION_REQUIRE_SECURITY_LEVEL "${requiredSecurityLevel}"`);
+}
+
+/**
+ * Middleware for application routes serving sensitive content: the content is
+ * only released to users whose client reported a matching, valid DRM license
+ */
+export function requireAttestedContent(getContentId: (req: express.Request) => string) {
+  return [
+    requireUser(() => authenticator),
+    requireAttestation(attestationLedger, getContentId, config.attestation.requirements),
+  ];
+}
+
+// Protected Content Delivery
+const contentStore = new FileContentStore(config.contentDelivery.directory);
+const contentTokens = new ContentTokenIssuer(
+  config.contentDelivery.tokenSecret || crypto.randomBytes(32),
+  config.contentDelivery.tokenTtlSeconds
+);
+
+if (!config.contentDelivery.requireAttestation) {
+  serverLogger.warn('CONTENT_REQUIRE_ATTESTATION=false - content is served without a license being acquired');
+}
+
+if (config.clearKey.enabled) {
+  serverLogger.warn('ClearKey license endpoint enabled - for development and testing only');
+}
+
 // Middleware
 app.use(cors());
 app.use(express.json());
@@ -156,19 +331,31 @@ app.get('/api/token/info', (req, res) => {
   });
 });
 
-app.post('/api/get-license-token', async (req, res) => {
+app.post('/api/get-license-token', requireUser(() => authenticator), async (req, res) => {
   try {
-    const {
-      contentId = config.content.defaultContentId,
-      userId = config.content.defaultUserId,
-      drmType = 'Widevine',
-    } = req.body;
+    // Tokens are minted for the authenticated identity; a userId in the body is ignored
+    const request = createPolicyRequest(req, res);
+    const { userId, contentId, drmType } = request;
+    const { policy } = policyEngine.resolve(request);
 
-    const token = await tokenGenerator.generate({ contentId, userId, drmType });
+    const token = await tokenGenerator.generate({ contentId, userId, drmType, policy });
+    const licenseDuration = policy.playback_policy.license_duration_seconds;
+    const expiresAt = Date.now() + licenseDuration * 1000;
+
+    attestationLedger.recordIssuance({
+      userId,
+      contentId,
+      drmType,
+      token,
+      issuedAt: Date.now(),
+      expiresAt,
+    });
 
     res.json({
       success: true,
       token,
+      expires: new Date(expiresAt).toISOString(),
+      contentToken: contentTokens.issue({ userId, contentId, licenseToken: token }),
       metadata: {
         contentId,
         userId,
@@ -187,6 +374,164 @@ app.post('/api/get-license-token', async (req, res) => {
   }
 });
 
+// Shows the policy a token request would get without minting a token.
+// Roles and time can be overridden to preview other users and schedules.
+app.post('/api/policy/dry-run', requireUser(() => authenticator), (req, res) => {
+  const { roles, at } = req.body || {};
+
+  if (roles !== undefined && (!Array.isArray(roles) || roles.some(role => typeof role !== 'string'))) {
+    res.status(400).json({ success: false, error: '"roles" must be a list of strings' });
+    return;
+  }
+  if (at !== undefined && isNaN(Date.parse(at))) {
+    res.status(400).json({ success: false, error: '"at" must be an ISO timestamp' });
+    return;
+  }
+
+  const request = {
+    ...createPolicyRequest(req, res),
+    ...(roles && { roles }),
+    ...(at && { at: new Date(at) }),
+  };
+
+  res.json({
+    success: true,
+    request: { ...request, at: request.at.toISOString() },
+    ...policyEngine.resolve(request),
+  });
+});
+
+// Signed DRM status reports of clients that acquired a license
+app.post('/api/attestation', requireUser(() => authenticator), (req, res) => {
+  try {
+    const { report } = attestationLedger.submit(res.locals.user.userId, req.body || {});
+
+    res.json({
+      success: true,
+      contentId: report.contentId,
+      securityLevel: report.status.securityLevel,
+      hardwareBacked: report.status.hardwareBacked,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    serverLogger.warn('Attestation report rejected:', errorMessage);
+    res.status(400).json({ success: false, error: errorMessage });
+  }
+});
+
+// Whether the content would be released to the user right now
+app.get(
+  '/api/attestation/:contentId',
+  requireAttestedContent(req => req.params.contentId),
+  (req, res) => {
+    const { report, receivedAt } = res.locals.attestation;
+
+    res.json({
+      success: true,
+      released: true,
+      contentId: report.contentId,
+      status: report.status,
+      reportedAt: new Date(receivedAt).toISOString(),
+    });
+  }
+);
+
+// Protected HTML for clients holding a content token (see options.contentUrl)
+app.get('/api/content/:contentId', async (req, res) => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  let claims;
+
+  try {
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new Error('Content token required');
+    }
+    claims = contentTokens.verify(token);
+  } catch (error: unknown) {
+    res.status(401).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid content token',
+    });
+    return;
+  }
+
+  if (claims.cid !== req.params.contentId) {
+    res.status(403).json({ success: false, error: 'Content token was issued for other content' });
+    return;
+  }
+
+  if (config.contentDelivery.requireAttestation) {
+    const decision = attestationLedger.canRelease(
+      claims.sub,
+      claims.cid,
+      config.attestation.requirements
+    );
+    let { released, reason } = decision;
+
+    // The report must be for the license this content token was issued with
+    if (released && !contentTokens.isIssuedWith(claims, decision.record!.issuance.token)) {
+      released = false;
+      reason = 'No attestation report for the license of this content token';
+    }
+
+    if (!released) {
+      res.status(403).json({
+        success: false,
+        error: 'DRM attestation required',
+        reason,
+      });
+      return;
+    }
+  }
+
+  try {
+    const content = await contentStore.get(claims.cid);
+    if (content === null) {
+      res.status(404).json({ success: false, error: 'Content not found' });
+      return;
+    }
+
+    res.set('Cache-Control', 'no-store').type('html').send(content);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    serverLogger.error('Content delivery failed:', errorMessage);
+    res.status(500).json({ success: false, error: 'Content delivery failed' });
+  }
+});
+
+// EME sends the ClearKey license request as raw JSON bytes without a JSON content type
+app.post('/api/clearkey/license', express.json({ type: () => true }), async (req, res) => {
+  if (!config.clearKey.enabled) {
+    res.status(404).json({ success: false, error: 'ClearKey is disabled in production' });
+    return;
+  }
+
+  const { kids, type = 'temporary' } = (req.body || {}) as ClearKeyLicenseRequest;
+
+  if (!Array.isArray(kids) || kids.some(kid => typeof kid !== 'string')) {
+    res.status(400).json({ success: false, error: 'Request must list key IDs in "kids"' });
+    return;
+  }
+
+  try {
+    const keys = await clearKeyStore.find(kids);
+    const missing = kids.length - keys.length;
+    if (missing > 0) {
+      serverLogger.warn(`ClearKey license request for ${missing} unknown key(s)`);
+    }
+
+    const license: ClearKeyLicenseResponse = { keys, type };
+    res.json(license);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    serverLogger.error('ClearKey license failed:', errorMessage);
+    res.status(500).json({
+      success: false,
+      error: 'ClearKey license failed',
+      message: errorMessage,
+    });
+  }
+});
+
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
@@ -0,0 +1,247 @@
+/**
+ * DRM Attestation
+ *
+ * Records the license tokens this server issues and the DRM status reports
+ * clients send back once a license was acquired. Reports are signed with the
+ * license token (HMAC-SHA256), so a report only counts when it matches a token
+ * issued to the same user for the same content. Content is released while such
+ * a report is recent and the license it was made for is still valid.
+ *
+ * The browser remains untrusted: whoever holds the token can sign a false report.
+ * Attestation ties reports to real license issuances; the hardware requirements
+ * themselves are enforced by the license policy (see server/policy.ts).
+ */
+
+import crypto from 'crypto';
+import type { Request, RequestHandler } from 'express';
+import * as v from 'valibot';
+import type { AttestationReport, SignedAttestationReport } from '../src/types/index.js';
+
+const SECURITY_LEVELS = ['unknown', 'L3', 'L2', 'L1'] as const;
+
+/** Issuances kept per user and content; older ones are dropped first */
+const MAX_ISSUANCES_PER_CONTENT = 10;
+
+const AttestationReportSchema = v.object({
+  contentId: v.string(),
+  drmType: v.string(),
+  status: v.object({
+    type: v.picklist(['widevine', 'playready', 'fairplay', 'clearkey', 'none']),
+    securityLevel: v.picklist(SECURITY_LEVELS),
+    hardwareBacked: v.boolean(),
+    provider: v.optional(v.string()),
+  }),
+  detection: v.object({
+    browser: v.string(),
+    platform: v.string(),
+    supportedDRMs: v.array(v.string()),
+    hardwareAcceleration: v.boolean(),
+  }),
+  license: v.object({
+    acquired: v.boolean(),
+    acquiredAt: v.pipe(v.string(), v.isoTimestamp()),
+    tokenExpiresAt: v.nullable(v.pipe(v.string(), v.isoTimestamp())),
+  }),
+  reportedAt: v.pipe(v.string(), v.isoTimestamp()),
+});
+
+/**
+ * License token issued by the token endpoint
+ */
+export interface LicenseIssuance {
+  userId: string;
+  contentId: string;
+  drmType: string;
+  token: string;
+
+  /** Epoch milliseconds */
+  issuedAt: number;
+
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Verified report together with the issuance it matched
+ */
+export interface AttestationRecord {
+  userId: string;
+  report: AttestationReport;
+  issuance: LicenseIssuance;
+
+  /** Epoch milliseconds */
+  receivedAt: number;
+}
+
+/**
+ * DRM status a report must show before content is released
+ */
+export interface AttestationRequirements {
+  /** Optional: Minimum security level (L1 is strongest) */
+  securityLevel?: 'L1' | 'L2' | 'L3';
+
+  /** Optional: Require a hardware-backed CDM */
+  hardwareBacked?: boolean;
+}
+
+export interface AttestationLedgerOptions {
+  /** Optional: How long a report keeps content released, in seconds (defaults to 300) */
+  maxReportAgeSeconds?: number;
+
+  /** Optional: Tolerated clock skew of `reportedAt` in seconds (defaults to 30) */
+  clockToleranceSeconds?: number;
+}
+
+export interface ReleaseDecision {
+  released: boolean;
+
+  /** Why the content is withheld */
+  reason?: string;
+
+  /** Report the decision was based on */
+  record?: AttestationRecord;
+}
+
+/**
+ * In-memory ledger of issuances and reports (one per user and content).
+ * Servers running several instances need to share it, e.g. through Redis.
+ */
+export class AttestationLedger {
+  private issuances = new Map<string, LicenseIssuance[]>();
+  private reports = new Map<string, AttestationRecord>();
+  private maxReportAge: number;
+  private clockTolerance: number;
+
+  constructor(options: AttestationLedgerOptions = {}) {
+    this.maxReportAge = (options.maxReportAgeSeconds ?? 300) * 1000;
+    this.clockTolerance = (options.clockToleranceSeconds ?? 30) * 1000;
+  }
+
+  /**
+   * Remember a license token handed out by the token endpoint
+   */
+  recordIssuance(issuance: LicenseIssuance): void {
+    const key = getKey(issuance.userId, issuance.contentId);
+    const active = (this.issuances.get(key) || []).filter(entry => entry.expiresAt > Date.now());
+
+    active.push(issuance);
+    this.issuances.set(key, active.slice(-MAX_ISSUANCES_PER_CONTENT));
+  }
+
+  /**
+   * Verify and record a signed report of the authenticated user
+   */
+  submit(userId: string, { payload, signature }: SignedAttestationReport): AttestationRecord {
+    if (typeof payload !== 'string' || typeof signature !== 'string') {
+      throw new Error('Report must include "payload" and "signature"');
+    }
+
+    let report: AttestationReport;
+    try {
+      report = v.parse(AttestationReportSchema, JSON.parse(payload));
+    } catch {
+      throw new Error('Malformed attestation report');
+    }
+
+    const now = Date.now();
+    const reportedAt = Date.parse(report.reportedAt);
+    if (reportedAt < now - this.maxReportAge || reportedAt > now + this.clockTolerance) {
+      throw new Error('Attestation report is not recent');
+    }
+
+    const key = getKey(userId, report.contentId);
+    const issuance = (this.issuances.get(key) || []).find(
+      candidate =>
+        candidate.expiresAt > now &&
+        candidate.drmType === report.drmType &&
+        verifySignature(payload, signature, candidate.token)
+    );
+    if (!issuance) {
+      throw new Error('Attestation report does not match a license issued to this user');
+    }
+
+    const record: AttestationRecord = { userId, report, issuance, receivedAt: now };
+    this.reports.set(key, record);
+
+    return record;
+  }
+
+  /**
+   * Decide whether a user's content may be released
+   */
+  canRelease(
+    userId: string,
+    contentId: string,
+    requirements: AttestationRequirements = {}
+  ): ReleaseDecision {
+    const record = this.reports.get(getKey(userId, contentId));
+    const now = Date.now();
+
+    if (!record) {
+      return { released: false, reason: 'No attestation report for this content' };
+    }
+    if (now - record.receivedAt > this.maxReportAge) {
+      return { released: false, reason: 'Attestation report is outdated', record };
+    }
+    if (record.issuance.expiresAt <= now) {
+      return { released: false, reason: 'License of the attestation report expired', record };
+    }
+    if (!record.report.license.acquired) {
+      return { released: false, reason: 'No license was acquired', record };
+    }
+
+    const { securityLevel, hardwareBacked } = record.report.status;
+    if (
+      requirements.securityLevel &&
+      SECURITY_LEVELS.indexOf(securityLevel) < SECURITY_LEVELS.indexOf(requirements.securityLevel)
+    ) {
+      return {
+        released: false,
+        reason: `Security level ${securityLevel} is below the required ${requirements.securityLevel}`,
+        record,
+      };
+    }
+    if (requirements.hardwareBacked && !hardwareBacked) {
+      return { released: false, reason: 'DRM is not hardware-backed', record };
+    }
+
+    return { released: true, record };
+  }
+}
+
+/**
+ * Middleware withholding content without a valid attestation. Runs after
+ * requireUser(); the matching record is stored in `res.locals.attestation`.
+ */
+export function requireAttestation(
+  ledger: AttestationLedger,
+  getContentId: (req: Request) => string,
+  requirements?: AttestationRequirements
+): RequestHandler {
+  return (req, res, next) => {
+    const decision = ledger.canRelease(res.locals.user.userId, getContentId(req), requirements);
+
+    if (!decision.released) {
+      res.status(403).json({
+        success: false,
+        error: 'DRM attestation required',
+        reason: decision.reason,
+      });
+      return;
+    }
+
+    res.locals.attestation = decision.record;
+    next();
+  };
+}
+
+function getKey(userId: string, contentId: string): string {
+  return `${userId}\u0000${contentId}`;
+}
+
+function verifySignature(payload: string, signature: string, token: string): boolean {
+  const expected = crypto.createHmac('sha256', token).update(payload).digest();
+  const actual = Buffer.from(signature, 'base64url');
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,282 @@
+/**
+ * Request Authentication
+ *
+ * Pluggable authenticators resolving the user behind an API request, so license
+ * tokens are minted for a verified identity instead of a client-supplied one.
+ *
+ * - Bearer JWT verified with a local key (HMAC secret or PEM public key)
+ * - Session cookie resolved through the application's session store
+ * - Any custom function returning the user
+ */
+
+import crypto from 'crypto';
+import type { Request, RequestHandler } from 'express';
+import { serverLogger } from '../src/utils/logger.js';
+
+/**
+ * Identity an authenticator resolved for a request
+ */
+export interface AuthenticatedUser {
+  /** User the license token is minted for */
+  userId: string;
+
+  /** Optional: Roles used to choose the DRM policy */
+  roles?: string[];
+
+  /** Optional: Verified claims (JWT payload or session data) */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Resolve the user of a request, or null when it is not authenticated
+ */
+export type Authenticator = (
+  req: Request
+) => AuthenticatedUser | null | Promise<AuthenticatedUser | null>;
+
+/**
+ * Bearer JWT authenticator options
+ */
+export interface JwtAuthenticatorOptions {
+  /** HMAC secret (HS256) or PEM public key (RS256/ES256) */
+  key: string | crypto.KeyObject;
+
+  /** Optional: Accepted algorithms (defaults to the ones matching the key) */
+  algorithms?: JwtAlgorithm[];
+
+  /** Optional: Required `iss` claim */
+  issuer?: string;
+
+  /** Optional: Required `aud` claim */
+  audience?: string;
+
+  /** Optional: Claim holding the user ID (defaults to `sub`) */
+  userClaim?: string;
+
+  /** Optional: Claim holding the user's roles (defaults to `roles`) */
+  rolesClaim?: string;
+
+  /** Optional: Tolerated clock skew in seconds (defaults to 30) */
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * Session cookie authenticator options
+ */
+export interface SessionAuthenticatorOptions {
+  /** Cookie carrying the session ID */
+  cookieName: string;
+
+  /** Look up the user of a session in the application's session store */
+  getSession: (
+    sessionId: string,
+    req: Request
+  ) => AuthenticatedUser | null | Promise<AuthenticatedUser | null>;
+
+  /** Optional: Secret of signed cookies (`s:<id>.<signature>`, as written by express-session) */
+  secret?: string;
+}
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * Verify `Authorization: Bearer <jwt>` headers with a local key
+ */
+export function createJwtAuthenticator(options: JwtAuthenticatorOptions): Authenticator {
+  const key =
+    typeof options.key === 'string' && options.key.includes('-----BEGIN')
+      ? crypto.createPublicKey(options.key)
+      : options.key;
+  const algorithms =
+    options.algorithms ||
+    (typeof key === 'string' || key.type === 'secret'
+      ? ['HS256']
+      : key.asymmetricKeyType === 'ec'
+        ? ['ES256']
+        : ['RS256']);
+  const userClaim = options.userClaim || 'sub';
+  const rolesClaim = options.rolesClaim || 'roles';
+  const clockTolerance = options.clockToleranceSeconds ?? 30;
+
+  return req => {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      return null;
+    }
+
+    const claims = verifyJwt(token, key, algorithms);
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.exp === 'number' && now - clockTolerance >= claims.exp) {
+      throw new Error('Token expired');
+    }
+    if (typeof claims.nbf === 'number' && now + clockTolerance < claims.nbf) {
+      throw new Error('Token not yet valid');
+    }
+    if (options.issuer && claims.iss !== options.issuer) {
+      throw new Error('Unexpected token issuer');
+    }
+    if (options.audience && ![claims.aud].flat().includes(options.audience)) {
+      throw new Error('Unexpected token audience');
+    }
+
+    const userId = claims[userClaim];
+    if (typeof userId !== 'string' || !userId) {
+      throw new Error(`Token has no "${userClaim}" claim`);
+    }
+
+    const roles = [claims[rolesClaim] ?? []]
+      .flat()
+      .filter((role): role is string => typeof role === 'string');
+
+    return { userId, roles, claims };
+  };
+}
+
+/**
+ * Resolve the user from a session cookie
+ */
+export function createSessionAuthenticator(options: SessionAuthenticatorOptions): Authenticator {
+  return async req => {
+    const cookie = parseCookies(req.headers.cookie)[options.cookieName];
+    if (!cookie) {
+      return null;
+    }
+
+    const sessionId = options.secret ? unsignCookie(cookie, options.secret) : cookie;
+    if (!sessionId) {
+      throw new Error('Invalid session cookie signature');
+    }
+
+    return options.getSession(sessionId, req);
+  };
+}
+
+/**
+ * Middleware rejecting unauthenticated requests; the user is stored in `res.locals.user`
+ */
+export function requireUser(getAuthenticator: () => Authenticator): RequestHandler {
+  return async (req, res, next) => {
+    let user: AuthenticatedUser | null;
+
+    try {
+      user = await getAuthenticator()(req);
+    } catch (error: unknown) {
+      serverLogger.warn(
+        'Authentication failed:',
+        error instanceof Error ? error.message : String(error)
+      );
+      user = null;
+    }
+
+    if (!user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    res.locals.user = user;
+    next();
+  };
+}
+
+/**
+ * Verify a compact JWT and return its payload
+ */
+function verifyJwt(
+  token: string,
+  key: string | crypto.KeyObject,
+  algorithms: JwtAlgorithm[]
+): Record<string, unknown> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed token');
+  }
+
+  const [header, payload, signature] = parts;
+  const { alg } = decodeJwtPart(header);
+
+  if (!algorithms.includes(alg)) {
+    throw new Error(`Token algorithm ${alg} is not accepted`);
+  }
+
+  const signingInput = Buffer.from(`${header}.${payload}`);
+  const signatureBytes = Buffer.from(signature, 'base64url');
+  let valid: boolean;
+
+  if (alg === 'HS256') {
+    if (typeof key !== 'string' && key.type !== 'secret') {
+      throw new Error('HS256 tokens require a secret key');
+    }
+    const expected = crypto.createHmac('sha256', key).update(signingInput).digest();
+    valid =
+      expected.length === signatureBytes.length && crypto.timingSafeEqual(expected, signatureBytes);
+  } else {
+    if (typeof key === 'string' || key.type !== 'public') {
+      throw new Error(`${alg} tokens require a public key`);
+    }
+    // JWS carries ECDSA signatures as raw r||s rather than DER
+    valid = crypto.verify(
+      'sha256',
+      signingInput,
+      { key, dsaEncoding: alg === 'ES256' ? 'ieee-p1363' : 'der' },
+      signatureBytes
+    );
+  }
+
+  if (!valid) {
+    throw new Error('Invalid token signature');
+  }
+
+  return decodeJwtPart(payload);
+}
+
+function decodeJwtPart(part: string): Record<string, any> {
+  try {
+    return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Malformed token');
+  }
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  (header || '').split(';').forEach(pair => {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      const name = pair.slice(0, separator).trim();
+      try {
+        cookies[name] = decodeURIComponent(pair.slice(separator + 1).trim());
+      } catch {
+        // Ignore cookies with malformed encoding
+      }
+    }
+  });
+
+  return cookies;
+}
+
+/**
+ * Check a `s:<value>.<signature>` cookie, returning the value when the signature matches
+ */
+function unsignCookie(cookie: string, secret: string): string | null {
+  if (!cookie.startsWith('s:')) {
+    return null;
+  }
+
+  const signed = cookie.slice(2);
+  const separator = signed.lastIndexOf('.');
+  if (separator < 0) {
+    return null;
+  }
+
+  const value = signed.slice(0, separator);
+  const signature = Buffer.from(signed.slice(separator + 1));
+  const expected = Buffer.from(
+    crypto.createHmac('sha256', secret).update(value).digest('base64').replace(/=+$/, '')
+  );
+
+  return expected.length === signature.length && crypto.timingSafeEqual(expected, signature)
+    ? value
+    : null;
+}
@@ -0,0 +1,130 @@
+/**
+ * Protected Content Delivery
+ *
+ * Serves the sensitive HTML only to clients that acquired a license, so it is
+ * never part of the page before protection starts. The token endpoint issues a
+ * short-lived content token next to each license token; it is signed by this
+ * server and bound to the user, the content and that license token. The content
+ * endpoint only redeems it once the client reported acquiring that very license
+ * (see server/attestation.ts), as holding the token alone proves nothing.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/** Content IDs double as file names, so they are restricted to safe characters */
+const CONTENT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Claims of a content token
+ */
+export interface ContentTokenClaims {
+  /** User the license token was issued to */
+  sub: string;
+
+  /** Content the token unlocks */
+  cid: string;
+
+  /** SHA-256 of the license token issued alongside (base64url) */
+  lic: string;
+
+  /** Expiry in seconds since the epoch */
+  exp: number;
+}
+
+/**
+ * Issues and verifies content tokens (`<claims>.<HMAC-SHA256>`, both base64url)
+ */
+export class ContentTokenIssuer {
+  constructor(
+    private secret: string | Buffer,
+    private ttlSeconds = 120
+  ) {}
+
+  /**
+   * Issue a content token for a license token issued to a user
+   */
+  issue({
+    userId,
+    contentId,
+    licenseToken,
+  }: {
+    userId: string;
+    contentId: string;
+    licenseToken: string;
+  }): string {
+    const claims: ContentTokenClaims = {
+      sub: userId,
+      cid: contentId,
+      lic: hashLicenseToken(licenseToken),
+      exp: Math.floor(Date.now() / 1000) + this.ttlSeconds,
+    };
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Verify a content token, returning its claims
+   */
+  verify(token: string): ContentTokenClaims {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      throw new Error('Malformed content token');
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new Error('Invalid content token signature');
+    }
+
+    const claims: ContentTokenClaims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+      throw new Error('Content token expired');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Check whether claims were issued alongside a license token
+   */
+  isIssuedWith(claims: ContentTokenClaims, licenseToken: string): boolean {
+    return claims.lic === hashLicenseToken(licenseToken);
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+function hashLicenseToken(licenseToken: string): string {
+  return crypto.createHash('sha256').update(licenseToken).digest('base64url');
+}
+
+/**
+ * Protected HTML stored as `<directory>/<contentId>.html`
+ */
+export class FileContentStore {
+  constructor(private directory: string) {}
+
+  /**
+   * Read the content, or null when there is none for the ID
+   */
+  async get(contentId: string): Promise<string | null> {
+    if (!CONTENT_ID_PATTERN.test(contentId)) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(path.join(this.directory, `${contentId}.html`), 'utf8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
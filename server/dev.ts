@@ -27,6 +27,9 @@ app.use('/dist', express.static(path.join(__dirname, '../dist')));
 app.use('/cloakscreen.min.js', express.static(path.join(__dirname, '../dist/cloakscreen.min.js')));
 app.use('/index.esm.js', express.static(path.join(__dirname, '../dist/index.esm.js')));
 
+// Serve locally generated DRM content (e.g. ClearKey test assets)
+app.use('/drm-content', express.static(path.join(__dirname, '../drm-content')));
+
 // Ensure the specific file is served correctly
 app.get('/dist/index.esm.js', (req, res) => {
   res.sendFile(path.join(__dirname, '../dist/index.esm.js'));
@@ -0,0 +1,285 @@
+/**
+ * DRM Policy Engine
+ *
+ * Chooses the PallyCon license policy for a token request. Rules are loaded from
+ * a JSON or YAML file and matched in order against the user's roles, the content
+ * ID and the time of the request; the first matching rule wins.
+ *
+ * ```yaml
+ * default:
+ *   licenseDurationSeconds: 3600
+ * rules:
+ *   - name: finance
+ *     match:
+ *       roles: [finance]
+ *       contentIds: ['finance-*']
+ *       timeWindow: { days: [mon, tue, wed, thu, fri], start: '08:00', end: '18:00' }
+ *     policy:
+ *       licenseDurationSeconds: 900
+ *       securityLevel: hardware
+ *       hdcp: v2.2
+ *       disableAnalogOutput: true
+ * ```
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import * as v from 'valibot';
+import { parse as parseYaml } from 'yaml';
+import type { DRMPolicy } from '../src/types/config.js';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const TimeOfDaySchema = v.pipe(
+  v.string(),
+  v.regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM (24h)')
+);
+
+const PolicyFieldsSchema = v.strictObject({
+  licenseDurationSeconds: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+  playbackDurationSeconds: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+  persistent: v.optional(v.boolean()),
+  securityLevel: v.optional(v.picklist(['software', 'hardware'])),
+  hdcp: v.optional(v.picklist(['none', 'v1', 'v2', 'v2.2'])),
+  disableAnalogOutput: v.optional(v.boolean()),
+});
+
+const PolicyRuleSchema = v.strictObject({
+  name: v.pipe(v.string(), v.minLength(1, 'Rule name is required')),
+  match: v.optional(
+    v.strictObject({
+      roles: v.optional(v.array(v.string())),
+      contentIds: v.optional(v.array(v.string())),
+      timeWindow: v.optional(
+        v.strictObject({
+          days: v.optional(v.array(v.picklist(WEEKDAYS))),
+          start: v.optional(TimeOfDaySchema),
+          end: v.optional(TimeOfDaySchema),
+          timezone: v.optional(v.pipe(v.string(), v.check(isTimeZone, 'Unknown timezone'))),
+          from: v.optional(v.pipe(v.string(), v.isoTimestamp('from must be an ISO timestamp'))),
+          until: v.optional(v.pipe(v.string(), v.isoTimestamp('until must be an ISO timestamp'))),
+        })
+      ),
+    }),
+    {}
+  ),
+  policy: PolicyFieldsSchema,
+});
+
+const PolicyRulesSchema = v.strictObject({
+  default: v.optional(PolicyFieldsSchema, {}),
+  rules: v.optional(v.array(PolicyRuleSchema), []),
+});
+
+/**
+ * Policy settings a rule can set, translated to PallyCon policy fields
+ */
+export type PolicyFields = v.InferOutput<typeof PolicyFieldsSchema>;
+
+export type PolicyRule = v.InferOutput<typeof PolicyRuleSchema>;
+
+export type PolicyRules = v.InferOutput<typeof PolicyRulesSchema>;
+
+/**
+ * Token request a policy is chosen for
+ */
+export interface PolicyRequest {
+  userId: string;
+  roles: string[];
+  contentId: string;
+  drmType: string;
+  at: Date;
+}
+
+/**
+ * Policy chosen for a request
+ */
+export interface PolicyDecision {
+  /** Name of the matching rule, or null when the default policy applies */
+  rule: string | null;
+
+  /** Settings of the rule merged over the defaults */
+  fields: PolicyFields;
+
+  /** PallyCon policy sent in the license token */
+  policy: DRMPolicy;
+}
+
+export class PolicyEngine {
+  private rules: PolicyRules;
+
+  constructor(
+    private basePolicy: DRMPolicy,
+    rules: unknown = {}
+  ) {
+    this.rules = validatePolicyRules(rules);
+  }
+
+  /**
+   * Load rules from a .json, .yaml or .yml file
+   */
+  static async fromFile(basePolicy: DRMPolicy, file: string): Promise<PolicyEngine> {
+    const source = await fs.readFile(file, 'utf8');
+    const extension = path.extname(file).toLowerCase();
+    const rules =
+      extension === '.yaml' || extension === '.yml' ? parseYaml(source) : JSON.parse(source);
+
+    return new PolicyEngine(basePolicy, rules);
+  }
+
+  /**
+   * Choose the policy for a token request
+   */
+  resolve(request: PolicyRequest): PolicyDecision {
+    const rule = this.rules.rules.find(candidate => matchesRule(candidate, request));
+    const fields = { ...this.rules.default, ...rule?.policy };
+
+    return {
+      rule: rule?.name ?? null,
+      fields,
+      policy: compilePolicy(this.basePolicy, fields),
+    };
+  }
+}
+
+/**
+ * Validate a rules document
+ */
+export function validatePolicyRules(rules: unknown): PolicyRules {
+  try {
+    return v.parse(PolicyRulesSchema, rules ?? {});
+  } catch (error) {
+    if (v.isValiError(error)) {
+      const errorMessages = v.flatten(error.issues).nested;
+      const formattedErrors = Object.entries(errorMessages || {}).map(
+        ([path, issues]) => `${path}: ${issues?.[0] || 'Invalid value'}`
+      );
+      throw new Error(`DRM policy rules are invalid:\n${formattedErrors.join('\n')}`);
+    }
+    throw error;
+  }
+}
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesRule(rule: PolicyRule, request: PolicyRequest): boolean {
+  const { roles, contentIds, timeWindow } = rule.match;
+
+  if (roles && !roles.some(role => request.roles.includes(role))) {
+    return false;
+  }
+
+  if (contentIds && !contentIds.some(pattern => matchesPattern(pattern, request.contentId))) {
+    return false;
+  }
+
+  return !timeWindow || matchesTimeWindow(timeWindow, request.at);
+}
+
+/**
+ * Match a content ID against a pattern where `*` stands for any characters
+ */
+function matchesPattern(pattern: string, value: string): boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}$`).test(value);
+}
+
+function matchesTimeWindow(
+  window: NonNullable<PolicyRule['match']['timeWindow']>,
+  at: Date
+): boolean {
+  if (window.from && at < new Date(window.from)) {
+    return false;
+  }
+  if (window.until && at >= new Date(window.until)) {
+    return false;
+  }
+
+  // Weekday and time of day in the window's timezone
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: window.timezone || 'UTC',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(entry => entry.type === type)?.value || '';
+
+  const day = part('weekday').toLowerCase() as (typeof WEEKDAYS)[number];
+  if (window.days && !window.days.includes(day)) {
+    return false;
+  }
+
+  const time = `${part('hour')}:${part('minute')}`;
+  const start = window.start || '00:00';
+  const end = window.end || '24:00';
+
+  // Windows like 22:00-06:00 wrap around midnight
+  return start <= end ? time >= start && time < end : time >= start || time < end;
+}
+
+/**
+ * Translate policy settings into a PallyCon policy (version 2)
+ */
+function compilePolicy(basePolicy: DRMPolicy, fields: PolicyFields): DRMPolicy {
+  const policy: DRMPolicy = {
+    ...basePolicy,
+    playback_policy: {
+      ...basePolicy.playback_policy,
+      ...(fields.persistent !== undefined && { persistent: fields.persistent }),
+      ...(fields.licenseDurationSeconds !== undefined && {
+        license_duration_seconds: fields.licenseDurationSeconds,
+      }),
+      ...(fields.playbackDurationSeconds !== undefined && {
+        playback_duration_seconds: fields.playbackDurationSeconds,
+      }),
+    },
+  };
+
+  const { securityLevel, hdcp, disableAnalogOutput } = fields;
+  if (!securityLevel && !hdcp && disableAnalogOutput === undefined) {
+    return policy;
+  }
+
+  const widevine: Record<string, unknown> = {};
+  const playready: Record<string, unknown> = {};
+  const fairplay: Record<string, unknown> = {};
+
+  if (securityLevel) {
+    // Widevine 5 = HW_SECURE_ALL (L1), 1 = SW_SECURE_CRYPTO; PlayReady SL3000 is hardware-backed
+    widevine.security_level = securityLevel === 'hardware' ? 5 : 1;
+    playready.security_level = securityLevel === 'hardware' ? 3000 : 2000;
+  }
+
+  if (hdcp) {
+    widevine.required_hdcp_version = {
+      none: 'HDCP_NONE',
+      v1: 'HDCP_V1',
+      v2: 'HDCP_V2',
+      'v2.2': 'HDCP_V2_2',
+    }[hdcp];
+    playready.digital_video_protection_level = hdcp === 'none' ? 100 : 300;
+    playready.require_hdcp_type_1 = hdcp === 'v2.2';
+    fairplay.hdcp_enforcement = hdcp === 'none' ? -1 : hdcp === 'v2.2' ? 1 : 0;
+  }
+
+  if (disableAnalogOutput !== undefined) {
+    widevine.disable_analog_output = disableAnalogOutput;
+    playready.analog_video_protection_level = disableAnalogOutput ? 200 : 100;
+    fairplay.allow_av_adapter = !disableAnalogOutput;
+  }
+
+  policy.security_policy = [{ track_type: 'ALL', widevine, playready, fairplay }];
+  return policy;
+}
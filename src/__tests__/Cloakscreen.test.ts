@@ -3,6 +3,24 @@
  */
 
 import { Cloakscreen } from '../core/Cloakscreen';
+import { DRMManager } from '../core/DRMManager';
+import { CloakscreenError, ErrorCode } from '../errors/simplified';
+import { DOMSnapshot } from '../utils/DOMSnapshot';
+
+vi.mock('../utils/cdn', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/cdn')>()),
+  checkDependencies: () => ({ available: true, missing: [] }),
+}));
+
+vi.mock('../utils/browser', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/browser')>()),
+  detectBrowserCapabilities: () => ({ supportsEME: true }),
+}));
+
+vi.mock('../utils/hardware-acceleration', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/hardware-acceleration')>()),
+  detectHardwareAcceleration: async () => ({ available: false, confidence: 0 }),
+}));
 
 describe('Cloakscreen', () => {
   let mockElement: HTMLElement;
@@ -58,3 +76,423 @@ describe('Cloakscreen', () => {
     }).toThrow();
   });
 });
+
+describe('Minimum security level', () => {
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    vi.spyOn(DRMManager.prototype, 'initialize').mockResolvedValue();
+    vi.spyOn(DRMManager.prototype, 'getStatus').mockReturnValue({
+      supported: true,
+      type: 'widevine',
+      securityLevel: 'L3',
+      hardwareBacked: false,
+      provider: 'pallycon',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const create = (options: Record<string, unknown>) =>
+    new Cloakscreen({
+      element,
+      provider: { name: 'pallycon', siteId: 'TEST123', tokenEndpoint: '/api/token' },
+      options,
+    });
+
+  test('should fall back and report details when the CDM is too weak', async () => {
+    const cloak = create({ requireSecurityLevel: 'L1', fallbackMode: 'hide' });
+    const onInsufficient = vi.fn();
+    cloak.on('security-insufficient', onInsufficient);
+
+    await cloak.protect();
+
+    expect(onInsufficient).toHaveBeenCalledWith(
+      expect.objectContaining({
+        required: { securityLevel: 'L1', hardwareBacked: false },
+        detected: expect.objectContaining({ securityLevel: 'L3', hardwareBacked: false }),
+      })
+    );
+    expect(element.style.display).toBe('none');
+    expect(cloak.isProtected()).toBe(false);
+  });
+
+  test('should pick the fallback for the detected level and revert it on unprotect', async () => {
+    element.innerHTML = '<p>Secret</p>';
+    const cloak = create({
+      requireSecurityLevel: 'L1',
+      fallbackMode: { L3: { strategy: 'placeholder', options: { template: 'Needs L1' } } },
+    });
+    const onFallback = vi.fn();
+    cloak.on('fallback-activated', onFallback);
+
+    await cloak.protect();
+    expect(onFallback).toHaveBeenCalledWith({
+      mode: 'placeholder',
+      reason: 'insufficient-security',
+    });
+    expect(element.innerHTML).toBe('Needs L1');
+
+    cloak.unprotect();
+    expect(element.innerHTML).toBe('<p>Secret</p>');
+  });
+
+  test('should throw a typed error when configured to', async () => {
+    element.innerHTML = '<p>Secret</p>';
+    const cloak = create({
+      requireHardwareBacked: true,
+      onInsufficientSecurity: 'throw',
+      fallbackMode: 'hide',
+    });
+    const onFallback = vi.fn();
+    cloak.on('fallback-activated', onFallback);
+
+    const error = await cloak.protect().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CloakscreenError);
+    expect(error.code).toBe(ErrorCode.SECURITY_LEVEL_INSUFFICIENT);
+    expect(error.context.details.reasons).toEqual(['DRM is not hardware-backed']);
+
+    // Handling the error is left to the caller, so no fallback is applied
+    expect(onFallback).not.toHaveBeenCalled();
+    expect(element.style.display).toBe('');
+  });
+});
+
+describe('Remote content', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  test('should fetch the content with the content token once the license was acquired', async () => {
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+
+    const startProtection = vi.spyOn(DRMManager.prototype, 'startProtection').mockResolvedValue();
+    vi.spyOn(DRMManager.prototype, 'initialize').mockResolvedValue();
+    vi.spyOn(DRMManager.prototype, 'getStatus').mockReturnValue({
+      supported: true,
+      type: 'widevine',
+      securityLevel: 'L1',
+      hardwareBacked: true,
+    });
+    vi.spyOn(DRMManager.prototype, 'getLicenseTokens').mockReturnValue([
+      {
+        token: 'license',
+        contentId: 'doc-1',
+        drmType: 'Widevine',
+        expiresAt: null,
+        contentToken: 'ct',
+      },
+    ]);
+    const fetchMock = vi.fn().mockImplementation(async () => {
+      // The request must follow license acquisition
+      expect(startProtection).toHaveBeenCalled();
+      return { ok: true, text: async () => '<p>Secret</p>' };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const cloak = new Cloakscreen({
+      element,
+      provider: { name: 'pallycon', siteId: 'TEST123', tokenEndpoint: '/api/token' },
+      options: { contentUrl: '/api/content/doc-1' },
+    });
+    await cloak.protect();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/content/doc-1',
+      expect.objectContaining({ headers: { Authorization: 'Bearer ct' } })
+    );
+    expect(cloak.getContent()).toContain('Secret');
+
+    await cloak.destroy();
+    element.remove();
+  });
+});
+
+describe('DOM restoration', () => {
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    element.setAttribute('style', 'color: red;border:1px solid');
+    element.innerHTML =
+      '<h2 style="visibility: visible">Report</h2><p class="lead">Q3 <b>results</b></p><ul><li>One</li></ul>';
+    document.body.appendChild(element);
+
+    vi.spyOn(DRMManager.prototype, 'initialize').mockResolvedValue();
+    vi.spyOn(DRMManager.prototype, 'startProtection').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    element.remove();
+    vi.restoreAllMocks();
+  });
+
+  const mockStatus = (securityLevel: 'L1' | 'L3') =>
+    vi.spyOn(DRMManager.prototype, 'getStatus').mockReturnValue({
+      supported: true,
+      type: 'widevine',
+      securityLevel,
+      hardwareBacked: securityLevel === 'L1',
+    });
+
+  const create = (options: Record<string, unknown> = {}) =>
+    new Cloakscreen({
+      element,
+      provider: { name: 'pallycon', siteId: 'TEST123', tokenEndpoint: '/api/token' },
+      options,
+    });
+
+  test('should leave the DOM exactly as before protect() after destroy()', async () => {
+    mockStatus('L1');
+    const before = element.cloneNode(true);
+
+    const cloak = create();
+    await cloak.protect();
+    expect(cloak.isProtected()).toBe(true);
+    expect(element.isEqualNode(before)).toBe(false);
+
+    cloak.destroy();
+    expect(element.isEqualNode(before)).toBe(true);
+    expect(element.outerHTML).toBe((before as HTMLElement).outerHTML);
+  });
+
+  test.each(['blur', 'hide', 'placeholder', 'click-to-reveal', 'scramble'])(
+    'should undo the %s fallback on destroy()',
+    async fallbackMode => {
+      mockStatus('L3');
+      const before = element.cloneNode(true);
+
+      const cloak = create({ requireSecurityLevel: 'L1', fallbackMode });
+      await cloak.protect();
+
+      cloak.destroy();
+      expect(element.isEqualNode(before)).toBe(true);
+    }
+  );
+
+  test('should keep style changes the page made while protected', () => {
+    const snapshot = new DOMSnapshot();
+    const heading = element.querySelector('h2') as HTMLElement;
+
+    snapshot.setStyle(heading, 'visibility', 'hidden');
+    snapshot.setStyle(element, 'position', 'relative');
+    heading.style.color = 'blue';
+    snapshot.restore();
+
+    expect(heading.style.visibility).toBe('visible');
+    expect(heading.style.color).toBe('blue');
+    expect(element.getAttribute('style')).toBe('color: red;border:1px solid');
+  });
+});
+
+describe('Protection lifecycle', () => {
+  let element: HTMLElement;
+  let securityLevel: 'L1' | 'L3';
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    element.innerHTML = '<p>Test content</p>';
+    document.body.appendChild(element);
+    securityLevel = 'L1';
+
+    vi.spyOn(DRMManager.prototype, 'initialize').mockResolvedValue();
+    vi.spyOn(DRMManager.prototype, 'getStatus').mockImplementation(() => ({
+      supported: true,
+      type: 'widevine',
+      securityLevel,
+      hardwareBacked: securityLevel === 'L1',
+    }));
+  });
+
+  afterEach(() => {
+    element.remove();
+    vi.restoreAllMocks();
+  });
+
+  const create = (options: Record<string, unknown> = {}) => {
+    const cloak = new Cloakscreen({
+      element,
+      provider: { name: 'pallycon', siteId: 'TEST123', tokenEndpoint: '/api/token' },
+      options,
+    });
+    const states: string[] = [];
+    cloak.on('state-change', ({ to }: { to: string }) => states.push(to));
+    return { cloak, states };
+  };
+
+  const hasLayers = () => element.querySelector('.cloakscreen-container') !== null;
+  const topLayer = () => element.querySelector<HTMLElement>('.cloakscreen-top-layer')!;
+
+  test('should move through the states and share concurrent protect() calls', async () => {
+    const startProtection = vi.spyOn(DRMManager.prototype, 'startProtection').mockResolvedValue();
+    const { cloak, states } = create();
+
+    expect(cloak.getState()).toBe('idle');
+    await Promise.all([cloak.protect(), cloak.protect()]);
+    expect(startProtection).toHaveBeenCalledTimes(1);
+
+    cloak.unprotect();
+    cloak.destroy();
+
+    expect(states).toEqual([
+      'loading-deps',
+      'detecting',
+      'licensing',
+      'protected',
+      'idle',
+      'destroyed',
+    ]);
+    await expect(cloak.protect()).rejects.toMatchObject({
+      code: ErrorCode.INVALID_STATE_TRANSITION,
+    });
+  });
+
+  test('should retry after a fallback', async () => {
+    vi.spyOn(DRMManager.prototype, 'startProtection').mockResolvedValue();
+    securityLevel = 'L3';
+    const { cloak } = create({ requireSecurityLevel: 'L1', fallbackMode: 'hide' });
+
+    await cloak.protect();
+    expect(cloak.getState()).toBe('fallback');
+    expect(element.style.display).toBe('none');
+
+    securityLevel = 'L1';
+    await cloak.protect();
+
+    expect(cloak.getState()).toBe('protected');
+    expect(element.style.display).toBe('');
+    cloak.destroy();
+  });
+
+  test('should remove the layers when licensing fails and allow a retry', async () => {
+    const startProtection = vi
+      .spyOn(DRMManager.prototype, 'startProtection')
+      .mockRejectedValueOnce(new Error('License request failed'))
+      .mockResolvedValue();
+    const { cloak } = create({ fallbackMode: 'none' });
+
+    await expect(cloak.protect()).rejects.toThrow('License request failed');
+    expect(cloak.getState()).toBe('error');
+    expect(hasLayers()).toBe(false);
+
+    await cloak.protect();
+    expect(cloak.getState()).toBe('protected');
+    expect(startProtection).toHaveBeenCalledTimes(2);
+    cloak.destroy();
+  });
+
+  test('should shield the content while degraded playback is recovered', async () => {
+    vi.spyOn(DRMManager.prototype, 'startProtection').mockResolvedValue();
+    const { cloak, states } = create({ fallbackMode: 'hide' });
+    await cloak.protect();
+
+    const drmManager = (cloak as any).drmManager;
+    const video = element.querySelector('video');
+    drmManager.emit('playback-degraded', { video: document.createElement('video') });
+    expect(cloak.getState()).toBe('protected');
+
+    drmManager.emit('playback-degraded', { video, reason: 'emptied' });
+    await vi.waitFor(() => expect(topLayer().style.display).toBe('none'));
+    expect(cloak.getState()).toBe('degraded');
+
+    drmManager.emit('playback-recovered', { video, attempts: 2 });
+    expect(cloak.getState()).toBe('protected');
+    expect(topLayer().style.display).toBe('');
+
+    drmManager.emit('playback-degraded', { video, reason: 'stalled' });
+    drmManager.emit('playback-recovery-failed', {
+      video,
+      attempts: 5,
+      error: new Error('revoked'),
+    });
+    await vi.waitFor(() => expect(element.style.display).toBe('none'));
+
+    expect(states.slice(-4)).toEqual(['degraded', 'protected', 'degraded', 'error']);
+    expect(hasLayers()).toBe(false);
+    cloak.destroy();
+    expect(element.style.display).toBe('');
+  });
+
+  test('should keep the recovered video in place under a placeholder', async () => {
+    vi.spyOn(DRMManager.prototype, 'startProtection').mockResolvedValue();
+    const { cloak } = create({ fallbackMode: 'placeholder' });
+    await cloak.protect();
+
+    const original = element.firstChild;
+    const topLayer = element.querySelector('.cloakscreen-top-layer')!;
+    const video = element.querySelector('video')!;
+    const drmManager = (cloak as any).drmManager;
+
+    drmManager.emit('playback-degraded', { video, reason: 'emptied' });
+    await vi.waitFor(() => expect(topLayer.textContent).toContain('DRM not available'));
+
+    // Only the visible copy is replaced; the video and the page's nodes stay put
+    expect(topLayer.textContent).not.toContain('Test content');
+    expect(video.isConnected).toBe(true);
+    expect(element.firstChild).toBe(original);
+
+    drmManager.emit('playback-recovered', { video, attempts: 1 });
+
+    expect(cloak.getState()).toBe('protected');
+    expect(topLayer.textContent).toContain('Test content');
+    expect(element.querySelector('video')).toBe(video);
+    expect(video.isConnected).toBe(true);
+    cloak.destroy();
+  });
+
+  test('should retry from the start while degraded', async () => {
+    const startProtection = vi.spyOn(DRMManager.prototype, 'startProtection').mockResolvedValue();
+    const stopProtection = vi.spyOn(DRMManager.prototype, 'stopProtection');
+    const { cloak, states } = create({ fallbackMode: 'hide' });
+    await cloak.protect();
+
+    const video = element.querySelector('video');
+    (cloak as any).drmManager.emit('playback-degraded', { video, reason: 'emptied' });
+    await vi.waitFor(() => expect(topLayer().style.display).toBe('none'));
+
+    await cloak.protect();
+
+    expect(states.slice(-5)).toEqual([
+      'degraded',
+      'loading-deps',
+      'detecting',
+      'licensing',
+      'protected',
+    ]);
+    // The degraded surface (and its recovery) is stopped before the new attempt
+    expect(stopProtection).toHaveBeenCalledTimes(1);
+    expect(startProtection).toHaveBeenCalledTimes(2);
+    expect(element.style.display).toBe('');
+    expect(element.querySelectorAll('.cloakscreen-container')).toHaveLength(1);
+    cloak.destroy();
+  });
+
+  test('should cancel an attempt in progress on unprotect()', async () => {
+    let finishLicensing = () => {};
+    vi.spyOn(DRMManager.prototype, 'startProtection').mockImplementation(
+      () => new Promise<void>(resolve => (finishLicensing = resolve))
+    );
+    const { cloak } = create();
+    const onProtected = vi.fn();
+    cloak.on('protected', onProtected);
+
+    const attempt = cloak.protect();
+    await vi.waitFor(() => expect(hasLayers()).toBe(true));
+    expect(cloak.getState()).toBe('licensing');
+
+    cloak.unprotect();
+    finishLicensing();
+    await attempt;
+
+    expect(cloak.getState()).toBe('idle');
+    expect(hasLayers()).toBe(false);
+    expect(onProtected).not.toHaveBeenCalled();
+    cloak.destroy();
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Content adapter tests
+ */
+
+import { ContentAdapter, TextAdapter, ImageAdapter, adapterRegistry } from '../adapters';
+import { ContentManager } from '../core/ContentManager';
+import { LayerManager } from '../core/LayerManager';
+
+class CustomAdapter extends ContentAdapter {
+  protected async initializeContent() {}
+  protected updateTopLayer() {}
+  protected updateBottomLayer() {}
+  protected setupSynchronization() {}
+  protected cleanup() {}
+}
+
+describe('Adapter Registry', () => {
+  afterEach(() => {
+    adapterRegistry.unregister('custom');
+  });
+
+  test('should register the text adapter by default', () => {
+    expect(adapterRegistry.isRegistered('text')).toBe(true);
+    expect(adapterRegistry.create('text')).toBeInstanceOf(TextAdapter);
+  });
+
+  test('should fall back to the default adapter when no matcher applies', () => {
+    const element = document.createElement('div');
+    expect(adapterRegistry.detect(element)).toBe('text');
+  });
+
+  test('should detect the image adapter for bitmap-only content', () => {
+    const element = document.createElement('div');
+    element.innerHTML = '<img src="chart.png"><canvas></canvas><svg></svg>';
+
+    expect(adapterRegistry.detect(element)).toBe('image');
+    expect(adapterRegistry.create('image')).toBeInstanceOf(ImageAdapter);
+  });
+
+  test('should keep the text adapter for mixed content', () => {
+    const element = document.createElement('div');
+    element.innerHTML = '<p>Caption</p><img src="chart.png">';
+
+    expect(adapterRegistry.detect(element)).toBe('text');
+  });
+
+  test('should detect a custom adapter from its matcher', () => {
+    adapterRegistry.register('custom', CustomAdapter, el => el.classList.contains('custom'));
+
+    const element = document.createElement('div');
+    element.className = 'custom';
+
+    expect(adapterRegistry.detect(element)).toBe('custom');
+    expect(adapterRegistry.detect(document.createElement('div'))).toBe('text');
+  });
+
+  test('should throw when creating an unregistered adapter', () => {
+    expect(() => adapterRegistry.create('missing')).toThrow("Adapter 'missing' is not registered");
+  });
+});
+
+describe('ContentManager adapter selection', () => {
+  let target: HTMLElement;
+
+  beforeEach(() => {
+    target = document.createElement('div');
+    target.innerHTML = '<p>Test content</p>';
+    document.body.appendChild(target);
+  });
+
+  afterEach(() => {
+    adapterRegistry.unregister('custom');
+    document.body.innerHTML = '';
+  });
+
+  const createLayers = async () => {
+    const layerManager = new LayerManager(target, { element: target, provider: 'pallycon' });
+    await layerManager.createLayers();
+    return layerManager;
+  };
+
+  test('should use the adapter named in options', async () => {
+    adapterRegistry.register('custom', CustomAdapter);
+
+    const manager = new ContentManager({ adapter: 'custom' });
+    await manager.initialize(await createLayers());
+
+    expect(manager.getAdapterName()).toBe('custom');
+  });
+
+  test('should auto-detect the adapter from the target element', async () => {
+    adapterRegistry.register('custom', CustomAdapter, el => el.querySelector('p') !== null);
+
+    const manager = new ContentManager({});
+    await manager.initialize(await createLayers());
+
+    expect(manager.getAdapterName()).toBe('custom');
+  });
+});
+
+describe('TextAdapter live mirroring', () => {
+  let target: HTMLElement;
+  let contentManager: ContentManager;
+
+  beforeEach(() => {
+    target = document.createElement('div');
+    target.innerHTML = '<p id="first">Value: 1</p><p id="last">Footer</p>';
+    document.body.appendChild(target);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const protectContent = async (observeChanges: boolean) => {
+    const layerManager = new LayerManager(target, { element: target, provider: 'pallycon' });
+    await layerManager.createLayers();
+    contentManager = new ContentManager({ observeChanges });
+    await contentManager.initialize(layerManager);
+    return layerManager.getTopLayer()!.querySelector('.cloakscreen-top-content')!;
+  };
+
+  const flushMutations = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  test('should patch text changes into the top layer', async () => {
+    const top = await protectContent(true);
+
+    target.querySelector('#first')!.textContent = 'Value: 2';
+    await flushMutations();
+
+    expect(top.querySelector('#first')!.textContent).toBe('Value: 2');
+    expect(top.querySelector('#last')!.textContent).toBe('Footer');
+  });
+
+  test('should mirror inserted and removed children in order', async () => {
+    const top = await protectContent(true);
+
+    const inserted = document.createElement('p');
+    inserted.id = 'middle';
+    inserted.textContent = 'Inserted';
+    target.insertBefore(inserted, target.querySelector('#last'));
+    target.querySelector('#first')!.remove();
+    await flushMutations();
+
+    expect(Array.from(top.children).map(child => child.id)).toEqual(['middle', 'last']);
+    expect(inserted.style.visibility).toBe('hidden');
+  });
+
+  test('should not report changes made inside the layers as content changes', async () => {
+    const top = await protectContent(true);
+    const onChange = vi.fn();
+    contentManager.on('content-changed', onChange);
+
+    top.querySelector('#first')!.textContent = 'Layer internal';
+    await flushMutations();
+    expect(onChange).not.toHaveBeenCalled();
+
+    target.querySelector('#first')!.textContent = 'Value: 2';
+    await flushMutations();
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep a static snapshot when not observing', async () => {
+    const top = await protectContent(false);
+
+    target.querySelector('#first')!.textContent = 'Value: 2';
+    await flushMutations();
+
+    expect(top.querySelector('#first')!.textContent).toBe('Value: 1');
+  });
+});
+
+describe('TextAdapter editable mode', () => {
+  let target: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    target = document.createElement('div');
+    target.innerHTML = '<p>Private note</p>';
+    document.body.appendChild(target);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  const protectContent = async (readOnly?: boolean) => {
+    const layerManager = new LayerManager(target, { element: target, provider: 'pallycon' });
+    await layerManager.createLayers();
+    const adapter = new TextAdapter();
+    await adapter.initialize(layerManager, { readOnly });
+    const top = layerManager.getTopLayer()!.querySelector<HTMLElement>('.cloakscreen-top-content')!;
+    const bottom = layerManager
+      .getBottomLayer()!
+      .querySelector<HTMLElement>('.cloakscreen-bottom-content')!;
+    return { adapter, top, bottom };
+  };
+
+  test('should stay read-only unless readOnly is false', async () => {
+    const { adapter, top } = await protectContent();
+
+    expect(adapter.isEditable()).toBe(false);
+    expect(top.hasAttribute('contenteditable')).toBe(false);
+  });
+
+  test('should mirror edits and emit a debounced diff', async () => {
+    const { adapter, top, bottom } = await protectContent(false);
+    const listener = vi.fn();
+    adapter.on('content-changed', listener);
+
+    expect(top.getAttribute('contenteditable')).toBe('true');
+
+    const paragraph = top.querySelector('p')!;
+    window.getSelection()!.collapse(paragraph.firstChild, 7);
+    paragraph.firstChild!.textContent = 'Private notes';
+    top.dispatchEvent(new Event('input'));
+    paragraph.firstChild!.textContent = 'Private notes!';
+    top.dispatchEvent(new Event('input'));
+
+    expect(bottom.querySelector('p')!.textContent).toBe('Private notes!');
+    expect(listener).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(300);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const { content, diff } = listener.mock.calls[0][0];
+    expect(diff).toMatchObject({ removed: '', inserted: 's!' });
+    expect(content.slice(diff.start)).toMatch(/^s!<\/p>/);
+  });
+});
+
+describe('TextAdapter scroll synchronisation', () => {
+  let target: HTMLElement;
+
+  beforeEach(() => {
+    target = document.createElement('div');
+    target.innerHTML = '<p>Intro</p><pre class="listing">long line</pre>';
+    document.body.appendChild(target);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const protectContent = async () => {
+    const layerManager = new LayerManager(target, { element: target, provider: 'pallycon' });
+    await layerManager.createLayers();
+    const manager = new ContentManager({});
+    await manager.initialize(layerManager);
+    return layerManager;
+  };
+
+  test('should scroll the top layer and mirror it into the bottom layer', async () => {
+    const layerManager = await protectContent();
+    const top = layerManager.getTopLayer()!;
+    const bottom = layerManager.getBottomLayer()!;
+
+    expect(top.style.overflow).toBe('auto');
+    expect(layerManager.getMiddleLayer()!.style.overflow).toBe('hidden');
+
+    top.scrollTop = 120;
+    top.dispatchEvent(new Event('scroll'));
+
+    expect(bottom.scrollTop).toBe(120);
+  });
+
+  test('should mirror nested scroll containers', async () => {
+    const layerManager = await protectContent();
+    const topListing = layerManager.getTopLayer()!.querySelector<HTMLElement>('.listing')!;
+    const bottomListing = layerManager.getBottomLayer()!.querySelector<HTMLElement>('.listing')!;
+
+    topListing.scrollLeft = 40;
+    topListing.dispatchEvent(new Event('scroll'));
+
+    expect(bottomListing.scrollLeft).toBe(40);
+  });
+
+  test('should carry the existing scroll position into the layers and back', async () => {
+    target.scrollTop = 80;
+    const layerManager = await protectContent();
+
+    expect(target.scrollTop).toBe(0);
+    expect(layerManager.getTopLayer()!.scrollTop).toBe(80);
+    expect(layerManager.getBottomLayer()!.scrollTop).toBe(80);
+
+    layerManager.removeLayers();
+    expect(target.scrollTop).toBe(80);
+  });
+});
+
+describe('ImageAdapter rendering', () => {
+  let target: HTMLElement;
+  let size: { width: number; height: number };
+  const context = {
+    clearRect: vi.fn(),
+    drawImage: vi.fn(),
+    fillRect: vi.fn(),
+    getImageData: (_x: number, _y: number, width: number, height: number) => ({
+      width,
+      height,
+      data: new Uint8ClampedArray(width * height * 4),
+    }),
+  };
+
+  beforeEach(() => {
+    size = { width: 80, height: 40 };
+    target = document.createElement('div');
+    target.innerHTML = '<svg width="80" height="40"><rect width="80" height="40" /></svg>';
+    document.body.appendChild(target);
+    Object.defineProperty(target, 'clientWidth', { get: () => size.width });
+    Object.defineProperty(target, 'clientHeight', { get: () => size.height });
+
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as any);
+    (HTMLImageElement.prototype as any).decode = vi.fn(async () => {});
+    URL.createObjectURL = vi.fn(
+      () => `blob:svg-${vi.mocked(URL.createObjectURL).mock.calls.length}`
+    );
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete (HTMLImageElement.prototype as any).decode;
+    document.body.innerHTML = '';
+  });
+
+  const protectContent = async () => {
+    const layerManager = new LayerManager(target, { element: target, provider: 'pallycon' });
+    await layerManager.createLayers();
+    const manager = new ContentManager({});
+    await manager.initialize(layerManager);
+    return { manager, canvas: layerManager.getTopLayer()!.querySelector('canvas')! };
+  };
+
+  const flushRender = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  test('should revoke the blob URL of a rasterized SVG once it is decoded', async () => {
+    const { manager } = await protectContent();
+
+    expect(manager.getAdapterName()).toBe('image');
+    expect(URL.createObjectURL).toHaveBeenCalledTimes(1);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:svg-1');
+    manager.destroy();
+  });
+
+  test('should re-render at the new size when the layers are resized', async () => {
+    const { manager, canvas } = await protectContent();
+    expect([canvas.width, canvas.height]).toEqual([80, 40]);
+
+    size = { width: 160, height: 90 };
+    manager.handleResize();
+    await flushRender();
+
+    expect([canvas.width, canvas.height]).toEqual([160, 90]);
+    expect(URL.revokeObjectURL).toHaveBeenCalledTimes(2);
+    manager.destroy();
+  });
+});
@@ -2,17 +2,21 @@
  * Auto-setup tests
  */
 
-import { findProtectedContent, initAutoProtection } from '../utils/auto-setup';
+import { findProtectedContent, initAutoProtection, stopAutoProtection } from '../utils/auto-setup';
 
 import { vi } from 'vitest';
 
-// Mock the protect function
+const { cloak } = vi.hoisted(() => ({
+  cloak: { protect: vi.fn().mockResolvedValue(undefined), destroy: vi.fn() },
+}));
+
+// Mock instance creation
 vi.mock('../quick-start', () => ({
-  protect: vi.fn().mockResolvedValue({}),
+  createCloakscreen: vi.fn().mockResolvedValue(cloak),
 }));
 
-import { protect } from '../quick-start';
-const mockProtect = protect as any;
+import { createCloakscreen } from '../quick-start';
+const mockCreate = createCloakscreen as any;
 
 describe('Auto-setup utilities', () => {
   beforeEach(() => {
@@ -88,8 +92,8 @@ describe('Auto-setup utilities', () => {
       // Wait for async operations
       await new Promise(resolve => setTimeout(resolve, 0));
 
-      expect(mockProtect).toHaveBeenCalledTimes(2);
-      expect(mockProtect).toHaveBeenCalledWith(expect.any(HTMLElement), {
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(mockCreate).toHaveBeenCalledWith(expect.any(HTMLElement), {
         provider: 'demo',
         fallback: 'blur',
         debug: false,
@@ -114,7 +118,7 @@ describe('Auto-setup utilities', () => {
       await initAutoProtection(customConfig);
       await new Promise(resolve => setTimeout(resolve, 0));
 
-      expect(mockProtect).toHaveBeenCalledWith(expect.any(HTMLElement), customConfig);
+      expect(mockCreate).toHaveBeenCalledWith(expect.any(HTMLElement), customConfig);
     });
 
     test('should wait for DOM ready if loading', () => {
@@ -147,7 +151,7 @@ describe('Auto-setup utilities', () => {
 
       // Debug messages are not shown in test environment (log level is WARN)
       // This is expected behavior - no console output for debug level
-      expect(mockProtect).not.toHaveBeenCalled();
+      expect(mockCreate).not.toHaveBeenCalled();
 
       consoleSpy.mockRestore();
     });
@@ -160,7 +164,7 @@ describe('Auto-setup utilities', () => {
         writable: true,
       });
 
-      mockProtect.mockRejectedValueOnce(new Error('Protection failed'));
+      cloak.protect.mockRejectedValueOnce(new Error('Protection failed'));
       const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation();
 
       await initAutoProtection();
@@ -184,10 +188,87 @@ describe('Auto-setup utilities', () => {
 
       initAutoProtection();
 
-      expect(mockProtect).not.toHaveBeenCalled();
+      expect(mockCreate).not.toHaveBeenCalled();
 
       global.window = originalWindow;
       global.document = originalDocument;
     });
   });
+
+  describe('declarative configuration', () => {
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+      Object.defineProperty(document, 'readyState', {
+        value: 'complete',
+        writable: true,
+      });
+    });
+
+    afterEach(() => {
+      stopAutoProtection();
+    });
+
+    test('should apply per-element data attributes', async () => {
+      document.body.innerHTML = `
+        <div data-cloakscreen data-cloakscreen-fallback="hide" data-cloakscreen-content-id="doc-42">A</div>
+        <div data-cloakscreen data-cloakscreen-provider="unknown">B</div>
+      `;
+
+      initAutoProtection({ provider: 'cloud', apiKey: 'test-key' });
+      await flush();
+
+      expect(mockCreate).toHaveBeenCalledWith(document.body.children[0], {
+        provider: 'cloud',
+        apiKey: 'test-key',
+        fallback: 'hide',
+        contentId: 'doc-42',
+        debug: false,
+      });
+      expect(mockCreate).toHaveBeenCalledWith(document.body.children[1], {
+        provider: 'cloud',
+        apiKey: 'test-key',
+        fallback: 'blur',
+        debug: false,
+      });
+    });
+
+    test('should protect elements added after initialization', async () => {
+      initAutoProtection();
+
+      const wrapper = document.createElement('section');
+      wrapper.innerHTML = '<p class="cloakscreen-protect">Late content</p>';
+      document.body.appendChild(wrapper);
+      await flush();
+
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(mockCreate).toHaveBeenCalledWith(wrapper.firstElementChild, expect.any(Object));
+    });
+
+    test('should destroy protection when an element is removed', async () => {
+      document.body.innerHTML = `<div data-cloakscreen>Content</div>`;
+
+      initAutoProtection();
+      await flush();
+
+      document.body.firstElementChild!.remove();
+      await flush();
+
+      expect(cloak.destroy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should destroy an instance whose protection failed when its element is removed', async () => {
+      cloak.protect.mockRejectedValueOnce(new Error('DRM not supported'));
+      document.body.innerHTML = `<div data-cloakscreen>Content</div>`;
+
+      initAutoProtection();
+      await flush();
+      expect(cloak.protect).toHaveBeenCalledTimes(1);
+
+      document.body.firstElementChild!.remove();
+      await flush();
+
+      expect(cloak.destroy).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,216 @@
+/**
+ * Vue and Svelte bindings tests
+ */
+
+const { instances, real } = vi.hoisted(() => ({
+  instances: [] as any[],
+  real: { enabled: false },
+}));
+
+vi.mock('../core/Cloakscreen', async importOriginal => {
+  const actual = await importOriginal<typeof import('../core/Cloakscreen')>();
+  const { default: EventEmitter } = await import('../utils/EventEmitter');
+
+  class MockCloakscreen extends EventEmitter {
+    config: any;
+    content = '';
+    protectedState = false;
+    destroy = vi.fn();
+    updateContent = vi.fn((content: string) => {
+      this.content = content;
+    });
+
+    constructor(config: any) {
+      super();
+      if (config.provider === 'invalid') {
+        throw new Error('Invalid provider');
+      }
+      this.config = config;
+
+      // Real instances, with real layers and content adapters on the element
+      if (real.enabled) {
+        const cloak = new actual.Cloakscreen(config);
+        instances.push(cloak);
+        return cloak as any;
+      }
+
+      instances.push(this);
+    }
+
+    async protect() {
+      if (this.config.provider === 'unsupported') {
+        this.emit('fallback-activated', { mode: 'blur' });
+        throw new Error('DRM not supported');
+      }
+      this.protectedState = true;
+      this.emit('protected', { drmStatus: { supported: true, type: 'widevine' } });
+    }
+
+    isProtected() {
+      return this.protectedState;
+    }
+
+    getContent() {
+      return this.content;
+    }
+  }
+
+  return { Cloakscreen: MockCloakscreen };
+});
+
+vi.mock('../utils/cdn', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/cdn')>()),
+  checkDependencies: () => ({ available: true, missing: [] }),
+}));
+
+vi.mock('../utils/browser', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/browser')>()),
+  detectBrowserCapabilities: () => ({ supportsEME: true }),
+}));
+
+vi.mock('../utils/hardware-acceleration', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/hardware-acceleration')>()),
+  detectHardwareAcceleration: async () => ({ available: false, confidence: 0 }),
+}));
+
+import { vCloakscreen, CloakscreenPlugin } from '../vue';
+import { DRMManager } from '../core/DRMManager';
+import { cloakscreen } from '../svelte';
+
+describe('Framework bindings', () => {
+  let element: HTMLElement;
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    instances.length = 0;
+    element = document.createElement('div');
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('should forward instance events as DOM events on the element', async () => {
+    const onProtected = vi.fn();
+    const onViolation = vi.fn();
+    element.addEventListener('protected', onProtected);
+    element.addEventListener('security-violation', onViolation);
+
+    vCloakscreen.mounted(element, { value: { provider: 'pallycon' } });
+    await flush();
+    instances[0].emit('security-violation', { type: 'devtools' });
+
+    expect(onProtected.mock.calls[0][0].detail).toEqual({
+      drmStatus: { supported: true, type: 'widevine' },
+    });
+    expect(onViolation.mock.calls[0][0].detail).toEqual({ type: 'devtools' });
+  });
+
+  test('should update content in place and re-protect on config changes', async () => {
+    vCloakscreen.mounted(element, { value: { provider: 'pallycon', content: '<p>One</p>' } });
+    await flush();
+
+    vCloakscreen.updated(element, { value: { provider: 'pallycon', content: '<p>Two</p>' } });
+    expect(instances).toHaveLength(1);
+    expect(instances[0].updateContent).toHaveBeenLastCalledWith('<p>Two</p>');
+
+    vCloakscreen.updated(element, { value: { provider: 'custom', content: '<p>Two</p>' } });
+    await flush();
+    expect(instances).toHaveLength(2);
+    expect(instances[0].destroy).toHaveBeenCalledTimes(1);
+
+    vCloakscreen.beforeUnmount(element);
+    await flush();
+    expect(instances[1].destroy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should re-protect real layers when the config changes mid-protect', async () => {
+    real.enabled = true;
+    vi.spyOn(DRMManager.prototype, 'initialize').mockResolvedValue();
+    vi.spyOn(DRMManager.prototype, 'startProtection').mockResolvedValue();
+    vi.spyOn(DRMManager.prototype, 'getStatus').mockReturnValue({
+      supported: true,
+      type: 'widevine',
+      securityLevel: 'L1',
+      hardwareBacked: true,
+    });
+    const provider = { name: 'pallycon', siteId: 'TEST123', tokenEndpoint: '/api/token' };
+    element.innerHTML = '<p>Secret</p>';
+
+    try {
+      vCloakscreen.mounted(element, { value: { provider, options: { fallbackMode: 'hide' } } });
+      vCloakscreen.updated(element, { value: { provider, options: { fallbackMode: 'blur' } } });
+
+      await vi.waitFor(() => expect(instances[1].getState()).toBe('protected'));
+      expect(instances[0].getState()).toBe('destroyed');
+      expect(element.querySelectorAll('.cloakscreen-container')).toHaveLength(1);
+
+      vCloakscreen.beforeUnmount(element);
+      expect(element.innerHTML).toBe('<p>Secret</p>');
+    } finally {
+      real.enabled = false;
+      vi.restoreAllMocks();
+    }
+  });
+
+  test('should report rejected configurations and start on the next update', async () => {
+    const onError = vi.fn();
+    element.addEventListener('error', onError);
+
+    expect(() => vCloakscreen.mounted(element, { value: { provider: 'invalid' } })).not.toThrow();
+    expect(onError.mock.calls[0][0].detail.error.message).toBe('Invalid provider');
+    expect(instances).toHaveLength(0);
+
+    vCloakscreen.updated(element, { value: { provider: 'unsupported' } });
+    await flush();
+    expect(instances).toHaveLength(1);
+    expect(onError.mock.calls[1][0].detail.error.message).toBe('DRM not supported');
+
+    vCloakscreen.beforeUnmount(element);
+    expect(instances[0].destroy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should re-protect only when a function option is replaced', () => {
+    const provider = (userId: string) => ({
+      name: 'pallycon',
+      getUserContext: async () => ({ userId }),
+    });
+    const first = provider('alice');
+
+    const action = cloakscreen(element, { provider: first });
+    action.update({ provider: { ...first } });
+    expect(instances).toHaveLength(1);
+
+    action.update({ provider: provider('bob') });
+    expect(instances).toHaveLength(2);
+    action.destroy();
+  });
+
+  test('should register the directive through the plugin', () => {
+    const app = { directive: vi.fn() };
+    CloakscreenPlugin.install(app);
+
+    expect(app.directive).toHaveBeenCalledWith('cloakscreen', vCloakscreen);
+  });
+
+  test('should drive the Svelte action lifecycle', async () => {
+    const onFallback = vi.fn();
+    element.addEventListener('fallback-activated', onFallback);
+
+    const action = cloakscreen(element, { provider: 'unsupported' });
+    await flush();
+    expect(onFallback.mock.calls[0][0].detail).toEqual({ mode: 'blur' });
+
+    action.update({ provider: 'unsupported', disabled: true });
+    await flush();
+    expect(instances[0].destroy).toHaveBeenCalledTimes(1);
+
+    action.update({ provider: 'pallycon' });
+    action.destroy();
+    await flush();
+    expect(instances).toHaveLength(2);
+    expect(instances[1].destroy).toHaveBeenCalledTimes(1);
+  });
+});
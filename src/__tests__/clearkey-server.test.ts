@@ -0,0 +1,54 @@
+/**
+ * ClearKey license endpoint tests
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+describe('ClearKey license endpoint', () => {
+  const kid = Buffer.from('0123456789abcdef0123456789abcdef', 'hex').toString('base64url');
+  const k = Buffer.from('fedcba9876543210fedcba9876543210', 'hex').toString('base64url');
+  let directory: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cloakscreen-clearkey-'));
+    const keyFile = path.join(directory, 'keys.json');
+    await fs.writeFile(keyFile, JSON.stringify({ keys: [{ kty: 'oct', kid, k }] }));
+    vi.stubEnv('CLEARKEY_KEYS_FILE', keyFile);
+
+    const { default: app } = await import('../../server/api');
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const requestLicense = (body: string) =>
+    fetch(`${baseUrl}/api/clearkey/license`, { method: 'POST', body });
+
+  test('should answer an EME license request with matching JWK keys', async () => {
+    const response = await requestLicense(JSON.stringify({ kids: [kid, 'unknown'] }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      keys: [{ kty: 'oct', kid, k }],
+      type: 'temporary',
+    });
+  });
+
+  test('should reject requests without key IDs', async () => {
+    const response = await requestLicense(JSON.stringify({ type: 'temporary' }));
+
+    expect(response.status).toBe(400);
+  });
+});
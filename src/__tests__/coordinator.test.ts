@@ -0,0 +1,351 @@
+/**
+ * Multi-instance DRM coordination tests
+ */
+
+import { Cloakscreen } from '../core/Cloakscreen';
+import { drmCoordinator } from '../core/DRMCoordinator';
+import { DRMManager } from '../core/DRMManager';
+import { LayerManager } from '../core/LayerManager';
+import { DRMProvider, providerRegistry } from '../providers';
+import { KeySystem } from '../utils/eme';
+
+describe('DRMCoordinator', () => {
+  const provider = { name: 'pallycon', config: { siteId: 'SHARED', tokenEndpoint: '/api/token' } };
+
+  const createRegion = () => {
+    const element = document.createElement('div');
+    element.innerHTML = '<p>Card</p>';
+    return new Cloakscreen({ element, provider });
+  };
+
+  test('should share one DRM manager between regions with the same provider', () => {
+    const first = createRegion();
+    const second = createRegion();
+
+    expect((first as any).drmManager).toBe((second as any).drmManager);
+    expect(drmCoordinator.getRefCount((first as any).config.provider)).toBe(2);
+
+    first.destroy();
+    second.destroy();
+  });
+
+  test('should keep the shared manager alive until the last region is destroyed', () => {
+    const first = createRegion();
+    const second = createRegion();
+    const manager = (second as any).drmManager;
+    const sharedConfig = (second as any).config.provider;
+    const errors = vi.fn();
+    second.on('drm-error', errors);
+
+    first.destroy();
+    first.destroy();
+
+    expect(drmCoordinator.getRefCount(sharedConfig)).toBe(1);
+    manager.emit('drm-error', { error: new Error('license') });
+    expect(errors).toHaveBeenCalledTimes(1);
+
+    second.destroy();
+    expect(drmCoordinator.getRefCount(sharedConfig)).toBe(0);
+    expect(manager.listenerCount('drm-error')).toBe(0);
+  });
+
+  test('should only share managers between request hooks that are the same function', () => {
+    const forUser = (user: string) => ({
+      name: 'pallycon',
+      config: { siteId: 'SHARED', tokenEndpoint: '/api/token' },
+      getUserContext: async () => ({ userId: user }),
+    });
+    const alice = forUser('alice');
+
+    const first = drmCoordinator.acquire(alice);
+    const second = drmCoordinator.acquire({ ...alice });
+    const third = drmCoordinator.acquire(forUser('bob'));
+
+    expect(second).toBe(first);
+    expect(third).not.toBe(first);
+
+    [first, second, third].forEach(manager => drmCoordinator.release(manager));
+    expect(drmCoordinator.getSessionCount()).toBe(0);
+  });
+
+  test('should give each region a unique video element id', async () => {
+    const layers = [document.createElement('div'), document.createElement('div')].map(
+      element => new LayerManager(element, { element, provider })
+    );
+    await Promise.all(layers.map(layerManager => layerManager.createLayers()));
+
+    const [firstId, secondId] = layers.map(
+      layerManager => layerManager.getMiddleLayer()!.querySelector('video')!.id
+    );
+    expect(firstId).toMatch(/^cloakscreen-drm-video-\d+$/);
+    expect(firstId).not.toBe(secondId);
+  });
+});
+
+describe('Provider failover', () => {
+  const failingManifests = new Set<string>();
+  const originalPlayer = (window as any).shaka.Player;
+
+  class FakePlayer {
+    static isBrowserSupported = () => true;
+    load = vi.fn(async (url: string) => {
+      if (failingManifests.has(url)) {
+        throw new Error('License request failed');
+      }
+    });
+    configure = vi.fn();
+    destroy = vi.fn();
+    addEventListener = vi.fn();
+    removeEventListener = vi.fn();
+    getNetworkingEngine = () => ({
+      registerRequestFilter: vi.fn(),
+      registerResponseFilter: vi.fn(),
+    });
+  }
+
+  const createTestProvider = (name: string, healthy = true) =>
+    class extends DRMProvider {
+      static getMetadata() {
+        return {
+          name,
+          displayName: name,
+          description: 'Test provider',
+          supportedKeySystems: [KeySystem.WIDEVINE],
+          requiredConfig: [],
+        };
+      }
+      async initialize() {}
+      async getLicenseToken() {
+        return '';
+      }
+      getLicenseServerUrl() {
+        return `/${name}/license`;
+      }
+      async getContentUrl() {
+        return `/${name}.mpd`;
+      }
+      configurePlayer() {}
+      destroy() {}
+      validateConfig() {}
+      getCapabilities() {
+        return { keySystems: [KeySystem.WIDEVINE], requiresHardwareSecurity: false };
+      }
+      async getHealthStatus() {
+        return healthy
+          ? { status: 'healthy' as const }
+          : { status: 'error' as const, error: 'Token endpoint unreachable (503)' };
+      }
+    };
+
+  const createVideo = () => {
+    const video = document.createElement('video');
+    video.play = vi.fn(async () => {});
+    return video;
+  };
+
+  beforeEach(() => {
+    (window as any).shaka.Player = FakePlayer;
+    providerRegistry.register('primary', createTestProvider('primary'));
+    providerRegistry.register('unhealthy', createTestProvider('unhealthy', false));
+    providerRegistry.register('backup', createTestProvider('backup'));
+  });
+
+  afterEach(() => {
+    (window as any).shaka.Player = originalPlayer;
+    failingManifests.clear();
+    ['primary', 'unhealthy', 'backup'].forEach(name => providerRegistry.unregister(name));
+  });
+
+  test('should skip an unhealthy provider during initialization', async () => {
+    const manager = new DRMManager(['unhealthy', 'backup'].map(name => ({ name })));
+    const failovers = vi.fn();
+    manager.on('provider-failover', failovers);
+
+    await manager.initialize();
+
+    expect(failovers).toHaveBeenCalledWith({
+      from: 'unhealthy',
+      to: 'backup',
+      error: 'Token endpoint unreachable (503)',
+    });
+    expect(manager.getStatus().provider).toBe('backup');
+    manager.destroy();
+  });
+
+  test('should fail over when license acquisition fails', async () => {
+    failingManifests.add('/primary.mpd');
+    const manager = new DRMManager(['primary', 'backup'].map(name => ({ name })));
+    const failovers = vi.fn();
+    manager.on('provider-failover', failovers);
+
+    await manager.initialize();
+    expect(manager.getStatus().provider).toBe('primary');
+
+    await manager.startProtection(createVideo());
+
+    expect(failovers).toHaveBeenCalledWith({
+      from: 'primary',
+      to: 'backup',
+      error: 'License request failed',
+    });
+    expect(manager.getStatus().provider).toBe('backup');
+    expect(manager.getSurfaceCount()).toBe(1);
+    manager.destroy();
+  });
+
+  test('should accept a provider chain and forward failovers to instances', () => {
+    const element = document.createElement('div');
+    const cloak = new Cloakscreen({ element, provider: [{ name: 'primary' }, 'clearkey'] });
+    const failovers = vi.fn();
+    cloak.on('provider-failover', failovers);
+
+    (cloak as any).drmManager.emit('provider-failover', { from: 'primary', to: 'clearkey' });
+
+    expect(failovers).toHaveBeenCalledWith({ from: 'primary', to: 'clearkey' });
+    cloak.destroy();
+  });
+
+  test('should keep surfaces in their live session when the license token is renewed', async () => {
+    const manager = new DRMManager({ name: 'primary' });
+    const renewed = vi.fn();
+    manager.on('license-renewed', renewed);
+
+    await manager.initialize();
+    const video = createVideo();
+    await manager.startProtection(video);
+    const player = (manager as any).players.get(video);
+
+    const event = { contentId: 'movie-1', drmType: 'widevine', expiresAt: null };
+    (manager as any).provider.emit('license-renewed', event);
+
+    // Reloading would empty the video and expose the content beneath it
+    expect(renewed).toHaveBeenCalledWith(event);
+    expect(player.load).toHaveBeenCalledTimes(1);
+    expect(player.destroy).not.toHaveBeenCalled();
+    expect((manager as any).players.get(video)).toBe(player);
+    manager.destroy();
+  });
+
+  test('should give up once the last provider fails', async () => {
+    failingManifests.add('/primary.mpd');
+    failingManifests.add('/backup.mpd');
+    const manager = new DRMManager(['primary', 'backup'].map(name => ({ name })));
+    const failovers = vi.fn();
+    manager.on('provider-failover', failovers);
+
+    await manager.initialize();
+    await expect(manager.startProtection(createVideo())).rejects.toThrow('License request failed');
+
+    expect(failovers).toHaveBeenCalledTimes(1);
+    expect(manager.getSurfaceCount()).toBe(0);
+    manager.destroy();
+  });
+});
+
+describe('License sharing', () => {
+  const originalPlayer = (window as any).shaka.Player;
+  const kid = '00112233445566778899aabbccddeeff';
+  const key = 'ffeeddccbbaa99887766554433221100';
+  const toBase64Url = (hex: string) =>
+    btoa(String.fromCharCode(...(hex.match(/../g) ?? []).map(byte => parseInt(byte, 16))))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  let licenseRequests = 0;
+
+  class FakePlayer {
+    static isBrowserSupported = () => true;
+    private responseFilters = new Set<Function>();
+    private clearKeys: Record<string, string> | null = null;
+    load = vi.fn(async () => {
+      // Wait a tick, so surfaces started together overlap
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (this.clearKeys) {
+        return;
+      }
+
+      licenseRequests++;
+      const license = { keys: [{ kty: 'oct', kid: toBase64Url(kid), k: toBase64Url(key) }] };
+      const data = new TextEncoder().encode(JSON.stringify(license)).buffer;
+      this.responseFilters.forEach(filter => filter('license', { data }));
+    });
+    configure = vi.fn((config: any) => {
+      this.clearKeys = config.drm?.clearKeys ?? this.clearKeys;
+    });
+    destroy = vi.fn();
+    addEventListener = vi.fn();
+    removeEventListener = vi.fn();
+    getNetworkingEngine = () => ({
+      registerRequestFilter: vi.fn(),
+      registerResponseFilter: (filter: Function) => this.responseFilters.add(filter),
+      unregisterResponseFilter: (filter: Function) => this.responseFilters.delete(filter),
+    });
+  }
+
+  const createVideo = () => {
+    const video = document.createElement('video');
+    video.play = vi.fn(async () => {});
+    return video;
+  };
+
+  class ClearKeyTestProvider extends DRMProvider {
+    static getMetadata() {
+      return {
+        name: 'shared-clearkey',
+        displayName: 'Shared ClearKey',
+        description: 'Test provider',
+        supportedKeySystems: [KeySystem.CLEARKEY],
+        requiredConfig: [],
+      };
+    }
+    async initialize() {}
+    async getLicenseToken() {
+      return '';
+    }
+    getLicenseServerUrl() {
+      return '/api/clearkey/license';
+    }
+    async getContentUrl() {
+      return '/clearkey.mpd';
+    }
+    configurePlayer() {}
+    destroy() {}
+    validateConfig() {}
+    getCapabilities() {
+      return { keySystems: [KeySystem.CLEARKEY], requiresHardwareSecurity: false };
+    }
+    async getHealthStatus() {
+      return { status: 'healthy' as const };
+    }
+  }
+
+  beforeEach(() => {
+    (window as any).shaka.Player = FakePlayer;
+    providerRegistry.register('shared-clearkey', ClearKeyTestProvider);
+    licenseRequests = 0;
+  });
+
+  afterEach(() => {
+    (window as any).shaka.Player = originalPlayer;
+    providerRegistry.unregister('shared-clearkey');
+  });
+
+  test('should acquire one ClearKey license for every surface playing the content', async () => {
+    const manager = new DRMManager({ name: 'shared-clearkey' });
+    await manager.initialize();
+    expect(manager.getStatus().type).toBe('clearkey');
+
+    const videos = [createVideo(), createVideo(), createVideo()];
+    await Promise.all(videos.map(video => manager.startProtection(video)));
+
+    expect(licenseRequests).toBe(1);
+    const follower = (manager as any).players.get(videos[2]);
+    expect(follower.configure).toHaveBeenCalledWith({ drm: { clearKeys: { [kid]: key } } });
+    expect(manager.getSurfaceCount()).toBe(3);
+
+    manager.stopProtection();
+    await manager.startProtection(createVideo());
+    expect(licenseRequests).toBe(2);
+    manager.destroy();
+  });
+});
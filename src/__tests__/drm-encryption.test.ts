@@ -0,0 +1,108 @@
+/**
+ * Node-side DRM encryption tests
+ */
+
+import crypto from 'crypto';
+import { createAxinomEntitlementMessage } from '../drm/providers/AxinomEncryption';
+import { EZDRMEncryption } from '../drm/providers/EZDRMEncryption';
+
+describe('Axinom entitlement messages', () => {
+  const communicationKey = crypto.randomBytes(32);
+  const keyId = '6e5a1d26-2757-47d7-8046-eaa5d1d34b5a';
+  const key = '00112233445566778899aabbccddeeff';
+
+  const decode = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString());
+
+  test('should sign the message with the communication key', () => {
+    const token = createAxinomEntitlementMessage({
+      communicationKeyId: 'b3c2d8a1-0000-4000-8000-000000000001',
+      communicationKey: communicationKey.toString('base64'),
+      keys: [{ keyId, key }],
+    });
+    const [header, body, signature] = token.split('.');
+
+    expect(decode(header)).toEqual({ alg: 'HS256', typ: 'JWT' });
+    expect(signature).toBe(
+      crypto.createHmac('sha256', communicationKey).update(`${header}.${body}`).digest('base64url')
+    );
+
+    const payload = decode(body);
+    expect(payload.com_key_id).toBe('b3c2d8a1-0000-4000-8000-000000000001');
+    expect(payload.message.type).toBe('entitlement_message');
+
+    // The content key only travels encrypted with the communication key
+    const [entry] = payload.message.content_keys_source.inline;
+    expect(entry.id).toBe(keyId);
+    const decipher = crypto.createDecipheriv(
+      'aes-256-cbc',
+      communicationKey,
+      Buffer.from(keyId.replace(/-/g, ''), 'hex')
+    );
+    decipher.setAutoPadding(false);
+    const decrypted = Buffer.concat([
+      decipher.update(Buffer.from(entry.encrypted_key, 'base64')),
+      decipher.final(),
+    ]);
+    expect(decrypted.toString('hex')).toBe(key);
+  });
+
+  test('should reject communication keys that are not 256 bits', () => {
+    expect(() =>
+      createAxinomEntitlementMessage({
+        communicationKeyId: 'b3c2d8a1-0000-4000-8000-000000000001',
+        communicationKey: crypto.randomBytes(16).toString('base64'),
+        keys: [{ keyId }],
+      })
+    ).toThrow('256 bits');
+  });
+});
+
+describe('EZDRM key requests', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('should read the content key from the mocked CPIX endpoint', async () => {
+    const contentKey = crypto.randomBytes(16);
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          `<cpix:CPIX><cpix:ContentKeyList><cpix:ContentKey kid="k"><cpix:Data><pskc:Secret>` +
+            `<pskc:PlainValue>${contentKey.toString('base64')}</pskc:PlainValue>` +
+            `</pskc:Secret></cpix:Data></cpix:ContentKey></cpix:ContentKeyList></cpix:CPIX>`
+        )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const encryption = new EZDRMEncryption({
+      username: 'user',
+      password: 'pass',
+      cpixUrl: 'https://cpix.test/keys',
+    });
+
+    await expect(encryption.requestContentKey('key-1', 'movie-1')).resolves.toBe(
+      contentKey.toString('hex')
+    );
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://cpix.test/keys?k=key-1&u=user&p=pass&c=movie-1',
+      expect.anything()
+    );
+  });
+
+  test('should fail without credentials or a content key', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('<cpix:CPIX/>'))
+    );
+
+    await expect(new EZDRMEncryption({}).requestContentKey('key-1', 'movie-1')).rejects.toThrow(
+      'username and password'
+    );
+    await expect(
+      new EZDRMEncryption({ username: 'user', password: 'pass' }).requestContentKey(
+        'key-1',
+        'movie-1'
+      )
+    ).rejects.toThrow('128-bit content key');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Typed event emitter tests
+ */
+
+import EventEmitter from '../utils/EventEmitter';
+
+type TestEvents = {
+  ready: void;
+  progress: { percent: number };
+};
+
+describe('EventEmitter', () => {
+  test('should call once() listeners a single time and remove them with off()', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+    const removed = vi.fn();
+
+    emitter.once('progress', listener);
+    emitter.once('progress', removed);
+    emitter.off('progress', removed);
+    emitter.emit('progress', { percent: 10 });
+    emitter.emit('progress', { percent: 20 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ percent: 10 });
+    expect(removed).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('progress')).toBe(0);
+  });
+
+  test('should resolve waitFor() with the next payload', async () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const progress = emitter.waitFor('progress');
+
+    emitter.emit('progress', { percent: 50 });
+
+    await expect(progress).resolves.toEqual({ percent: 50 });
+    expect(emitter.listenerCount('progress')).toBe(0);
+  });
+
+  test('should reject waitFor() when the timeout passes first', async () => {
+    vi.useFakeTimers();
+    const emitter = new EventEmitter<TestEvents>();
+    const ready = emitter.waitFor('ready', 1000);
+
+    vi.advanceTimersByTime(1000);
+
+    await expect(ready).rejects.toThrow('Timed out after 1000ms waiting for ready');
+    expect(emitter.listenerCount('ready')).toBe(0);
+    vi.useRealTimers();
+  });
+});
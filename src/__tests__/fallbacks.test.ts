@@ -0,0 +1,113 @@
+/**
+ * Fallback strategy tests
+ */
+
+import { fallbackRegistry, FallbackContext, FallbackStrategy } from '../fallbacks';
+
+describe('Fallback strategies', () => {
+  let element: HTMLElement;
+  let context: FallbackContext;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    element.innerHTML = '<p>Salary: <strong>120000</strong> EUR</p>';
+    context = {
+      element,
+      drmStatus: { supported: true, type: 'widevine', securityLevel: 'L3', hardwareBacked: false },
+      reason: 'insufficient-security',
+      emit: vi.fn(),
+    };
+  });
+
+  test.each(['blur', 'hide', 'placeholder', 'none', 'click-to-reveal', 'scramble'])(
+    '%s should restore the original DOM on revert',
+    async name => {
+      const original = element.innerHTML;
+      const paragraph = element.firstChild;
+      const strategy = fallbackRegistry.create(name);
+
+      await strategy.apply(context);
+      strategy.revert();
+
+      expect(element.innerHTML).toBe(original);
+      expect(element.firstChild).toBe(paragraph);
+      expect(element.getAttribute('style') || '').toBe('');
+    }
+  );
+
+  test.each([
+    ['placeholder', {}],
+    ['click-to-reveal', {}],
+    ['server-image', { imageUrl: '/render/doc-1.png' }],
+  ])('%s should leave the layer container in place', async (name, options) => {
+    const container = document.createElement('div');
+    container.className = 'cloakscreen-container';
+    container.appendChild(document.createElement('video'));
+    element.appendChild(container);
+    const original = element.innerHTML;
+    const strategy = fallbackRegistry.create(name, options);
+
+    await strategy.apply(context);
+
+    expect(container.parentNode).toBe(element);
+    expect(element.lastChild).toBe(container);
+    expect(element.textContent).not.toContain('120000');
+
+    strategy.revert();
+    expect(element.innerHTML).toBe(original);
+    expect(element.lastChild).toBe(container);
+  });
+
+  test('should render placeholder templates without leaving the content in the DOM', () => {
+    const strategy = fallbackRegistry.create('placeholder', {
+      template: '<em>Requires {{securityLevel}}+ ({{reason}})</em>',
+    });
+
+    strategy.apply(context);
+
+    expect(element.innerHTML).toBe('<em>Requires L3+ (insufficient-security)</em>');
+  });
+
+  test('should reveal on click and emit an audit event', () => {
+    const strategy = fallbackRegistry.create('click-to-reveal');
+    strategy.apply(context);
+
+    expect(element.textContent).not.toContain('120000');
+    element.querySelector('button')!.click();
+
+    expect(element.textContent).toContain('120000');
+    expect(context.emit).toHaveBeenCalledWith(
+      'fallback-revealed',
+      expect.objectContaining({ strategy: 'click-to-reveal', securityLevel: 'L3' })
+    );
+  });
+
+  test('should only show scrambled text until hovered', () => {
+    const strategy = fallbackRegistry.create('scramble');
+    strategy.apply(context);
+
+    expect(element.textContent).toHaveLength('Salary: 120000 EUR'.length);
+    expect(element.textContent).not.toBe('Salary: 120000 EUR');
+
+    element.dispatchEvent(new MouseEvent('mouseenter'));
+    expect(element.textContent).toBe('Salary: 120000 EUR');
+
+    element.dispatchEvent(new MouseEvent('mouseleave'));
+    expect(element.textContent).not.toBe('Salary: 120000 EUR');
+  });
+
+  test('should resolve strategies per security level', () => {
+    const custom: FallbackStrategy = { name: 'custom', apply: vi.fn(), revert: vi.fn() };
+    const mode = {
+      L3: { strategy: 'server-image', options: { imageUrl: '/render/doc-1.png' } },
+      unknown: custom,
+      default: 'hide',
+    };
+
+    expect(fallbackRegistry.resolve(mode, 'L3').name).toBe('server-image');
+    expect(fallbackRegistry.resolve(mode, 'unknown')).toBe(custom);
+    expect(fallbackRegistry.resolve(mode, 'L1').name).toBe('hide');
+    expect(fallbackRegistry.resolve({ L1: 'none' }, 'L2').name).toBe('blur');
+    expect(() => fallbackRegistry.create('server-image')).toThrow('imageUrl');
+  });
+});
@@ -2,7 +2,18 @@
  * Provider tests
  */
 
-import { createProvider, Providers, PallyConProvider, DRMProvider } from '../providers';
+import {
+  createProvider,
+  Providers,
+  PallyConProvider,
+  ClearKeyProvider,
+  AxinomProvider,
+  EZDRMProvider,
+  WidevineProvider,
+  FairPlayProvider,
+  DRMProvider,
+} from '../providers';
+import { validateConfig } from '../utils/validation';
 
 describe('Provider Factory', () => {
   test('should throw error when creating provider from string without config', () => {
@@ -121,3 +132,462 @@ describe('Provider Configuration', () => {
     expect(customImpl).toBeInstanceOf(CustomProvider);
   });
 });
+
+describe('ClearKey Provider', () => {
+  const keyId = '0123456789abcdef0123456789abcdef';
+  const key = 'fedcba9876543210fedcba9876543210';
+
+  test('should be registered and default to the local license endpoint', () => {
+    const provider = createProvider({ name: 'clearkey' });
+
+    expect(provider).toBeInstanceOf(ClearKeyProvider);
+    expect(Providers.getAvailable()).toContain('clearkey');
+    expect(provider.getLicenseServerUrl()).toBe('/api/clearkey/license');
+  });
+
+  test('should configure the player with inline keys', async () => {
+    const provider = createProvider({ name: 'clearkey', keys: { [keyId]: key } } as any);
+    const player = { configure: vi.fn() };
+
+    await provider.configurePlayer(player as any);
+
+    expect(player.configure).toHaveBeenCalledWith({ drm: { clearKeys: { [keyId]: key } } });
+  });
+
+  test('should reject malformed keys', () => {
+    expect(() => createProvider({ name: 'clearkey', keys: { [keyId]: 'short' } } as any)).toThrow(
+      'Keys must be 32 hex characters'
+    );
+  });
+});
+
+describe('Standard DRM Provider', () => {
+  test('should build vendor-neutral providers from the provider defaults', () => {
+    const provider = createProvider({ name: 'widevine' });
+
+    expect(provider).toBeInstanceOf(WidevineProvider);
+    expect(provider.getLicenseServerUrl()).toBe('https://widevine-proxy.appspot.com/proxy');
+  });
+
+  test('should fill URL patterns from siteId', () => {
+    expect(() => createProvider({ name: 'fairplay' })).toThrow('needs siteId');
+
+    const provider = createProvider({ name: 'fairplay', siteId: 'ACME' } as any);
+    expect(provider).toBeInstanceOf(FairPlayProvider);
+    expect(provider.getLicenseServerUrl()).toBe('https://fps.ezdrm.com/api/licenses/ACME');
+  });
+
+  test('should wrap license requests and unwrap responses through the player', async () => {
+    const requestFilters: any[] = [];
+    const responseFilters: any[] = [];
+    const player = {
+      configure: vi.fn(),
+      addEventListener: vi.fn(),
+      getNetworkingEngine: () => ({
+        registerRequestFilter: (filter: any) => requestFilters.push(filter),
+        registerResponseFilter: (filter: any) => responseFilters.push(filter),
+      }),
+    };
+
+    const provider = createProvider({
+      name: 'widevine',
+      licenseServer: '/license-proxy',
+      headers: { 'X-Api-Key': 'secret' },
+      wrapRequest: (challenge: Uint8Array) => ({ challenge: Array.from(challenge) }),
+      unwrapResponse: (data: ArrayBuffer) => JSON.parse(new TextDecoder().decode(data)).license,
+    } as any);
+    await provider.configurePlayer(player as any);
+
+    expect(player.configure).toHaveBeenCalledWith(
+      expect.objectContaining({
+        drm: expect.objectContaining({ servers: { 'com.widevine.alpha': '/license-proxy' } }),
+      })
+    );
+
+    const request = {
+      uris: ['/license-proxy'],
+      method: 'POST',
+      headers: {},
+      body: new Uint8Array([1, 2]).buffer,
+    };
+    await requestFilters[0]('license', request);
+
+    expect(request.headers).toEqual({ 'X-Api-Key': 'secret', 'Content-Type': 'application/json' });
+    expect(JSON.parse(new TextDecoder().decode(request.body))).toEqual({ challenge: [1, 2] });
+
+    const response = {
+      uri: '/license-proxy',
+      originalUri: '/license-proxy',
+      headers: {},
+      data: new TextEncoder().encode(JSON.stringify({ license: btoa('\x07\x08') })).buffer,
+    };
+    await responseFilters[0]('license', response);
+
+    expect(Array.from(new Uint8Array(response.data))).toEqual([7, 8]);
+  });
+});
+
+describe('Axinom Provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createPlayer = (requestFilters: any[]) => ({
+    configure: vi.fn(),
+    addEventListener: vi.fn(),
+    getNetworkingEngine: () => ({
+      registerRequestFilter: (filter: any) => requestFilters.push(filter),
+    }),
+  });
+
+  test('should require a token endpoint and default to the Axinom test servers', () => {
+    expect(() => createProvider({ name: 'axinom' })).toThrow('tokenEndpoint');
+
+    const provider = createProvider({ name: 'axinom', tokenEndpoint: '/api/axinom/token' } as any);
+    expect(provider).toBeInstanceOf(AxinomProvider);
+    expect(provider.getLicenseServerUrl()).toBe(
+      'https://drm-widevine-licensing.axtest.net/AcquireLicense'
+    );
+  });
+
+  test('should send the entitlement message with license requests', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ token: 'jwt-token' })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const requestFilters: any[] = [];
+    const player = createPlayer(requestFilters);
+    const provider = createProvider({
+      name: 'axinom',
+      tokenEndpoint: '/api/axinom/token',
+      contentId: 'movie-1',
+    } as any);
+    await provider.configurePlayer(player as any);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/axinom/token',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ contentId: 'movie-1', drmType: 'widevine' }),
+      })
+    );
+    expect(player.configure).toHaveBeenCalledWith(
+      expect.objectContaining({
+        drm: expect.objectContaining({
+          servers: {
+            'com.widevine.alpha': 'https://drm-widevine-licensing.axtest.net/AcquireLicense',
+          },
+        }),
+      })
+    );
+
+    const request = { uris: [], method: 'POST', headers: {} as Record<string, string> };
+    requestFilters[0]('license', request);
+    expect(request.headers['X-AxDRM-Message']).toBe('jwt-token');
+  });
+
+  test('should report license server and token endpoint health', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => new Response(null, { status: url.startsWith('/') ? 200 : 405 }))
+    );
+    const provider = createProvider({ name: 'axinom', tokenEndpoint: '/api/axinom/token' } as any);
+
+    expect(await provider.getHealthStatus()).toEqual({ status: 'healthy' });
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(null, { status: 503 }))
+    );
+    expect(await provider.getHealthStatus()).toEqual({
+      status: 'error',
+      error: 'License server unreachable (503)',
+    });
+  });
+});
+
+describe('EZDRM Provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('should fill the account and authorization parameters into license URLs', () => {
+    expect(() => createProvider({ name: 'ezdrm' })).toThrow('accountId');
+
+    const provider = createProvider({
+      name: 'ezdrm',
+      accountId: 'A1B2C3',
+      authParams: { session: 'abc 123' },
+    } as any);
+
+    expect(provider).toBeInstanceOf(EZDRMProvider);
+    expect(provider.getLicenseServerUrl()).toBe(
+      'https://widevine-dash.ezdrm.com/widevine-php/widevine-foreignkey.php?pX=A1B2C3&session=abc+123'
+    );
+  });
+
+  test('should check the license endpoint with a mocked server', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 405 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = createProvider({ name: 'ezdrm', accountId: 'A1B2C3' } as any);
+
+    expect(await provider.getHealthStatus()).toEqual({ status: 'healthy' });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://widevine-dash.ezdrm.com/widevine-php/widevine-foreignkey.php?pX=A1B2C3',
+      expect.objectContaining({ method: 'HEAD' })
+    );
+
+    fetchMock.mockRejectedValueOnce(new Error('offline'));
+    expect(await provider.getHealthStatus()).toMatchObject({ status: 'error' });
+  });
+});
+
+describe('License Token Cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const createPallyCon = () =>
+    createProvider({
+      name: 'pallycon',
+      siteId: 'TEST123',
+      tokenEndpoint: '/api/token',
+      licenseServer: 'https://license-global.pallycon.com/ri/licenseManager.do',
+    });
+
+  test('should reuse tokens until they near expiry', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            token: `token-${fetchMock.mock.calls.length}`,
+            expires: new Date(Date.now() + 3600 * 1000).toISOString(),
+          })
+        )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createPallyCon();
+    expect(await provider.getLicenseToken('movie-1')).toBe('token-1');
+    expect(await provider.getLicenseToken('movie-1')).toBe('token-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Other content gets its own token
+    expect(await provider.getLicenseToken('movie-2')).toBe('token-2');
+    provider.destroy();
+  });
+
+  test('should renew tokens before they expire', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            token: `token-${fetchMock.mock.calls.length}`,
+            expires: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+          })
+        )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createPallyCon();
+    const expiring = vi.fn();
+    const renewed = vi.fn();
+    provider.on('license-expiring', expiring);
+    provider.on('license-renewed', renewed);
+
+    await provider.getLicenseToken('movie-1');
+    await vi.advanceTimersByTimeAsync(4 * 60 * 1000);
+
+    expect(expiring).toHaveBeenCalledWith(
+      expect.objectContaining({ contentId: 'movie-1', drmType: 'Widevine' })
+    );
+    expect(renewed).toHaveBeenCalledTimes(1);
+    expect((provider as any).currentToken).toBe('token-2');
+    expect(await provider.getLicenseToken('movie-1')).toBe('token-2');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // Destroying the provider stops renewal
+    provider.destroy();
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("should send renewed tokens with the live session's next license request", async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            token: `token-${fetchMock.mock.calls.length}`,
+            expires: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+          })
+        )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const requestFilters: Array<(type: string, request: any) => void> = [];
+    const player = {
+      configure: vi.fn(),
+      addEventListener: vi.fn(),
+      getNetworkingEngine: () => ({
+        registerRequestFilter: (filter: (type: string, request: any) => void) =>
+          requestFilters.push(filter),
+        registerResponseFilter: vi.fn(),
+      }),
+    };
+    const licenseRequest = () => {
+      const request = { headers: {} as Record<string, string> };
+      requestFilters.forEach(filter => filter('license', request));
+      return request;
+    };
+
+    const provider = createPallyCon();
+    await provider.configurePlayer(player as any);
+    expect(licenseRequest().headers['pallycon-customdata-v2']).toBe('token-1');
+
+    await vi.advanceTimersByTimeAsync(4 * 60 * 1000);
+
+    // e.g. the license renewal the CDM requests within the same session
+    expect(licenseRequest().headers['pallycon-customdata-v2']).toBe('token-2');
+    provider.destroy();
+  });
+
+  test('should read the expiry of JWT tokens', async () => {
+    vi.useFakeTimers();
+    const payload = btoa(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + 120 }));
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify({ token: `header.${payload}.signature` })))
+    );
+
+    const provider = createProvider({ name: 'axinom', tokenEndpoint: '/api/axinom/token' } as any);
+    const expiring = vi.fn();
+    provider.on('license-expiring', expiring);
+
+    await provider.getLicenseToken('movie-1');
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(expiring).toHaveBeenCalledWith(
+      expect.objectContaining({ expiresAt: expect.any(Number) })
+    );
+    provider.destroy();
+  });
+
+  test('should fall back to the JWT expiry when expires is malformed', async () => {
+    vi.useFakeTimers();
+    const payload = btoa(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + 120 }));
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({ token: `header.${payload}.signature`, expires: 'next tuesday' })
+          )
+      )
+    );
+
+    const provider = createPallyCon();
+    const expiring = vi.fn();
+    provider.on('license-expiring', expiring);
+
+    await provider.getLicenseToken('movie-1');
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(expiring).toHaveBeenCalledWith(
+      expect.objectContaining({ expiresAt: (Math.floor(Date.now() / 1000) + 60) * 1000 })
+    );
+    provider.destroy();
+  });
+});
+
+describe('User Context', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('should send the signed-in user with token requests', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ token: 'token' })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createProvider({
+      name: 'pallycon',
+      siteId: 'TEST123',
+      tokenEndpoint: '/api/token',
+      getUserContext: async () => ({ userId: 'user-42', authorization: 'Bearer jwt' }),
+    } as any);
+    await provider.getLicenseToken('movie-1');
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer jwt' });
+    expect(JSON.parse(init.body as string)).toEqual({
+      contentId: 'movie-1',
+      drmType: 'Widevine',
+      userId: 'user-42',
+    });
+    provider.destroy();
+  });
+
+  const createPlayer = () => {
+    const requestFilters: Array<(type: string, request: any) => Promise<void> | void> = [];
+    const player = {
+      configure: vi.fn(),
+      addEventListener: vi.fn(),
+      getNetworkingEngine: () => ({
+        registerRequestFilter: (filter: (typeof requestFilters)[number]) =>
+          requestFilters.push(filter),
+        registerResponseFilter: vi.fn(),
+      }),
+    };
+    const licenseRequest = async () => {
+      const request = { uris: ['/license'], method: 'POST', headers: {}, body: new ArrayBuffer(0) };
+      for (const filter of requestFilters) {
+        await filter('license', request);
+      }
+      return request;
+    };
+    return { player, licenseRequest };
+  };
+
+  const getUserContext = async () => ({ userId: 'user-42', authorization: 'Bearer jwt' });
+
+  test('should send the signed-in user with license requests to a license proxy', async () => {
+    const { player, licenseRequest } = createPlayer();
+    const provider = createProvider({
+      name: 'widevine',
+      licenseServer: '/license-proxy',
+      headers: { 'X-Api-Key': 'secret' },
+      getUserContext,
+    } as any);
+    await provider.configurePlayer(player as any);
+
+    expect((await licenseRequest()).headers).toEqual({
+      'X-Api-Key': 'secret',
+      Authorization: 'Bearer jwt',
+    });
+  });
+
+  test('should send the signed-in user with ClearKey license requests', async () => {
+    const { player, licenseRequest } = createPlayer();
+    const provider = createProvider({ name: 'clearkey', getUserContext } as any);
+    await provider.configurePlayer(player as any);
+
+    expect((await licenseRequest()).headers).toEqual({ Authorization: 'Bearer jwt' });
+  });
+
+  test('should reject a user context for EZDRM-hosted license servers', () => {
+    expect(() =>
+      createProvider({ name: 'ezdrm', accountId: 'A1B2C3', getUserContext } as any)
+    ).toThrow('getUserContext: not supported');
+  });
+
+  test('should keep the user context of a provider through config validation', () => {
+    const config = validateConfig({
+      element: document.createElement('div'),
+      provider: { name: 'widevine', getUserContext },
+    });
+
+    expect(config.provider).toMatchObject({ name: 'widevine', getUserContext });
+  });
+});
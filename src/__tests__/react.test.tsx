@@ -0,0 +1,198 @@
+/**
+ * React bindings tests
+ */
+
+import { StrictMode, useRef } from 'react';
+import { render, screen, waitFor, act } from '@testing-library/react';
+
+const { instances, real } = vi.hoisted(() => ({
+  instances: [] as any[],
+  real: { enabled: false },
+}));
+
+vi.mock('../core/Cloakscreen', async importOriginal => {
+  const actual = await importOriginal<typeof import('../core/Cloakscreen')>();
+  const { default: EventEmitter } = await import('../utils/EventEmitter');
+
+  class MockCloakscreen extends EventEmitter {
+    config: any;
+    content = '';
+    destroy = vi.fn();
+    updateContent = vi.fn((content: string) => {
+      this.content = content;
+    });
+
+    constructor(config: any) {
+      super();
+      this.config = config;
+
+      // Real instances, with real layers and content adapters on the element
+      if (real.enabled) {
+        const cloak = new actual.Cloakscreen(config);
+        vi.spyOn(cloak, 'destroy');
+        instances.push(cloak);
+        return cloak as any;
+      }
+
+      instances.push(this);
+    }
+
+    async protect() {
+      if (this.config.provider === 'unsupported') {
+        this.emit('fallback-activated', { mode: 'blur' });
+        throw new Error('DRM not supported');
+      }
+      this.emit('protected', { drmStatus: { supported: true, type: 'widevine' } });
+    }
+
+    getContent() {
+      return this.content;
+    }
+  }
+
+  return { Cloakscreen: MockCloakscreen };
+});
+
+vi.mock('../utils/cdn', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/cdn')>()),
+  checkDependencies: () => ({ available: true, missing: [] }),
+}));
+
+vi.mock('../utils/browser', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/browser')>()),
+  detectBrowserCapabilities: () => ({ supportsEME: true }),
+}));
+
+vi.mock('../utils/hardware-acceleration', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/hardware-acceleration')>()),
+  detectHardwareAcceleration: async () => ({ available: false, confidence: 0 }),
+}));
+
+import { Cloakscreen, useCloakscreen } from '../react';
+import { DRMManager } from '../core/DRMManager';
+
+describe('React bindings', () => {
+  beforeEach(() => {
+    instances.length = 0;
+  });
+
+  test('should protect children and expose the DRM status', async () => {
+    const onProtected = vi.fn();
+    render(
+      <Cloakscreen provider="pallycon" onProtected={onProtected}>
+        <p>Secret</p>
+      </Cloakscreen>
+    );
+
+    await waitFor(() =>
+      expect(onProtected).toHaveBeenCalledWith({ supported: true, type: 'widevine' })
+    );
+    expect(instances).toHaveLength(1);
+    expect(instances[0].config.element).toBe(screen.getByText('Secret').parentElement);
+  });
+
+  test('should not leak instances under StrictMode', async () => {
+    const { unmount } = render(
+      <StrictMode>
+        <Cloakscreen provider="pallycon">
+          <p>Secret</p>
+        </Cloakscreen>
+      </StrictMode>
+    );
+
+    await waitFor(() =>
+      expect(instances.filter((cloak: any) => !cloak.destroy.mock.calls.length)).toHaveLength(1)
+    );
+
+    unmount();
+    await waitFor(() =>
+      instances.forEach((cloak: any) => expect(cloak.destroy).toHaveBeenCalledTimes(1))
+    );
+  });
+
+  test('should protect real layers once under StrictMode', async () => {
+    real.enabled = true;
+    vi.spyOn(DRMManager.prototype, 'initialize').mockResolvedValue();
+    vi.spyOn(DRMManager.prototype, 'startProtection').mockResolvedValue();
+    vi.spyOn(DRMManager.prototype, 'getStatus').mockReturnValue({
+      supported: true,
+      type: 'widevine',
+      securityLevel: 'L1',
+      hardwareBacked: true,
+    });
+    const onError = vi.fn();
+
+    try {
+      const { unmount } = render(
+        <StrictMode>
+          <Cloakscreen provider="pallycon" onError={onError}>
+            <p>Secret</p>
+          </Cloakscreen>
+        </StrictMode>
+      );
+      const wrapper = screen.getByText('Secret').parentElement!;
+
+      await waitFor(() => expect(wrapper.dataset.cloakscreenStatus).toBe('protected'));
+      expect(instances).toHaveLength(2);
+      expect(instances[0].getState()).toBe('destroyed');
+      expect(wrapper.querySelectorAll('.cloakscreen-container')).toHaveLength(1);
+      expect(onError).not.toHaveBeenCalled();
+
+      unmount();
+      expect(instances[1].getState()).toBe('destroyed');
+    } finally {
+      real.enabled = false;
+      vi.restoreAllMocks();
+    }
+  });
+
+  test('should update content from props without re-protecting', async () => {
+    const { rerender } = render(<Cloakscreen provider="pallycon" content="<p>v1</p>" />);
+    await waitFor(() => expect(instances[0].updateContent).toHaveBeenCalledWith('<p>v1</p>'));
+
+    rerender(<Cloakscreen provider="pallycon" content="<p>v2</p>" />);
+    await waitFor(() => expect(instances[0].updateContent).toHaveBeenCalledWith('<p>v2</p>'));
+    expect(instances).toHaveLength(1);
+  });
+
+  test('should re-protect only when a function option is replaced', async () => {
+    const provider = (userId: string) => ({
+      name: 'pallycon',
+      getUserContext: async () => ({ userId }),
+    });
+    const first = provider('alice');
+
+    const { rerender } = render(<Cloakscreen provider={first} />);
+    await waitFor(() => expect(instances).toHaveLength(1));
+
+    rerender(<Cloakscreen provider={{ ...first }} />);
+    await waitFor(() => expect(instances[0].destroy).not.toHaveBeenCalled());
+
+    // Same source, but closing over another user
+    rerender(<Cloakscreen provider={provider('bob')} />);
+    await waitFor(() => expect(instances).toHaveLength(2));
+    expect(instances[0].destroy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should expose fallback state from the hook', async () => {
+    const states: string[] = [];
+
+    function Protected() {
+      const ref = useRef<HTMLDivElement>(null);
+      const { status, fallbackMode, error } = useCloakscreen(ref, { provider: 'unsupported' });
+      states.push(status);
+      return (
+        <div ref={ref}>
+          {status}:{fallbackMode}:{error?.message}
+        </div>
+      );
+    }
+
+    await act(async () => {
+      render(<Protected />);
+    });
+
+    expect(screen.getByText('fallback:blur:DRM not supported')).toBeTruthy();
+    expect(states[0]).toBe('idle');
+  });
+});
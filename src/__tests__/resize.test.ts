@@ -0,0 +1,94 @@
+/**
+ * Layer resizing tests
+ */
+
+import { LayerManager } from '../core/LayerManager';
+import { ResizeManager } from '../core/ResizeManager';
+import { ResponsiveAsset } from '../types';
+
+describe('ResizeManager', () => {
+  let target: HTMLElement;
+  let observed: Element[];
+
+  const setSize = (width: number, height: number) => {
+    Object.defineProperty(target, 'clientWidth', { value: width, configurable: true });
+    Object.defineProperty(target, 'clientHeight', { value: height, configurable: true });
+  };
+
+  const assets: ResponsiveAsset[] = [
+    { manifestUrl: '/square/stream.mpd', width: 400, height: 400 },
+    { manifestUrl: '/wide/stream.mpd', width: 400, height: 200 },
+    { manifestUrl: '/tall/stream.mpd', width: 200, height: 400 },
+  ];
+
+  beforeEach(() => {
+    observed = [];
+    vi.stubGlobal(
+      'ResizeObserver',
+      class {
+        observe(element: Element) {
+          observed.push(element);
+        }
+        disconnect() {}
+      }
+    );
+
+    target = document.createElement('div');
+    target.innerHTML = '<p>Test content</p>';
+    document.body.appendChild(target);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  const createManager = async (responsiveAssets?: ResponsiveAsset[]) => {
+    const layerManager = new LayerManager(target, { element: target, provider: 'pallycon' });
+    await layerManager.createLayers();
+    return { layerManager, resizeManager: new ResizeManager(layerManager, { responsiveAssets }) };
+  };
+
+  test('should size the container and video to the target', async () => {
+    setSize(300, 150);
+    const { layerManager, resizeManager } = await createManager();
+    const resized = vi.fn();
+    resizeManager.on('layers-resized', resized);
+
+    resizeManager.start();
+
+    const container = target.querySelector<HTMLElement>('.cloakscreen-container')!;
+    const video = layerManager.getMiddleLayer()!.querySelector('video')!;
+    expect(observed).toContain(target);
+    expect(container.style.width).toBe('300px');
+    expect(container.style.height).toBe('150px');
+    expect(video.style.height).toBe('150px');
+    expect(resized).toHaveBeenCalledWith({ width: 300, height: 150 });
+  });
+
+  test('should pick the asset closest to the aspect ratio', async () => {
+    setSize(600, 300);
+    const { resizeManager } = await createManager(assets);
+
+    resizeManager.start();
+
+    expect(resizeManager.getCurrentAsset()).toBe(assets[1]);
+  });
+
+  test('should only switch assets on a large aspect ratio change', async () => {
+    setSize(400, 400);
+    const { resizeManager } = await createManager(assets);
+    const assetChange = vi.fn();
+    resizeManager.on('asset-change', assetChange);
+    resizeManager.start();
+
+    setSize(440, 400);
+    resizeManager.update();
+    expect(assetChange).toHaveBeenCalledTimes(1);
+
+    setSize(300, 600);
+    resizeManager.update();
+    expect(assetChange).toHaveBeenCalledTimes(2);
+    expect(assetChange).toHaveBeenLastCalledWith({ asset: assets[2] });
+  });
+});
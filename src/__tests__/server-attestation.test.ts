@@ -0,0 +1,121 @@
+/**
+ * DRM attestation tests (client reports verified by the server ledger)
+ */
+
+import { AttestationLedger, requireAttestation } from '../../server/attestation';
+import { AttestationReporter } from '../core/AttestationReporter';
+import { SignedAttestationReport } from '../types';
+
+const token = 'license-token-1';
+
+const status = {
+  supported: true,
+  type: 'widevine' as const,
+  securityLevel: 'L1' as const,
+  hardwareBacked: true,
+  provider: 'pallycon',
+};
+
+/**
+ * Run the reporter against a mocked endpoint and return what it posted
+ */
+async function createSignedReport(
+  overrides: Partial<typeof status> = {}
+): Promise<SignedAttestationReport> {
+  const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+  vi.stubGlobal('fetch', fetchMock);
+
+  await new AttestationReporter({ endpoint: '/api/attestation' }).report({
+    status: { ...status, ...overrides },
+    tokens: [{ token, contentId: 'finance-q3', drmType: 'Widevine', expiresAt: null }],
+    licenseAcquiredAt: new Date(),
+  });
+
+  return JSON.parse(fetchMock.mock.calls[0][1].body);
+}
+
+describe('AttestationLedger', () => {
+  let ledger: AttestationLedger;
+
+  beforeEach(() => {
+    ledger = new AttestationLedger({ maxReportAgeSeconds: 300 });
+    ledger.recordIssuance({
+      userId: 'user-1',
+      contentId: 'finance-q3',
+      drmType: 'Widevine',
+      token,
+      issuedAt: Date.now(),
+      expiresAt: Date.now() + 3600_000,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test('should release content once a signed report matches an issued license', async () => {
+    expect(ledger.canRelease('user-1', 'finance-q3').released).toBe(false);
+
+    const record = ledger.submit('user-1', await createSignedReport());
+
+    expect(record.report.status).toMatchObject({ securityLevel: 'L1', hardwareBacked: true });
+    expect(ledger.canRelease('user-1', 'finance-q3', { securityLevel: 'L1' })).toMatchObject({
+      released: true,
+    });
+  });
+
+  test('should reject reports of other users, forged signatures and tampered payloads', async () => {
+    const signed = await createSignedReport();
+    const tampered = signed.payload.replace('"securityLevel":"L1"', '"securityLevel":"L2"');
+
+    expect(() => ledger.submit('user-2', signed)).toThrow('does not match');
+    expect(() => ledger.submit('user-1', { ...signed, signature: 'forged' })).toThrow(
+      'does not match'
+    );
+    expect(() => ledger.submit('user-1', { ...signed, payload: tampered })).toThrow(
+      'does not match'
+    );
+    expect(() => ledger.submit('user-1', { payload: '{}', signature: signed.signature })).toThrow(
+      'Malformed'
+    );
+  });
+
+  test('should withhold content when the report is outdated or too weak', async () => {
+    ledger.submit(
+      'user-1',
+      await createSignedReport({ securityLevel: 'L3', hardwareBacked: false })
+    );
+
+    expect(ledger.canRelease('user-1', 'finance-q3', { hardwareBacked: true })).toMatchObject({
+      released: false,
+      reason: 'DRM is not hardware-backed',
+    });
+    expect(ledger.canRelease('user-1', 'finance-q3', { securityLevel: 'L1' }).reason).toContain(
+      'below the required L1'
+    );
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 301_000);
+    expect(ledger.canRelease('user-1', 'finance-q3').reason).toBe('Attestation report is outdated');
+  });
+
+  test('should answer 403 from the middleware until content is attested', async () => {
+    const res: any = {
+      locals: { user: { userId: 'user-1' } },
+      status: vi.fn(() => res),
+      json: vi.fn(),
+    };
+    const next = vi.fn();
+    const middleware = requireAttestation(ledger, () => 'finance-q3');
+
+    middleware({} as any, res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+
+    ledger.submit('user-1', await createSignedReport());
+    middleware({} as any, res, next);
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.attestation.userId).toBe('user-1');
+  });
+});
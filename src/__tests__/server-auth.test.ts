@@ -0,0 +1,121 @@
+/**
+ * Server authentication tests
+ */
+
+import crypto from 'crypto';
+import { createJwtAuthenticator, createSessionAuthenticator, requireUser } from '../../server/auth';
+
+const request = (headers: Record<string, string>) => ({ headers }) as any;
+
+const signHs256 = (payload: Record<string, unknown>, secret: string, alg = 'HS256') => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const input = `${encode({ alg, typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${crypto.createHmac('sha256', secret).update(input).digest('base64url')}`;
+};
+
+describe('JWT authenticator', () => {
+  const secret = 'test-secret';
+  const authenticate = createJwtAuthenticator({ key: secret, audience: 'cloakscreen' });
+  const now = Math.floor(Date.now() / 1000);
+
+  test('should resolve the user from a valid bearer token', async () => {
+    const token = signHs256({ sub: 'user-42', aud: 'cloakscreen', exp: now + 60 }, secret);
+
+    expect(await authenticate(request({ authorization: `Bearer ${token}` }))).toMatchObject({
+      userId: 'user-42',
+    });
+    expect(await authenticate(request({}))).toBeNull();
+  });
+
+  test('should reject forged, expired and misaddressed tokens', () => {
+    const forged = signHs256({ sub: 'user-42', aud: 'cloakscreen' }, 'other-secret');
+    const expired = signHs256({ sub: 'user-42', aud: 'cloakscreen', exp: now - 120 }, secret);
+    const otherAudience = signHs256({ sub: 'user-42', aud: 'other' }, secret);
+    const unsigned = signHs256({ sub: 'user-42', aud: 'cloakscreen' }, secret, 'none');
+
+    expect(() => authenticate(request({ authorization: `Bearer ${forged}` }))).toThrow('signature');
+    expect(() => authenticate(request({ authorization: `Bearer ${expired}` }))).toThrow('expired');
+    expect(() => authenticate(request({ authorization: `Bearer ${otherAudience}` }))).toThrow(
+      'audience'
+    );
+    expect(() => authenticate(request({ authorization: `Bearer ${unsigned}` }))).toThrow(
+      'not accepted'
+    );
+  });
+
+  test('should verify ES256 tokens with a public key', async () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const input = `${encode({ alg: 'ES256' })}.${encode({ sub: 'user-7' })}`;
+    const signature = crypto
+      .sign('sha256', Buffer.from(input), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+      .toString('base64url');
+
+    const authenticateEc = createJwtAuthenticator({
+      key: publicKey.export({ type: 'spki', format: 'pem' }) as string,
+    });
+
+    expect(
+      await authenticateEc(request({ authorization: `Bearer ${input}.${signature}` }))
+    ).toMatchObject({ userId: 'user-7' });
+  });
+});
+
+describe('Session authenticator', () => {
+  test('should resolve signed session cookies through the session store', async () => {
+    const signature = crypto
+      .createHmac('sha256', 'cookie-secret')
+      .update('session-1')
+      .digest('base64')
+      .replace(/=+$/, '');
+    const authenticate = createSessionAuthenticator({
+      cookieName: 'sid',
+      secret: 'cookie-secret',
+      getSession: async sessionId => (sessionId === 'session-1' ? { userId: 'user-9' } : null),
+    });
+
+    const cookie = `theme=dark; sid=${encodeURIComponent(`s:session-1.${signature}`)}`;
+    expect(await authenticate(request({ cookie }))).toEqual({ userId: 'user-9' });
+    await expect(authenticate(request({ cookie: 'sid=s%3Asession-1.forged' }))).rejects.toThrow(
+      'signature'
+    );
+  });
+});
+
+describe('requireUser middleware', () => {
+  test('should reject unauthenticated requests and expose the user otherwise', async () => {
+    const res: any = { locals: {}, status: vi.fn(() => res), json: vi.fn() };
+    const next = vi.fn();
+
+    await requireUser(() => () => null)(request({}), res, next);
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+
+    await requireUser(() => () => ({ userId: 'user-1' }))(request({}), res, next);
+    expect(res.locals.user).toEqual({ userId: 'user-1' });
+    expect(next).toHaveBeenCalled();
+  });
+});
+
+describe('Server auth mode', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('AUTH_MODE', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test('should refuse to start in production without an auth mode', async () => {
+    await expect(import('../../server/api')).rejects.toThrow('AUTH_MODE must be set');
+  });
+
+  test('should start in production once AUTH_MODE=none is opted in to', async () => {
+    vi.stubEnv('AUTH_MODE', 'none');
+
+    const { default: app } = await import('../../server/api');
+    expect(app).toBeTypeOf('function');
+  });
+});
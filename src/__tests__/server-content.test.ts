@@ -0,0 +1,128 @@
+/**
+ * Protected content delivery tests
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ContentTokenIssuer, FileContentStore } from '../../server/content';
+import { AttestationReporter } from '../core/AttestationReporter';
+
+describe('ContentTokenIssuer', () => {
+  const issuer = new ContentTokenIssuer('content-secret', 60);
+  const issue = () =>
+    issuer.issue({ userId: 'user-1', contentId: 'finance-q3', licenseToken: 'license-token' });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should bind tokens to the user, content and license token', () => {
+    expect(issuer.verify(issue())).toMatchObject({
+      sub: 'user-1',
+      cid: 'finance-q3',
+      lic: expect.any(String),
+    });
+  });
+
+  test('should reject forged and expired tokens', () => {
+    const [payload, signature] = issue().split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sub: 'user-2', cid: 'finance-q3', lic: '', exp: 9999999999 })
+    ).toString('base64url');
+
+    expect(() => issuer.verify(`${forged}.${signature}`)).toThrow('signature');
+    expect(() => new ContentTokenIssuer('other').verify(`${payload}.${signature}`)).toThrow(
+      'signature'
+    );
+
+    vi.useFakeTimers();
+    const token = issue();
+    vi.setSystemTime(Date.now() + 61_000);
+    expect(() => issuer.verify(token)).toThrow('expired');
+  });
+});
+
+describe('FileContentStore', () => {
+  test('should read content by ID and refuse paths outside the directory', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cloakscreen-content-'));
+
+    try {
+      await fs.writeFile(path.join(dir, 'finance-q3.html'), '<p>Q3 results</p>');
+      const store = new FileContentStore(dir);
+
+      expect(await store.get('finance-q3')).toBe('<p>Q3 results</p>');
+      expect(await store.get('missing')).toBeNull();
+      expect(await store.get('../finance-q3')).toBeNull();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Content endpoint', () => {
+  let directory: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cloakscreen-content-'));
+    await fs.writeFile(path.join(directory, 'finance-q3.html'), '<p>Q3 results</p>');
+    vi.stubEnv('CONTENT_DIR', directory);
+    vi.stubEnv('DRM_SITE_KEY', '0123456789abcdef0123456789abcdef');
+
+    const { default: app } = await import('../../server/api');
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const getLicenseToken = async (drmType = 'Widevine') => {
+    const response = await fetch(`${baseUrl}/api/get-license-token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contentId: 'finance-q3', drmType }),
+    });
+    return response.json();
+  };
+
+  const getContent = (contentToken: string) =>
+    fetch(`${baseUrl}/api/content/finance-q3`, {
+      headers: { Authorization: `Bearer ${contentToken}` },
+    });
+
+  const attest = (token: string, drmType = 'Widevine') =>
+    new AttestationReporter({ endpoint: `${baseUrl}/api/attestation` }).report({
+      status: { supported: true, type: 'widevine', securityLevel: 'L1', hardwareBacked: true },
+      tokens: [{ token, contentId: 'finance-q3', drmType, expiresAt: null }],
+      licenseAcquiredAt: new Date(),
+    });
+
+  test('should only redeem a content token once its license was reported acquired', async () => {
+    const first = await getLicenseToken();
+
+    const withoutReport = await getContent(first.contentToken);
+    expect(withoutReport.status).toBe(403);
+    expect(await withoutReport.json()).toMatchObject({ error: 'DRM attestation required' });
+
+    await attest(first.token);
+    const released = await getContent(first.contentToken);
+    expect(released.status).toBe(200);
+    expect(await released.text()).toBe('<p>Q3 results</p>');
+
+    // A report for another license does not release this token's content
+    const widevine = await getLicenseToken();
+    const playReady = await getLicenseToken('PlayReady');
+    await attest(playReady.token, 'PlayReady');
+    expect((await getContent(widevine.contentToken)).status).toBe(403);
+    expect((await getContent(playReady.contentToken)).status).toBe(200);
+  });
+});
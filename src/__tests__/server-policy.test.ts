@@ -0,0 +1,157 @@
+/**
+ * Server DRM policy engine tests
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PolicyEngine, PolicyRequest } from '../../server/policy';
+
+const basePolicy = {
+  policy_version: 2,
+  playback_policy: {
+    persistent: false,
+    license_duration_seconds: 3600,
+    playback_duration_seconds: 7200,
+  },
+};
+
+const rules = {
+  default: { persistent: true },
+  rules: [
+    {
+      name: 'finance',
+      match: {
+        roles: ['finance', 'admin'],
+        contentIds: ['finance-*'],
+        timeWindow: {
+          days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+          start: '08:00',
+          end: '18:00',
+          timezone: 'Europe/Berlin',
+        },
+      },
+      policy: {
+        licenseDurationSeconds: 900,
+        persistent: false,
+        securityLevel: 'hardware',
+        hdcp: 'v2.2',
+        disableAnalogOutput: true,
+      },
+    },
+    {
+      name: 'marketing',
+      match: { contentIds: ['marketing-*'] },
+      policy: { licenseDurationSeconds: 86400 },
+    },
+  ],
+};
+
+// Wednesday 10:00 in Berlin (summer time)
+const officeHours = new Date('2025-07-16T08:00:00Z');
+
+const request = (overrides: Partial<PolicyRequest>): PolicyRequest => ({
+  userId: 'user-1',
+  roles: [],
+  contentId: 'blank',
+  drmType: 'Widevine',
+  at: officeHours,
+  ...overrides,
+});
+
+describe('PolicyEngine', () => {
+  const engine = new PolicyEngine(basePolicy, rules);
+
+  test('should apply the strict rule to finance staff during office hours', () => {
+    const decision = engine.resolve(request({ roles: ['finance'], contentId: 'finance-q3' }));
+
+    expect(decision.rule).toBe('finance');
+    expect(decision.policy.playback_policy).toEqual({
+      persistent: false,
+      license_duration_seconds: 900,
+      playback_duration_seconds: 7200,
+    });
+    expect(decision.policy.security_policy).toEqual([
+      {
+        track_type: 'ALL',
+        widevine: {
+          security_level: 5,
+          required_hdcp_version: 'HDCP_V2_2',
+          disable_analog_output: true,
+        },
+        playready: {
+          security_level: 3000,
+          digital_video_protection_level: 300,
+          require_hdcp_type_1: true,
+          analog_video_protection_level: 200,
+        },
+        fairplay: { hdcp_enforcement: 1, allow_av_adapter: false },
+      },
+    ]);
+  });
+
+  test('should fall through when role, content or time do not match', () => {
+    const evening = new Date('2025-07-16T18:30:00Z');
+
+    expect(engine.resolve(request({ contentId: 'finance-q3' })).rule).toBeNull();
+    expect(engine.resolve(request({ roles: ['finance'], contentId: 'hr-q3' })).rule).toBeNull();
+    expect(
+      engine.resolve(request({ roles: ['finance'], contentId: 'finance-q3', at: evening })).rule
+    ).toBeNull();
+
+    const marketing = engine.resolve(request({ contentId: 'marketing-launch' }));
+    expect(marketing.rule).toBe('marketing');
+    expect(marketing.policy.playback_policy).toMatchObject({
+      persistent: true,
+      license_duration_seconds: 86400,
+    });
+    expect(marketing.policy.security_policy).toBeUndefined();
+  });
+
+  test('should support windows that wrap around midnight', () => {
+    const nightly = new PolicyEngine(basePolicy, {
+      rules: [
+        {
+          name: 'night',
+          match: { timeWindow: { start: '22:00', end: '06:00' } },
+          policy: { licenseDurationSeconds: 60 },
+        },
+      ],
+    });
+
+    expect(nightly.resolve(request({ at: new Date('2025-07-16T23:15:00Z') })).rule).toBe('night');
+    expect(nightly.resolve(request({ at: new Date('2025-07-16T05:59:00Z') })).rule).toBe('night');
+    expect(nightly.resolve(request({ at: new Date('2025-07-16T12:00:00Z') })).rule).toBeNull();
+  });
+
+  test('should load YAML rules and reject invalid ones', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cloakscreen-policy-'));
+    const file = path.join(dir, 'policy.yaml');
+
+    try {
+      await fs.writeFile(
+        file,
+        [
+          'rules:',
+          '  - name: finance',
+          '    match:',
+          "      contentIds: ['finance-*']",
+          '    policy:',
+          '      hdcp: v1',
+        ].join('\n')
+      );
+      const engine = await PolicyEngine.fromFile(basePolicy, file);
+      const decision = engine.resolve(request({ contentId: 'finance-q3' }));
+      expect(decision.policy.security_policy).toMatchObject([
+        { widevine: { required_hdcp_version: 'HDCP_V1' }, fairplay: { hdcp_enforcement: 0 } },
+      ]);
+
+      await fs.writeFile(file, 'rules:\n  - name: broken\n    policy:\n      hdcp: v3\n');
+      await expect(PolicyEngine.fromFile(basePolicy, file)).rejects.toThrow(
+        'DRM policy rules are invalid'
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
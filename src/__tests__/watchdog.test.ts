@@ -0,0 +1,241 @@
+/**
+ * Playback watchdog and recovery tests
+ */
+
+import { DRMManager } from '../core/DRMManager';
+import { PlaybackWatchdog, getRecoveryDelay } from '../core/PlaybackWatchdog';
+import { DRMProvider, providerRegistry } from '../providers';
+import { KeySystem } from '../utils/eme';
+
+const createVideo = (paused = false) => {
+  const video = document.createElement('video');
+  Object.defineProperty(video, 'paused', { value: paused, configurable: true });
+  video.play = vi.fn(async () => {});
+  return video;
+};
+
+describe('PlaybackWatchdog', () => {
+  const player = {
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    getKeyStatuses: vi.fn(() => ({ '00ff': 'usable' })),
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const watch = (video: HTMLVideoElement) => {
+    const watchdog = new PlaybackWatchdog(video, player as any, { stallTimeout: 1000 });
+    const degraded = vi.fn();
+    watchdog.on('degraded', degraded);
+    watchdog.start();
+    return { watchdog, degraded };
+  };
+
+  test('should report a stall only while playback makes no progress', () => {
+    const video = createVideo();
+    const { degraded } = watch(video);
+
+    vi.advanceTimersByTime(750);
+    Object.defineProperty(video, 'currentTime', { value: 1, configurable: true });
+    video.dispatchEvent(new Event('timeupdate'));
+    vi.advanceTimersByTime(750);
+    expect(degraded).not.toHaveBeenCalled();
+
+    video.dispatchEvent(new Event('waiting'));
+    vi.advanceTimersByTime(500);
+    expect(degraded).toHaveBeenCalledTimes(1);
+    expect(degraded).toHaveBeenCalledWith({ reason: 'waiting' });
+  });
+
+  test('should not report paused videos as stalled', () => {
+    const { watchdog, degraded } = watch(createVideo(true));
+
+    vi.advanceTimersByTime(5000);
+
+    expect(degraded).not.toHaveBeenCalled();
+    watchdog.stop();
+  });
+
+  test('should report emptied videos and unusable keys', () => {
+    const video = createVideo();
+    const emptied = watch(video);
+    video.dispatchEvent(new Event('emptied'));
+    expect(emptied.degraded).toHaveBeenCalledWith({ reason: 'emptied' });
+
+    const expired = watch(createVideo());
+    const onKeyStatusChange = player.addEventListener.mock.lastCall![1];
+    player.getKeyStatuses.mockReturnValue({ '00ff': 'expired' });
+    onKeyStatusChange();
+    expect(expired.degraded).toHaveBeenCalledWith({ reason: 'key-status', keyStatus: 'expired' });
+  });
+
+  test('should back off exponentially up to the maximum delay', () => {
+    const options = { initialDelay: 500, maxDelay: 3000 };
+
+    expect([1, 2, 3, 4, 5].map(attempt => getRecoveryDelay(attempt, options))).toEqual([
+      500, 1000, 2000, 3000, 3000,
+    ]);
+  });
+});
+
+describe('Playback recovery', () => {
+  const originalPlayer = (window as any).shaka.Player;
+  let failingLoads = 0;
+  let invalidations = 0;
+  let loadGate: Promise<void> | null = null;
+  const created: FakePlayer[] = [];
+
+  class FakePlayer {
+    static isBrowserSupported = () => true;
+    constructor() {
+      created.push(this);
+    }
+    load = vi.fn(async () => {
+      await loadGate;
+      if (failingLoads > 0) {
+        failingLoads--;
+        throw new Error('License request failed');
+      }
+    });
+    configure = vi.fn();
+    destroy = vi.fn();
+    addEventListener = vi.fn();
+    removeEventListener = vi.fn();
+    getNetworkingEngine = () => ({
+      registerRequestFilter: vi.fn(),
+      registerResponseFilter: vi.fn(),
+    });
+  }
+
+  class WatchedProvider extends DRMProvider {
+    static getMetadata() {
+      return {
+        name: 'watched',
+        displayName: 'Watched',
+        description: 'Test provider',
+        supportedKeySystems: [KeySystem.WIDEVINE],
+        requiredConfig: [],
+      };
+    }
+    async initialize() {}
+    async getLicenseToken() {
+      return '';
+    }
+    getLicenseServerUrl() {
+      return '/license';
+    }
+    async getContentUrl() {
+      return '/watched.mpd';
+    }
+    configurePlayer() {}
+    destroy() {}
+    validateConfig() {}
+    getCapabilities() {
+      return { keySystems: [KeySystem.WIDEVINE], requiresHardwareSecurity: false };
+    }
+    async getHealthStatus() {
+      return { status: 'healthy' as const };
+    }
+    invalidateLicenseTokens() {
+      invalidations++;
+    }
+  }
+
+  beforeEach(() => {
+    (window as any).shaka.Player = FakePlayer;
+    providerRegistry.register('watched', WatchedProvider);
+    failingLoads = 0;
+    invalidations = 0;
+    loadGate = null;
+    created.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    (window as any).shaka.Player = originalPlayer;
+    providerRegistry.unregister('watched');
+  });
+
+  const protect = async (maxAttempts: number) => {
+    vi.useFakeTimers();
+    const manager = new DRMManager({ name: 'watched' });
+    const events = vi.fn();
+    ['playback-degraded', 'playback-recovered', 'playback-recovery-failed'].forEach(event =>
+      manager.on(event, (data: any) => events(event, data))
+    );
+
+    await manager.initialize();
+    const video = createVideo();
+    await manager.startProtection(video, undefined, {
+      initialDelay: 100,
+      maxDelay: 1000,
+      maxAttempts,
+    });
+
+    return { manager, video, events };
+  };
+
+  test('should re-acquire the license with backoff until playback is back', async () => {
+    const { manager, video, events } = await protect(3);
+    const firstPlayer = (manager as any).players.get(video);
+    failingLoads = 1;
+
+    video.dispatchEvent(new Event('emptied'));
+    expect(events).toHaveBeenCalledWith('playback-degraded', expect.objectContaining({ video }));
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(events).not.toHaveBeenCalledWith('playback-recovered', expect.anything());
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(events).toHaveBeenCalledWith('playback-recovered', { video, attempts: 2 });
+    expect(firstPlayer.destroy).toHaveBeenCalled();
+    expect(invalidations).toBe(2);
+    expect(manager.getSurfaceCount()).toBe(1);
+    manager.destroy();
+  });
+
+  test('should give up after the last attempt and stop when protection stops', async () => {
+    const { manager, video, events } = await protect(2);
+    failingLoads = 2;
+
+    video.dispatchEvent(new Event('emptied'));
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(events).toHaveBeenLastCalledWith(
+      'playback-recovery-failed',
+      expect.objectContaining({ reason: 'emptied', attempts: 2 })
+    );
+
+    manager.stopProtection(video);
+    video.dispatchEvent(new Event('emptied'));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(events).toHaveBeenCalledTimes(2);
+    manager.destroy();
+  });
+
+  test('should destroy the new player when protection stops during recovery', async () => {
+    const { manager, video, events } = await protect(3);
+    let finishLoad = () => {};
+    loadGate = new Promise<void>(resolve => (finishLoad = resolve));
+
+    video.dispatchEvent(new Event('emptied'));
+    await vi.advanceTimersByTimeAsync(100);
+    expect(created).toHaveLength(2);
+    expect(manager.getSurfaceCount()).toBe(1);
+
+    manager.stopProtection(video);
+    finishLoad();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(created[1].destroy).toHaveBeenCalled();
+    expect(manager.getSurfaceCount()).toBe(0);
+    expect(events).not.toHaveBeenCalledWith('playback-recovered', expect.anything());
+    manager.destroy();
+  });
+});
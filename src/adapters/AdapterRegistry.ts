@@ -0,0 +1,143 @@
+/**
+ * AdapterRegistry - Central registry for content adapters
+ *
+ * Manages registration, auto-detection, and instantiation of content adapters
+ */
+
+import { ContentAdapter } from './ContentAdapter';
+import { utilsLogger } from '../utils/logger';
+
+// Type for concrete content adapter constructors
+export type ContentAdapterConstructor = new () => ContentAdapter;
+
+/**
+ * Matcher used to auto-detect an adapter for a target element
+ */
+export type AdapterMatcher = (element: HTMLElement) => boolean;
+
+interface AdapterRegistration {
+  adapterClass: ContentAdapterConstructor;
+  matcher?: AdapterMatcher;
+}
+
+export class AdapterRegistry {
+  private adapters = new Map<string, AdapterRegistration>();
+  private defaultAdapter: string = 'text';
+  private static instance: AdapterRegistry;
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): AdapterRegistry {
+    if (!AdapterRegistry.instance) {
+      AdapterRegistry.instance = new AdapterRegistry();
+    }
+    return AdapterRegistry.instance;
+  }
+
+  /**
+   * Register a content adapter
+   *
+   * Adapters registered without a matcher are only used when requested by name.
+   */
+  register(name: string, adapterClass: ContentAdapterConstructor, matcher?: AdapterMatcher): void {
+    if (this.adapters.has(name)) {
+      utilsLogger.warn(`Adapter '${name}' is already registered. Overwriting.`);
+      // Re-insert so the adapter moves to the end of the detection order
+      this.adapters.delete(name);
+    }
+
+    this.adapters.set(name, { adapterClass, matcher });
+    utilsLogger.debug(`Registered adapter: ${name}`);
+  }
+
+  /**
+   * Create an adapter instance
+   */
+  create(name: string): ContentAdapter {
+    const registration = this.adapters.get(name);
+
+    if (!registration) {
+      throw new Error(
+        `Adapter '${name}' is not registered. Available adapters: ${this.getAvailable().join(', ')}`
+      );
+    }
+
+    return new registration.adapterClass();
+  }
+
+  /**
+   * Detect the adapter name for a target element
+   *
+   * Matchers are checked from the most recently registered adapter to the oldest,
+   * so custom adapters take precedence over the built-in ones.
+   */
+  detect(element: HTMLElement): string {
+    const registrations = Array.from(this.adapters.entries()).reverse();
+
+    for (const [name, { matcher }] of registrations) {
+      if (!matcher) {
+        continue;
+      }
+
+      try {
+        if (matcher(element)) {
+          return name;
+        }
+      } catch (error) {
+        utilsLogger.warn(`Error in matcher for adapter '${name}':`, error);
+      }
+    }
+
+    return this.defaultAdapter;
+  }
+
+  /**
+   * Set the adapter used when no matcher accepts the target element
+   */
+  setDefault(name: string): void {
+    if (!this.adapters.has(name)) {
+      throw new Error(`Adapter '${name}' is not registered`);
+    }
+    this.defaultAdapter = name;
+  }
+
+  /**
+   * Get the default adapter name
+   */
+  getDefault(): string {
+    return this.defaultAdapter;
+  }
+
+  /**
+   * Get all available adapter names
+   */
+  getAvailable(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  /**
+   * Check if an adapter is registered
+   */
+  isRegistered(name: string): boolean {
+    return this.adapters.has(name);
+  }
+
+  /**
+   * Unregister an adapter
+   */
+  unregister(name: string): boolean {
+    return this.adapters.delete(name);
+  }
+
+  /**
+   * Clear all registered adapters
+   */
+  clear(): void {
+    this.adapters.clear();
+  }
+}
+
+// Export singleton instance
+export const adapterRegistry = AdapterRegistry.getInstance();
+export default adapterRegistry;
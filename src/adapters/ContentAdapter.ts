@@ -9,10 +9,12 @@
 import { utilsLogger } from '../utils/logger';
 import EventEmitter from '../utils/EventEmitter';
 import { LayerManager } from '../core/LayerManager';
+import { CloakscreenConfig } from '../types';
+import { ContentEvents } from '../types/events';
 
-export abstract class ContentAdapter extends EventEmitter {
+export abstract class ContentAdapter extends EventEmitter<ContentEvents> {
   protected layerManager: LayerManager | null = null;
-  protected config: { content?: string; readOnly?: boolean } | undefined;
+  protected config: CloakscreenConfig['options'];
   protected topElement: HTMLElement | null = null;
   protected bottomElement: HTMLElement | null = null;
 
@@ -21,7 +23,7 @@ export abstract class ContentAdapter extends EventEmitter {
    */
   async initialize(
     layerManager: LayerManager,
-    config?: { content?: string; readOnly?: boolean }
+    config?: CloakscreenConfig['options']
   ): Promise<void> {
     this.layerManager = layerManager;
     this.config = config;
@@ -50,6 +52,12 @@ export abstract class ContentAdapter extends EventEmitter {
     this.emit('content-changed', { content });
   }
 
+  /**
+   * Called after the layers were resized to match the target element.
+   * Adapters that render at a fixed pixel size override this to re-render.
+   */
+  handleResize(): void {}
+
   /**
    * Destroy the adapter and cleanup resources
    */
@@ -200,12 +208,54 @@ export abstract class ContentAdapter extends EventEmitter {
 
   /**
    * Synchronize scroll position between layers
+   *
+   * Scroll events don't bubble, so they are captured on the source element to
+   * also mirror nested scroll containers inside the content.
    */
   protected synchronizeScroll(sourceElement: HTMLElement, targetElement: HTMLElement): void {
-    sourceElement.addEventListener('scroll', () => {
-      targetElement.scrollTop = sourceElement.scrollTop;
-      targetElement.scrollLeft = sourceElement.scrollLeft;
-    });
+    sourceElement.addEventListener(
+      'scroll',
+      event => {
+        const scrolled = event.target as HTMLElement;
+        const mirror =
+          scrolled === sourceElement
+            ? targetElement
+            : this.findMirrorElement(sourceElement, targetElement, scrolled);
+
+        if (mirror) {
+          mirror.scrollTop = scrolled.scrollTop;
+          mirror.scrollLeft = scrolled.scrollLeft;
+        }
+      },
+      true
+    );
+  }
+
+  /**
+   * Find the node at the same child index path under another root
+   *
+   * The invisible text effect replaces each text node with a single span,
+   * so child indices stay identical between the two layers.
+   */
+  private findMirrorElement(sourceRoot: Node, targetRoot: Node, node: Node): HTMLElement | null {
+    const path: number[] = [];
+    let current: Node = node;
+
+    while (current !== sourceRoot) {
+      const parent = current.parentNode;
+      if (!parent) {
+        return null;
+      }
+      path.unshift(Array.prototype.indexOf.call(parent.childNodes, current));
+      current = parent;
+    }
+
+    let mirror: Node | undefined = targetRoot;
+    for (const index of path) {
+      mirror = mirror?.childNodes[index];
+    }
+
+    return mirror instanceof HTMLElement ? mirror : null;
   }
 
   /**
@@ -0,0 +1,454 @@
+/**
+ * ImageAdapter - Bitmap content protection
+ *
+ * Protects <img>, <canvas> and <svg> content by rasterizing it into the
+ * top layer and rendering a color-matched block mask into the bottom layer,
+ * the bitmap equivalent of the per-character backgrounds used for text.
+ */
+
+import { ContentAdapter } from './ContentAdapter';
+import { utilsLogger } from '../utils/logger';
+
+type VisualElement = HTMLImageElement | HTMLCanvasElement | SVGSVGElement;
+
+const VISUAL_SELECTOR = 'img, canvas, svg';
+
+export class ImageAdapter extends ContentAdapter {
+  /** Size in pixels of each color-matched block in the bottom layer */
+  private static readonly CELL_SIZE = 8;
+
+  /** Minimum delay between bottom layer refreshes while a canvas is animating */
+  private static readonly MASK_INTERVAL_MS = 100;
+
+  private topCanvas: HTMLCanvasElement | null = null;
+  private bottomCanvas: HTMLCanvasElement | null = null;
+  private visuals: VisualElement[] = [];
+  private replacement: HTMLImageElement | null = null;
+  private svgObserver: MutationObserver | null = null;
+  private frameHandle: number | null = null;
+  private lastMaskTime: number = 0;
+  private renderPending: boolean = false;
+  private objectUrls: string[] = [];
+  private drawables: Array<{ source: VisualElement; image: CanvasImageSource | null }> = [];
+
+  /**
+   * Check whether a target element holds only bitmap-like content
+   */
+  static matches(element: HTMLElement): boolean {
+    const children = Array.from(element.children).filter(
+      child => !child.classList.contains('cloakscreen-container')
+    );
+
+    return children.length > 0 && children.every(child => child.matches(VISUAL_SELECTOR));
+  }
+
+  /**
+   * Initialize canvases for both layers
+   */
+  protected async initializeContent(): Promise<void> {
+    if (!this.topElement || !this.bottomElement) {
+      throw new Error('Layer elements not available');
+    }
+
+    const targetElement = this.layerManager?.getTargetElement();
+    if (targetElement) {
+      this.visuals = Array.from(targetElement.querySelectorAll<HTMLElement>(VISUAL_SELECTOR))
+        .filter(element => !element.closest('.cloakscreen-container'))
+        // Nested SVG elements are rendered as part of their outermost <svg>
+        .filter(element => !element.parentElement?.closest('svg')) as VisualElement[];
+    }
+
+    // Top container (visible copy of the bitmap)
+    this.topCanvas = document.createElement('canvas');
+    this.topCanvas.className = 'cloakscreen-top-content';
+
+    // Bottom container (color-matched mask)
+    this.bottomCanvas = document.createElement('canvas');
+    this.bottomCanvas.className = 'cloakscreen-bottom-content';
+    this.bottomCanvas.setAttribute('aria-hidden', 'true');
+
+    [this.topCanvas, this.bottomCanvas].forEach(canvas => {
+      Object.assign(canvas.style, {
+        display: 'block',
+        width: '100%',
+        height: '100%',
+        pointerEvents: 'none',
+      });
+    });
+
+    this.topElement.appendChild(this.topCanvas);
+    this.bottomElement.appendChild(this.bottomCanvas);
+
+    // Initial content override from configuration
+    if (this.config?.content) {
+      this.loadReplacement(this.config.content);
+    }
+
+    await this.render();
+  }
+
+  /**
+   * Replace the protected visual with an image URL or SVG markup
+   */
+  protected updateTopLayer(content: string): void {
+    this.loadReplacement(content);
+  }
+
+  /**
+   * Bottom layer is derived from the top layer on every render
+   */
+  protected updateBottomLayer(_content: string): void {
+    this.scheduleRender();
+  }
+
+  /**
+   * Keep both layers in sync with the original visuals
+   */
+  protected setupSynchronization(): void {
+    this.visuals.forEach(visual => {
+      if (visual instanceof HTMLImageElement) {
+        visual.addEventListener('load', this.handleSourceChange);
+      }
+    });
+
+    // Re-rasterize SVGs when their markup changes
+    const svgs = this.visuals.filter(visual => visual instanceof SVGSVGElement);
+    if (svgs.length > 0) {
+      this.svgObserver = new MutationObserver(this.handleSourceChange);
+      svgs.forEach(svg =>
+        this.svgObserver!.observe(svg, {
+          subtree: true,
+          childList: true,
+          attributes: true,
+          characterData: true,
+        })
+      );
+    }
+
+    // Canvas redraws cannot be observed, so mirror them every animation frame
+    if (this.visuals.some(visual => visual instanceof HTMLCanvasElement)) {
+      this.startCanvasSync();
+    }
+  }
+
+  /**
+   * Re-render at the new layer size, as canvases are drawn at a fixed pixel size
+   */
+  handleResize(): void {
+    this.scheduleRender();
+  }
+
+  /**
+   * Get the rendered top layer canvas
+   */
+  getCanvas(): HTMLCanvasElement | null {
+    return this.topCanvas;
+  }
+
+  /**
+   * Render all visuals into the top canvas and refresh the bottom mask
+   */
+  private async render(): Promise<void> {
+    const targetElement = this.layerManager?.getTargetElement();
+    if (!this.topCanvas || !this.bottomCanvas || !targetElement) {
+      return;
+    }
+
+    const width = targetElement.clientWidth;
+    const height = targetElement.clientHeight;
+    const context = this.topCanvas.getContext('2d');
+
+    if (!context || width === 0 || height === 0) {
+      return;
+    }
+
+    // Resolve drawables first so the canvas is not cleared while SVGs rasterize
+    const drawables = await Promise.all(
+      this.getRenderSources().map(async source => ({
+        source,
+        image: await this.toDrawable(source),
+      }))
+    );
+
+    if (!this.topCanvas) {
+      return;
+    }
+
+    this.drawables = drawables;
+    this.resizeCanvas(this.topCanvas, width, height);
+    this.resizeCanvas(this.bottomCanvas!, width, height);
+    this.drawFrame();
+    this.applyColorMatchedMask();
+  }
+
+  /**
+   * Draw the resolved sources into the top canvas at their on-screen positions
+   */
+  private drawFrame(): void {
+    const context = this.topCanvas?.getContext('2d');
+    const targetElement = this.layerManager?.getTargetElement();
+    if (!context || !this.topCanvas || !targetElement) {
+      return;
+    }
+
+    const { width, height } = this.topCanvas;
+    const targetRect = targetElement.getBoundingClientRect();
+    context.clearRect(0, 0, width, height);
+
+    for (const { source, image } of this.drawables) {
+      if (!image) {
+        continue;
+      }
+
+      if (source === this.replacement) {
+        context.drawImage(image, 0, 0, width, height);
+        continue;
+      }
+
+      const rect = source.getBoundingClientRect();
+      context.drawImage(
+        image,
+        rect.left - targetRect.left - targetElement.clientLeft,
+        rect.top - targetRect.top - targetElement.clientTop,
+        rect.width,
+        rect.height
+      );
+    }
+  }
+
+  /**
+   * Fill the bottom canvas with blocks matching the average color of each cell
+   */
+  private applyColorMatchedMask(): void {
+    if (!this.topCanvas || !this.bottomCanvas) {
+      return;
+    }
+
+    const source = this.topCanvas.getContext('2d');
+    const target = this.bottomCanvas.getContext('2d');
+    if (!source || !target) {
+      return;
+    }
+
+    const { width, height } = this.topCanvas;
+    const cell = ImageAdapter.CELL_SIZE;
+    target.clearRect(0, 0, width, height);
+
+    let pixels: ImageData;
+    try {
+      pixels = source.getImageData(0, 0, width, height);
+    } catch (error) {
+      // Cross-origin images taint the canvas - fall back to a solid mask
+      utilsLogger.warn('Unable to read image pixels, using solid mask:', error);
+      target.fillStyle = '#000000';
+      target.fillRect(0, 0, width, height);
+      return;
+    }
+
+    for (let y = 0; y < height; y += cell) {
+      for (let x = 0; x < width; x += cell) {
+        const color = this.averageCellColor(pixels, x, y, cell);
+        if (color) {
+          target.fillStyle = color;
+          target.fillRect(x, y, cell, cell);
+        }
+      }
+    }
+
+    this.lastMaskTime = Date.now();
+  }
+
+  /**
+   * Average color of a cell, or null when the cell is fully transparent
+   */
+  private averageCellColor(pixels: ImageData, x: number, y: number, size: number): string | null {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let a = 0;
+    let count = 0;
+
+    const maxY = Math.min(y + size, pixels.height);
+    const maxX = Math.min(x + size, pixels.width);
+
+    for (let py = y; py < maxY; py++) {
+      for (let px = x; px < maxX; px++) {
+        const index = (py * pixels.width + px) * 4;
+        const alpha = pixels.data[index + 3];
+        if (alpha === 0) {
+          continue;
+        }
+        r += pixels.data[index];
+        g += pixels.data[index + 1];
+        b += pixels.data[index + 2];
+        a += alpha;
+        count++;
+      }
+    }
+
+    if (count === 0) {
+      return null;
+    }
+
+    return `rgba(${Math.round(r / count)}, ${Math.round(g / count)}, ${Math.round(
+      b / count
+    )}, ${(a / count / 255).toFixed(3)})`;
+  }
+
+  /**
+   * Mirror canvas sources every animation frame, throttling the mask refresh
+   */
+  private startCanvasSync(): void {
+    const tick = () => {
+      this.drawFrame();
+      if (Date.now() - this.lastMaskTime >= ImageAdapter.MASK_INTERVAL_MS) {
+        this.applyColorMatchedMask();
+      }
+      this.frameHandle = requestAnimationFrame(tick);
+    };
+
+    this.frameHandle = requestAnimationFrame(tick);
+  }
+
+  /**
+   * Coalesce multiple source changes into a single render
+   */
+  private scheduleRender(): void {
+    if (this.renderPending) {
+      return;
+    }
+
+    this.renderPending = true;
+    Promise.resolve().then(() => {
+      this.renderPending = false;
+      this.render().catch(error => utilsLogger.error('Error rendering image content:', error));
+    });
+  }
+
+  private handleSourceChange = (): void => {
+    this.scheduleRender();
+  };
+
+  /**
+   * Load an image URL or SVG markup as replacement content
+   */
+  private loadReplacement(content: string): void {
+    const image = new Image();
+    const trimmed = content.trim();
+
+    if (trimmed.startsWith('<svg')) {
+      const url = this.createObjectUrl(trimmed);
+      // A loaded image keeps its bitmap, so the blob is only needed until then
+      const revoke = () => this.revokeObjectUrl(url);
+      image.addEventListener('load', revoke, { once: true });
+      image.addEventListener('error', revoke, { once: true });
+      image.src = url;
+    } else {
+      image.crossOrigin = 'anonymous';
+      image.src = trimmed;
+    }
+
+    image.addEventListener('load', this.handleSourceChange);
+    this.replacement = image;
+  }
+
+  /**
+   * Sources to render: the replacement image if set, otherwise the original visuals
+   */
+  private getRenderSources(): Array<VisualElement> {
+    return this.replacement ? [this.replacement] : this.visuals;
+  }
+
+  /**
+   * Convert a visual element into something drawImage accepts
+   */
+  private async toDrawable(visual: VisualElement): Promise<CanvasImageSource | null> {
+    if (visual instanceof HTMLCanvasElement) {
+      return visual;
+    }
+
+    if (visual instanceof HTMLImageElement) {
+      return visual.complete && visual.naturalWidth > 0 ? visual : null;
+    }
+
+    // Rasterize SVG through an image element
+    const markup = new XMLSerializer().serializeToString(visual);
+    const image = new Image();
+    const url = this.createObjectUrl(markup);
+    image.src = url;
+
+    try {
+      await image.decode();
+      return image;
+    } catch (error) {
+      utilsLogger.warn('Unable to rasterize SVG content:', error);
+      return null;
+    } finally {
+      // Every render rasterizes anew, so each blob is released once decoded
+      this.revokeObjectUrl(url);
+    }
+  }
+
+  /**
+   * Blob URL for SVG markup, revoked on cleanup unless released earlier
+   */
+  private createObjectUrl(markup: string): string {
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    this.objectUrls.push(url);
+    return url;
+  }
+
+  private revokeObjectUrl(url: string): void {
+    const index = this.objectUrls.indexOf(url);
+    if (index !== -1) {
+      URL.revokeObjectURL(url);
+      this.objectUrls.splice(index, 1);
+    }
+  }
+
+  private resizeCanvas(canvas: HTMLCanvasElement, width: number, height: number): void {
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+  }
+
+  /**
+   * Cleanup resources
+   */
+  protected cleanup(): void {
+    if (this.frameHandle !== null) {
+      cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+
+    if (this.svgObserver) {
+      this.svgObserver.disconnect();
+      this.svgObserver = null;
+    }
+
+    this.visuals.forEach(visual => {
+      if (visual instanceof HTMLImageElement) {
+        visual.removeEventListener('load', this.handleSourceChange);
+      }
+    });
+    this.visuals = [];
+    this.drawables = [];
+
+    if (this.replacement) {
+      this.replacement.removeEventListener('load', this.handleSourceChange);
+      this.replacement = null;
+    }
+
+    this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+    this.objectUrls = [];
+
+    [this.topCanvas, this.bottomCanvas].forEach(canvas => {
+      if (canvas && canvas.parentNode) {
+        canvas.parentNode.removeChild(canvas);
+      }
+    });
+    this.topCanvas = null;
+    this.bottomCanvas = null;
+  }
+}
@@ -6,12 +6,22 @@
  */
 
 import { ContentAdapter } from './ContentAdapter';
+import { ContentDiff } from '../types/config';
 
 export class TextAdapter extends ContentAdapter {
+  /** Quiet period after the last keystroke before content-changed fires */
+  private static readonly EDIT_DEBOUNCE_MS = 300;
+
   private topContainer: HTMLElement | null = null;
   private bottomContainer: HTMLElement | null = null;
   private isUpdating: boolean = false;
   private originalContent: string = '';
+  private observer: MutationObserver | null = null;
+  private topNodes = new WeakMap<Node, Node>();
+  private bottomNodes = new WeakMap<Node, Node>();
+  private editable: boolean = false;
+  private lastContent: string = '';
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Initialize content containers for both layers
@@ -47,8 +57,6 @@ export class TextAdapter extends ContentAdapter {
     // Remove display: none from all elements in top layer
     this.removeDisplayNone(this.topContainer);
 
-    // Pure cloning - no editing functionality, just exact copy
-
     // Create bottom container (invisible mirror)
     this.bottomContainer = document.createElement('div');
     this.bottomContainer.className = 'cloakscreen-bottom-content';
@@ -59,6 +67,11 @@ export class TextAdapter extends ContentAdapter {
     // Remove display: none from all elements in bottom layer
     this.removeDisplayNone(this.bottomContainer);
 
+    // Live mirroring needs node-level copies mapped to the original subtree
+    if (this.config?.observeChanges) {
+      this.mirrorOriginal(false);
+    }
+
     // Apply styling
     this.applyContainerStyling();
 
@@ -73,7 +86,15 @@ export class TextAdapter extends ContentAdapter {
   protected updateTopLayer(content: string): void {
     if (this.topContainer && !this.isUpdating) {
       this.isUpdating = true;
+
+      // Keep the caret where it was if the user is typing in the top layer
+      const caret = this.hasFocus() ? this.getCaretOffset() : null;
       this.topContainer.innerHTML = content;
+      if (caret !== null) {
+        this.setCaretOffset(caret);
+      }
+
+      this.lastContent = content;
       this.isUpdating = false;
     }
   }
@@ -87,7 +108,9 @@ export class TextAdapter extends ContentAdapter {
 
       // Apply invisible text effect
       setTimeout(() => {
-        this.applyInvisibleTextEffect(this.bottomContainer!);
+        if (this.bottomContainer) {
+          this.applyInvisibleTextEffect(this.bottomContainer);
+        }
       }, 10);
     }
   }
@@ -100,24 +123,50 @@ export class TextAdapter extends ContentAdapter {
       return;
     }
 
+    // Editing is opt-in: content stays read-only unless readOnly is explicitly false
+    this.lastContent = this.topContainer.innerHTML;
+    this.setReadOnly(this.config?.readOnly !== false);
+
     // Sync content changes from top to bottom
     this.topContainer.addEventListener('input', () => {
       if (!this.isUpdating) {
-        const content = this.topContainer!.innerHTML;
-        this.updateBottomLayer(content);
-        this.emit('content-changed', { content });
+        this.mirrorEdit();
+        this.scheduleContentChanged();
       }
     });
 
-    // Sync scroll position
-    this.synchronizeScroll(this.topContainer, this.bottomContainer);
+    // Sync scroll position (the layers are the scroll containers)
+    this.synchronizeScroll(this.topElement!, this.bottomElement!);
+    this.restoreScrollPosition();
+
+    // Mirror later changes to the original subtree (opt-in)
+    if (this.config?.observeChanges) {
+      this.startObserving();
+    }
 
-    // Apply invisible text effect initially
+    // Apply invisible text effect initially (unless destroyed in the meantime)
     setTimeout(() => {
-      this.applyInvisibleTextEffect(this.bottomContainer!);
+      if (this.bottomContainer) {
+        this.applyInvisibleTextEffect(this.bottomContainer);
+      }
     }, 50);
   }
 
+  /**
+   * Continue from where the reader was scrolled before protection started
+   */
+  private restoreScrollPosition(): void {
+    const origin = this.layerManager?.getScrollOrigin();
+    if (!origin || !this.topElement || !this.bottomElement) {
+      return;
+    }
+
+    [this.topElement, this.bottomElement].forEach(layer => {
+      layer.scrollTop = origin.top;
+      layer.scrollLeft = origin.left;
+    });
+  }
+
   /**
    * Apply minimal styling - layers should be exact copies
    */
@@ -128,8 +177,6 @@ export class TextAdapter extends ContentAdapter {
       this.topContainer.style.backgroundColor = 'transparent';
       this.topContainer.style.color = 'inherit';
       this.topContainer.style.pointerEvents = 'auto'; // Allow interaction
-
-      // No editing functionality - just pure content cloning
     }
 
     // Bottom container - exact copy but will get black rectangles
@@ -156,11 +203,31 @@ export class TextAdapter extends ContentAdapter {
   }
 
   /**
-   * Cloakscreen is always read-only - no editing functionality
+   * Toggle editing of the top layer (the bottom layer is never editable)
    */
-  setReadOnly(_readOnly: boolean): void {
-    // Cloakscreen content is always read-only for protection
-    // This method exists for interface compatibility but does nothing
+  setReadOnly(readOnly: boolean): void {
+    this.editable = !readOnly;
+
+    if (!this.topContainer) {
+      return;
+    }
+
+    if (this.editable) {
+      this.topContainer.setAttribute('contenteditable', 'true');
+      this.topContainer.setAttribute('role', 'textbox');
+      this.topContainer.setAttribute('aria-multiline', 'true');
+    } else {
+      this.topContainer.removeAttribute('contenteditable');
+      this.topContainer.removeAttribute('role');
+      this.topContainer.removeAttribute('aria-multiline');
+    }
+  }
+
+  /**
+   * Check whether the top layer accepts edits
+   */
+  isEditable(): boolean {
+    return this.editable;
   }
 
   /**
@@ -172,6 +239,365 @@ export class TextAdapter extends ContentAdapter {
     }
   }
 
+  /**
+   * Mirror an edit into the bottom layer without touching the top layer
+   *
+   * Only the top-level block holding the caret is re-cloned, so the selection
+   * in the top layer is never disturbed while typing.
+   */
+  private mirrorEdit(): void {
+    if (!this.topContainer || !this.bottomContainer) {
+      return;
+    }
+
+    const block = this.getEditedBlock();
+    const index = block ? Array.from(this.topContainer.childNodes).indexOf(block) : -1;
+    const sameShape =
+      this.topContainer.childNodes.length === this.bottomContainer.childNodes.length;
+
+    if (block instanceof HTMLElement && index >= 0 && sameShape) {
+      const copy = block.cloneNode(true) as HTMLElement;
+      this.bottomContainer.replaceChild(copy, this.bottomContainer.childNodes[index]);
+      copy.style.color = 'transparent';
+      copy.style.backgroundColor = 'transparent';
+      this.applyInvisibleTextEffect(copy);
+      return;
+    }
+
+    // Blocks were added, removed or merged - rebuild the whole bottom layer
+    this.updateBottomLayer(this.topContainer.innerHTML);
+  }
+
+  /**
+   * Top-level child of the top container that holds the caret
+   */
+  private getEditedBlock(): ChildNode | null {
+    const selection = window.getSelection();
+    let node: Node | null = selection?.anchorNode ?? null;
+
+    while (node && node.parentNode !== this.topContainer) {
+      node = node.parentNode;
+    }
+
+    return node as ChildNode | null;
+  }
+
+  /**
+   * Emit content-changed once typing pauses, with a diff against the last emission
+   */
+  private scheduleContentChanged(): void {
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+    }
+
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+
+      const content = this.getContent();
+      const diff = this.diffContent(this.lastContent, content);
+      this.lastContent = content;
+
+      if (diff) {
+        this.emit('content-changed', { content, diff });
+      }
+    }, TextAdapter.EDIT_DEBOUNCE_MS);
+  }
+
+  /**
+   * Single replaced range between two content strings, or null if unchanged
+   */
+  private diffContent(previous: string, next: string): ContentDiff | null {
+    if (previous === next) {
+      return null;
+    }
+
+    let start = 0;
+    const maxStart = Math.min(previous.length, next.length);
+    while (start < maxStart && previous[start] === next[start]) {
+      start++;
+    }
+
+    let previousEnd = previous.length;
+    let nextEnd = next.length;
+    while (
+      previousEnd > start &&
+      nextEnd > start &&
+      previous[previousEnd - 1] === next[nextEnd - 1]
+    ) {
+      previousEnd--;
+      nextEnd--;
+    }
+
+    return {
+      start,
+      removed: previous.slice(start, previousEnd),
+      inserted: next.slice(start, nextEnd),
+    };
+  }
+
+  private hasFocus(): boolean {
+    return !!this.topContainer && this.topContainer.contains(document.activeElement);
+  }
+
+  /**
+   * Caret position as a character offset into the top container's text
+   */
+  private getCaretOffset(): number | null {
+    const selection = window.getSelection();
+    if (!this.topContainer || !selection || selection.rangeCount === 0) {
+      return null;
+    }
+
+    const range = selection.getRangeAt(0).cloneRange();
+    range.selectNodeContents(this.topContainer);
+    range.setEnd(selection.getRangeAt(0).endContainer, selection.getRangeAt(0).endOffset);
+    return range.toString().length;
+  }
+
+  /**
+   * Place the caret at a character offset into the top container's text
+   */
+  private setCaretOffset(offset: number): void {
+    const selection = window.getSelection();
+    if (!this.topContainer || !selection) {
+      return;
+    }
+
+    const walker = document.createTreeWalker(this.topContainer, NodeFilter.SHOW_TEXT);
+    const range = document.createRange();
+    let remaining = offset;
+    let node = walker.nextNode();
+
+    range.selectNodeContents(this.topContainer);
+    range.collapse(false);
+
+    while (node) {
+      const length = node.textContent?.length ?? 0;
+      if (remaining <= length) {
+        range.setStart(node, remaining);
+        range.collapse(true);
+        break;
+      }
+      remaining -= length;
+      node = walker.nextNode();
+    }
+
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+
+  /**
+   * Watch the original subtree and patch both containers on change
+   */
+  private startObserving(): void {
+    const targetElement = this.layerManager?.getTargetElement();
+    if (!targetElement) {
+      return;
+    }
+
+    this.observer = new MutationObserver(records => this.applyMutations(records));
+    this.observer.observe(targetElement, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      characterData: true,
+    });
+  }
+
+  /**
+   * Apply a batch of mutation records as minimal patches
+   */
+  private applyMutations(records: MutationRecord[]): void {
+    const targetElement = this.layerManager?.getTargetElement();
+    if (!targetElement || !this.topContainer || !this.bottomContainer) {
+      return;
+    }
+
+    const changed = new Set<Element>();
+    let patched = false;
+
+    for (const record of records) {
+      if (this.isInsideLayers(record.target)) {
+        continue;
+      }
+
+      if (record.type === 'childList' && record.target === targetElement) {
+        patched = this.patchRootChildren(record) || patched;
+      } else if (record.type === 'characterData') {
+        const parent = record.target.parentElement;
+        if (parent && parent !== targetElement) {
+          changed.add(parent);
+        }
+      } else if (record.target !== targetElement) {
+        changed.add(record.target as Element);
+      }
+    }
+
+    // Refresh only the outermost changed elements
+    changed.forEach(element => {
+      if (!targetElement.contains(element)) {
+        return;
+      }
+
+      let ancestor = element.parentElement;
+      while (ancestor && ancestor !== targetElement) {
+        if (changed.has(ancestor)) {
+          return;
+        }
+        ancestor = ancestor.parentElement;
+      }
+
+      this.refreshElement(element as HTMLElement);
+    });
+
+    // Discard records caused by our own writes to the original subtree
+    this.observer?.takeRecords();
+
+    // Changes inside the layers (e.g. our own invisible text updates) are not content changes
+    if (patched || changed.size > 0) {
+      this.emit('content-changed', { content: this.getContent() });
+    }
+  }
+
+  /**
+   * Insert or remove copies of direct children of the target element.
+   * Returns whether any copy was inserted or removed.
+   */
+  private patchRootChildren(record: MutationRecord): boolean {
+    let patched = false;
+
+    record.removedNodes.forEach(node => {
+      [this.topNodes.get(node), this.bottomNodes.get(node)].forEach(copy => {
+        if (copy?.parentNode) {
+          copy.parentNode.removeChild(copy);
+          patched = true;
+        }
+      });
+    });
+
+    record.addedNodes.forEach(node => {
+      if (!(node instanceof HTMLElement) || node.classList.contains('cloakscreen-container')) {
+        return;
+      }
+      patched = true;
+
+      // Keep the original hidden, as LayerManager does for existing children
+      this.layerManager?.hideOriginalElement(node);
+
+      // Insert before the copy of the next mirrored sibling to preserve order
+      let sibling = node.nextElementSibling;
+      while (sibling && !this.topNodes.has(sibling)) {
+        sibling = sibling.nextElementSibling;
+      }
+
+      const topCopy = node.cloneNode(true) as HTMLElement;
+      const bottomCopy = node.cloneNode(true) as HTMLElement;
+      this.topContainer!.insertBefore(topCopy, sibling ? this.topNodes.get(sibling)! : null);
+      this.bottomContainer!.insertBefore(
+        bottomCopy,
+        sibling ? this.bottomNodes.get(sibling)! : null
+      );
+
+      this.prepareCopies(node, topCopy, bottomCopy);
+    });
+
+    return patched;
+  }
+
+  /**
+   * Replace the copies of a changed element with fresh clones
+   */
+  private refreshElement(original: HTMLElement): void {
+    const topCopy = this.topNodes.get(original);
+    const bottomCopy = this.bottomNodes.get(original);
+
+    if (!topCopy?.parentNode || !bottomCopy?.parentNode) {
+      // Element was never mirrored - rebuild everything
+      this.mirrorOriginal(true);
+      return;
+    }
+
+    // App re-renders may reset the inline visibility of direct children
+    if (original.parentElement === this.layerManager?.getTargetElement()) {
+      this.layerManager.hideOriginalElement(original);
+    }
+
+    const newTop = original.cloneNode(true) as HTMLElement;
+    const newBottom = original.cloneNode(true) as HTMLElement;
+    topCopy.parentNode.replaceChild(newTop, topCopy);
+    bottomCopy.parentNode.replaceChild(newBottom, bottomCopy);
+
+    this.prepareCopies(original, newTop, newBottom);
+  }
+
+  /**
+   * Map freshly inserted copies and apply layer styling to them
+   */
+  private prepareCopies(original: Node, topCopy: HTMLElement, bottomCopy: HTMLElement): void {
+    this.mapNodes(original, topCopy, bottomCopy);
+    this.removeDisplayNone(topCopy);
+    this.removeDisplayNone(bottomCopy);
+
+    bottomCopy.style.color = 'transparent';
+    bottomCopy.style.backgroundColor = 'transparent';
+    this.applyInvisibleTextEffect(bottomCopy);
+  }
+
+  /**
+   * Rebuild both containers from node-level clones of the original content
+   */
+  private mirrorOriginal(applyEffect: boolean): void {
+    const targetElement = this.layerManager?.getTargetElement();
+    if (!targetElement || !this.topContainer || !this.bottomContainer) {
+      return;
+    }
+
+    this.topContainer.innerHTML = '';
+    this.bottomContainer.innerHTML = '';
+
+    Array.from(targetElement.children)
+      .filter(child => !child.classList.contains('cloakscreen-container'))
+      .forEach(child => {
+        const topCopy = child.cloneNode(true);
+        const bottomCopy = child.cloneNode(true);
+        this.topContainer!.appendChild(topCopy);
+        this.bottomContainer!.appendChild(bottomCopy);
+        this.mapNodes(child, topCopy, bottomCopy);
+      });
+
+    this.removeDisplayNone(this.topContainer);
+    this.removeDisplayNone(this.bottomContainer);
+
+    if (applyEffect) {
+      this.applyInvisibleTextEffect(this.bottomContainer);
+    }
+  }
+
+  /**
+   * Record the correspondence between original nodes and their copies
+   */
+  private mapNodes(original: Node, topCopy: Node, bottomCopy: Node): void {
+    this.topNodes.set(original, topCopy);
+    this.bottomNodes.set(original, bottomCopy);
+
+    const originalChildren = original.childNodes;
+    for (let i = 0; i < originalChildren.length; i++) {
+      const topChild = topCopy.childNodes[i];
+      const bottomChild = bottomCopy.childNodes[i];
+      if (topChild && bottomChild) {
+        this.mapNodes(originalChildren[i], topChild, bottomChild);
+      }
+    }
+  }
+
+  /**
+   * Check whether a node belongs to the Cloakscreen layers
+   */
+  private isInsideLayers(node: Node): boolean {
+    const element = node instanceof Element ? node : node.parentElement;
+    return !!element?.closest('.cloakscreen-container');
+  }
+
   /**
    * Remove visibility: hidden and display: none from all elements recursively
    * Also reset margins to prevent double margin issues
@@ -219,6 +645,16 @@ export class TextAdapter extends ContentAdapter {
    * Cleanup resources
    */
   protected cleanup(): void {
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+      this.changeTimer = null;
+    }
+
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+
     if (this.topContainer && this.topContainer.parentNode) {
       this.topContainer.parentNode.removeChild(this.topContainer);
       this.topContainer = null;
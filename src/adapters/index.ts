@@ -2,5 +2,16 @@
  * Content adapters - standardized barrel pattern
  */
 
+import { TextAdapter } from './TextAdapter';
+import { ImageAdapter } from './ImageAdapter';
+import { adapterRegistry } from './AdapterRegistry';
+
+// Register built-in adapters (text is the default when no matcher applies)
+adapterRegistry.register('text', TextAdapter);
+adapterRegistry.register('image', ImageAdapter, ImageAdapter.matches);
+
 export { ContentAdapter } from './ContentAdapter';
 export { TextAdapter } from './TextAdapter';
+export { ImageAdapter } from './ImageAdapter';
+export { AdapterRegistry, adapterRegistry } from './AdapterRegistry';
+export type { AdapterMatcher, ContentAdapterConstructor } from './AdapterRegistry';
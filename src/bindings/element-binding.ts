@@ -0,0 +1,145 @@
+/**
+ * Element binding - shared lifecycle for framework directives and actions
+ *
+ * Owns a Cloakscreen instance for one element: protects it when bound,
+ * re-creates it when the configuration changes, applies content changes with
+ * updateContent() and destroys it when unbound. Instance events are re-dispatched
+ * on the element as DOM CustomEvents so templates can listen to them natively,
+ * and failures to protect as an `error` event with `{ error }` as detail.
+ */
+
+import { Cloakscreen } from '../index';
+import type { CloakscreenConfig } from '../index';
+import { getConfigKey } from '../utils/config-key';
+import { coreLogger } from '../utils/logger';
+
+/**
+ * Binding options - a Cloakscreen configuration without the element
+ */
+export interface CloakscreenBindingOptions extends Omit<CloakscreenConfig, 'element'> {
+  /** Protected HTML content; changes are applied with updateContent() */
+  content?: string;
+
+  /** Skip protection (e.g. until data is loaded) */
+  disabled?: boolean;
+}
+
+export interface CloakscreenBinding {
+  /** Apply new options to the bound element */
+  update(options: CloakscreenBindingOptions): void;
+
+  /** Remove protection and release the instance */
+  destroy(): void;
+}
+
+/** Instance events re-dispatched on the bound element, with the event data as detail */
+export const FORWARDED_EVENTS = ['protected', 'fallback-activated', 'security-violation'] as const;
+
+/**
+ * Protect an element until the returned binding is destroyed
+ */
+export function bindCloakscreen(
+  element: HTMLElement,
+  options: CloakscreenBindingOptions
+): CloakscreenBinding {
+  let cloak: Cloakscreen | null = null;
+  let configKey: string | null = null;
+  let content: string | undefined;
+
+  const reportError = (error: unknown) => {
+    coreLogger.error('Binding failed to protect element:', error);
+    element.dispatchEvent(new CustomEvent('error', { detail: { error } }));
+  };
+
+  /**
+   * Protect the element, returns false when the configuration was rejected
+   */
+  const start = (config: Omit<CloakscreenBindingOptions, 'content' | 'disabled'>): boolean => {
+    let instance: Cloakscreen;
+    try {
+      instance = new Cloakscreen({ ...config, element });
+    } catch (error) {
+      // Thrown from a framework hook it would escape the component lifecycle
+      reportError(error);
+      return false;
+    }
+    cloak = instance;
+
+    FORWARDED_EVENTS.forEach(eventName =>
+      instance.on(eventName, (detail: unknown) => {
+        if (cloak === instance) {
+          element.dispatchEvent(new CustomEvent(eventName, { detail }));
+        }
+      })
+    );
+
+    // Content bound before protection finished is applied once it is active
+    instance.on('protected', () => {
+      if (cloak === instance) {
+        applyContent();
+      }
+    });
+
+    instance.protect().catch(error => {
+      if (cloak === instance) {
+        reportError(error);
+      }
+    });
+    return true;
+  };
+
+  const stop = () => {
+    const instance = cloak;
+    cloak = null;
+    configKey = null;
+
+    // Destroyed right away (cancelling a protect() still running), so its layers
+    // are gone before a replacement instance protects the same element
+    instance?.destroy();
+  };
+
+  const applyContent = () => {
+    if (cloak?.isProtected() && content !== undefined && cloak.getContent() !== content) {
+      cloak.updateContent(content);
+    }
+  };
+
+  const update = (next: CloakscreenBindingOptions) => {
+    const { content: nextContent, disabled, ...config } = next;
+    content = nextContent;
+
+    if (disabled) {
+      if (cloak) {
+        stop();
+      }
+      return;
+    }
+
+    // Re-create the instance only when the configuration actually changes
+    const nextKey = getConfigKey(config);
+
+    if (nextKey !== configKey) {
+      if (cloak) {
+        stop();
+      }
+      // A rejected configuration is retried on the next update
+      if (start(config)) {
+        configKey = nextKey;
+      }
+      return;
+    }
+
+    applyContent();
+  };
+
+  update(options);
+
+  return {
+    update,
+    destroy: () => {
+      if (cloak) {
+        stop();
+      }
+    },
+  };
+}
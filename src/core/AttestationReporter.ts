@@ -0,0 +1,130 @@
+/**
+ * AttestationReporter - Reports the client's DRM status to the backend
+ *
+ * The backend cannot trust `getDRMStatus()` on its own, so once a license was
+ * acquired every license token held by the provider yields a report of the
+ * detection, license acquisition and security level. Reports are signed with
+ * HMAC-SHA256 keyed with the license token: the server only accepts a report
+ * matching a token it issued to the same user, for the same content, recently.
+ */
+
+import { AttestationConfig, AttestationReport, DRMStatus, SignedAttestationReport } from '../types';
+import { CachedLicenseToken } from '../providers/base/types';
+import { DRMDetectionResult } from '../utils/drm-detection';
+import { coreLogger } from '../utils/logger';
+
+/**
+ * What the reports are built from
+ */
+export interface AttestationEvidence {
+  /** DRM status detected in the browser */
+  status: DRMStatus;
+
+  /** Capability detection result, when detection ran */
+  detection?: DRMDetectionResult;
+
+  /** License tokens held by the provider */
+  tokens: CachedLicenseToken[];
+
+  /** When the license was acquired */
+  licenseAcquiredAt: Date;
+}
+
+export class AttestationReporter {
+  constructor(private config: AttestationConfig) {}
+
+  /**
+   * Send one signed report per license token, resolving to the reports sent
+   */
+  async report(evidence: AttestationEvidence): Promise<AttestationReport[]> {
+    // Providers authorizing through URL parameters (EZDRM, ClearKey) hold no token to sign with
+    const tokens = evidence.tokens.filter(token => token.token);
+    if (tokens.length === 0) {
+      throw new Error('No license token to sign the attestation report with');
+    }
+
+    return Promise.all(tokens.map(token => this.send(this.createReport(evidence, token), token)));
+  }
+
+  private createReport(
+    { status, detection, licenseAcquiredAt }: AttestationEvidence,
+    token: CachedLicenseToken
+  ): AttestationReport {
+    return {
+      contentId: token.contentId,
+      drmType: token.drmType,
+      status: {
+        type: status.type,
+        securityLevel: status.securityLevel,
+        hardwareBacked: status.hardwareBacked,
+        provider: status.provider,
+      },
+      detection: {
+        browser: detection ? `${detection.browser.name} ${detection.browser.version}` : 'unknown',
+        platform: detection?.platform.os || 'unknown',
+        supportedDRMs: detection?.supportedDRMs || [],
+        hardwareAcceleration: status.hardwareAcceleration?.available ?? false,
+      },
+      license: {
+        acquired: true,
+        acquiredAt: licenseAcquiredAt.toISOString(),
+        tokenExpiresAt: token.expiresAt === null ? null : new Date(token.expiresAt).toISOString(),
+      },
+      reportedAt: new Date().toISOString(),
+    };
+  }
+
+  private async send(
+    report: AttestationReport,
+    token: CachedLicenseToken
+  ): Promise<AttestationReport> {
+    const payload = JSON.stringify(report);
+    const body: SignedAttestationReport = {
+      payload,
+      signature: await sign(payload, token.token),
+    };
+
+    const user = await this.config.getUserContext?.();
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers,
+        ...(user?.authorization ? { Authorization: user.authorization } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(
+        `Attestation report rejected: ${error.error || `${response.status} ${response.statusText}`}`
+      );
+    }
+
+    coreLogger.debug('Attestation report accepted for', report.contentId);
+    return report;
+  }
+}
+
+/**
+ * Base64url HMAC-SHA256 of a payload
+ */
+async function sign(payload: string, key: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign('HMAC', hmacKey, encoder.encode(payload))
+  );
+
+  return btoa(String.fromCharCode(...signature))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
@@ -5,10 +5,16 @@
  * AI vision models and screenshots from capturing sensitive content.
  */
 
-import { CloakscreenConfig, CloakscreenInstance, DRMStatus } from '../types';
+import { CloakscreenConfig, CloakscreenInstance, DRMStatus, ProtectionState } from '../types';
+import { CloakscreenEvents, DRMManagerEvents } from '../types/events';
 import { LayerManager } from './LayerManager';
 import { DRMManager } from './DRMManager';
+import { drmCoordinator } from './DRMCoordinator';
 import { ContentManager } from './ContentManager';
+import { ResizeManager } from './ResizeManager';
+import { AttestationReporter } from './AttestationReporter';
+import { ProtectionStateMachine } from './ProtectionStateMachine';
+import { fallbackRegistry, FallbackReason, FallbackStrategy } from '../fallbacks';
 import EventEmitter from '../utils/EventEmitter';
 import { validateConfig } from '../utils/validation';
 import { detectBrowserCapabilities } from '../utils/browser';
@@ -19,6 +25,12 @@ import { ErrorHandler, ErrorFactory, ErrorCode } from '../errors';
 import { coreLogger } from '../utils/logger';
 import { VERSION, API_VERSION } from '../version';
 
+/** Security levels from weakest to strongest */
+const SECURITY_LEVELS: DRMStatus['securityLevel'][] = ['unknown', 'L3', 'L2', 'L1'];
+
+/** Thrown inside a protect() attempt that unprotect() or destroy() superseded */
+class ProtectionCancelled extends Error {}
+
 /**
  * Main Cloakscreen class for content protection
  *
@@ -42,15 +54,22 @@ import { VERSION, API_VERSION } from '../version';
  *
  * // Listen for events
  * cloak.on('protected', () => logger.info('Content is now protected'));
- * cloak.on('error', (error) => logger.error('Protection failed:', error));
+ * cloak.on('error', ({ error }) => logger.error('Protection failed:', error));
  * ```
  */
-export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
+export class Cloakscreen extends EventEmitter<CloakscreenEvents> implements CloakscreenInstance {
   private config: CloakscreenConfig;
   private layerManager: LayerManager;
   private drmManager: DRMManager;
   private contentManager: ContentManager;
-  private isProtectedState: boolean = false;
+  private resizeManager: ResizeManager;
+  private attestationReporter: AttestationReporter | null;
+  private activeFallback: FallbackStrategy | null = null;
+  private stateMachine = new ProtectionStateMachine();
+  private protectTask: Promise<void> | null = null;
+  private settled: Promise<void> = Promise.resolve();
+  private protectRun: number = 0;
+  private drmReleased: boolean = false;
   private targetElement: HTMLElement;
 
   constructor(config: CloakscreenConfig) {
@@ -70,8 +89,13 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
 
     // Initialize managers
     this.layerManager = new LayerManager(this.targetElement, this.config);
-    this.drmManager = new DRMManager(this.config.provider);
+    // Regions with the same provider share one DRM manager
+    this.drmManager = drmCoordinator.acquire(this.config.provider);
     this.contentManager = new ContentManager(this.config.options);
+    this.resizeManager = new ResizeManager(this.layerManager, this.config.options);
+    this.attestationReporter = this.config.options?.attestation
+      ? new AttestationReporter(this.config.options.attestation)
+      : null;
 
     // Setup event forwarding
     this.setupEventForwarding();
@@ -83,16 +107,65 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
 
   /**
    * Protect the content by activating the three-layer DRM system
+   *
+   * Calls while an attempt is in progress share it; after a fallback or an
+   * error, or while degraded playback is recovered, calling again retries
+   * from the start.
    */
   async protect(): Promise<void> {
-    try {
-      if (this.isProtectedState) {
-        coreLogger.warn('Content is already protected');
-        return;
-      }
+    if (this.protectTask) {
+      return this.protectTask;
+    }
+
+    const state = this.stateMachine.getState();
+    if (state === 'protected') {
+      coreLogger.warn('Content is already protected');
+      return;
+    }
+
+    if (state === 'destroyed') {
+      throw ErrorFactory.configuration(
+        ErrorCode.INVALID_STATE_TRANSITION,
+        'Cloakscreen',
+        'protect',
+        { currentState: state },
+        ['Create a new Cloakscreen instance']
+      );
+    }
+
+    // A fallback from an earlier attempt gives way to the new one
+    this.revertFallback();
+
+    // Degraded protection (and its playback recovery) is replaced by the new attempt
+    if (state === 'degraded') {
+      this.teardown();
+    }
+
+    this.stateMachine.transition('loading-deps');
+    this.emit('protection-starting');
 
-      this.emit('protection-starting');
+    // An attempt cancelled by unprotect() cleans up before the next one starts
+    const run = ++this.protectRun;
+    const task: Promise<void> = this.settled
+      .then(() => this.runProtect(run))
+      .finally(() => {
+        if (this.protectTask === task) {
+          this.protectTask = null;
+        }
+      });
+
+    this.protectTask = task;
+    this.settled = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * One protect() attempt; `run` identifies it so unprotect() and destroy() can supersede it
+   */
+  private async runProtect(run: number): Promise<void> {
+    let drmTarget: HTMLElement | null = null;
 
+    try {
       // Auto-load dependencies if needed
       const deps = checkDependencies();
       if (!deps.available) {
@@ -102,6 +175,8 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
         await autoLoadDependencies();
       }
 
+      this.advance(run, 'detecting');
+
       // Check browser capabilities
       const browserCapabilities = detectBrowserCapabilities();
       if (!browserCapabilities.supportsEME) {
@@ -114,6 +189,7 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
 
       // Check hardware acceleration with more lenient requirements
       const hardwareAcceleration = await detectHardwareAcceleration();
+      this.checkpoint(run);
 
       if (!hardwareAcceleration.available) {
         coreLogger.warn('Hardware acceleration not available, proceeding with reduced security', {
@@ -138,25 +214,60 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
 
       // Initialize DRM
       await this.drmManager.initialize(hardwareAcceleration);
+      this.checkpoint(run);
       const drmStatus = this.drmManager.getStatus();
 
+      // Emitted here rather than forwarded: a shared manager only initializes once
+      this.emit('drm-ready', { status: drmStatus });
+
       if (!drmStatus.supported) {
-        await this.handleDRMFallback();
+        await this.handleDRMFallback('drm-unavailable');
+        this.advance(run, 'fallback');
+        return;
+      }
+
+      // Software CDMs let screenshots capture the text, so protection there is only cosmetic
+      const securityShortfalls = this.getSecurityShortfalls(drmStatus);
+      if (securityShortfalls.length > 0) {
+        await this.handleInsufficientSecurity(drmStatus, securityShortfalls);
+        this.advance(run, 'fallback');
         return;
       }
 
+      this.advance(run, 'licensing');
+
       // Setup layers (unless skipped)
       // Always create layers in simplified config
       await this.layerManager.createLayers();
+      this.checkpoint(run);
 
       // Initialize content
       await this.contentManager.initialize(this.layerManager);
+      this.checkpoint(run);
+
+      // Keep layers aligned with the target (also selects the initial responsive asset)
+      this.resizeManager.start();
 
       // Start DRM protection
-      const drmTarget = this.layerManager.getMiddleLayer();
-      await this.drmManager.startProtection(drmTarget);
+      drmTarget = this.layerManager.getMiddleLayer();
+      await this.drmManager.startProtection(
+        drmTarget,
+        this.resizeManager.getCurrentAsset()?.manifestUrl,
+        this.config.options?.playbackWatchdog
+      );
+      this.checkpoint(run);
+
+      // Report before 'protected' so the backend can release content once it fires
+      await this.reportAttestation();
+      this.checkpoint(run);
 
-      this.isProtectedState = true;
+      // Remote content is only requested now that the license was acquired
+      if (this.config.options?.contentUrl) {
+        await this.loadRemoteContent(this.config.options.contentUrl);
+        this.checkpoint(run);
+      }
+
+      this.advance(run, 'protected');
       this.emit('protected', { drmStatus });
 
       if (this.config.options?.debug) {
@@ -166,37 +277,62 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
         });
       }
     } catch (error) {
+      if (error instanceof ProtectionCancelled || run !== this.protectRun) {
+        // Superseded: undo what this attempt set up after unprotect() or destroy() ran
+        this.revertFallback();
+        this.teardown();
+        if (drmTarget) {
+          this.drmManager.stopProtection(drmTarget);
+        }
+        return;
+      }
+
+      // Layers created before the failure must not stay on top of the content
+      this.teardown();
+
       const cloakError = ErrorHandler.handle(error as Error, 'protect');
+      this.stateMachine.transition('error');
       this.emit('drm-error', { error: cloakError });
-      await this.handleDRMFallback();
+
+      // onInsufficientSecurity: 'throw' leaves shielding the content to the caller
+      if (cloakError.code !== ErrorCode.SECURITY_LEVEL_INSUFFICIENT) {
+        await this.handleDRMFallback('error');
+      }
+
+      if (run !== this.protectRun) {
+        this.revertFallback();
+      }
       throw cloakError;
     }
   }
 
   /**
    * Remove protection and restore normal content display
+   *
+   * Also cancels a protect() attempt in progress and reverts an active fallback.
    */
   unprotect(): void {
     try {
-      if (!this.isProtectedState) {
+      const state = this.stateMachine.getState();
+      if (state === 'idle' || state === 'destroyed') {
         coreLogger.warn('Content is not currently protected');
         return;
       }
 
-      // Stop DRM protection
-      this.drmManager.stopProtection();
+      this.cancelProtect();
 
-      // Remove layers
-      this.layerManager.removeLayers();
+      // Content shielded by a fallback is shown again (first, as fallbacks may detach the layers)
+      this.revertFallback();
+      this.teardown();
 
-      // Reset content
-      this.contentManager.reset();
+      this.stateMachine.transition('idle');
 
-      this.isProtectedState = false;
-      this.emit('unprotected');
+      if (state === 'protected' || state === 'degraded') {
+        this.emit('unprotected');
 
-      if (this.config.options?.debug) {
-        coreLogger.info('Protection removed');
+        if (this.config.options?.debug) {
+          coreLogger.info('Protection removed');
+        }
       }
     } catch (error) {
       coreLogger.error('Error during unprotect:', error);
@@ -208,12 +344,13 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
    * Update the protected content
    */
   updateContent(content: string): void {
-    if (!this.isProtectedState) {
+    // The layers stay in place while degraded playback is recovered
+    if (!this.isProtected() && this.stateMachine.getState() !== 'degraded') {
       throw ErrorFactory.configuration(
         ErrorCode.CONTENT_NOT_PROTECTED,
         'updateContent',
         'Content is not currently protected',
-        { currentState: 'not_protected' }
+        { currentState: this.stateMachine.getState() }
       );
     }
 
@@ -232,7 +369,14 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
    * Check if content is currently protected
    */
   isProtected(): boolean {
-    return this.isProtectedState;
+    return this.stateMachine.getState() === 'protected';
+  }
+
+  /**
+   * Get the lifecycle state
+   */
+  getState(): ProtectionState {
+    return this.stateMachine.getState();
   }
 
   /**
@@ -246,16 +390,25 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
    * Destroy the Cloakscreen instance and cleanup resources
    */
   destroy(): void {
+    const state = this.stateMachine.getState();
+    if (state === 'destroyed') {
+      return;
+    }
+
     try {
-      // Unprotect if currently protected
-      if (this.isProtectedState) {
+      // Unprotect if currently protected, shielded or still protecting
+      if (state !== 'idle') {
         this.unprotect();
       }
 
-      // Cleanup managers
-      this.drmManager.destroy();
+      this.stateMachine.transition('destroyed');
+
+      // Cleanup managers (the shared DRM manager survives while other regions use it)
+      this.releaseDRMManager();
       this.layerManager.destroy();
       this.contentManager.destroy();
+      this.resizeManager.destroy();
+      this.stateMachine.removeAllListeners();
 
       // Remove all event listeners
       this.removeAllListeners();
@@ -268,6 +421,46 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
     }
   }
 
+  /**
+   * Move a protect() attempt to its next state, unless it was superseded
+   */
+  private advance(run: number, to: ProtectionState): void {
+    this.checkpoint(run);
+    this.stateMachine.transition(to);
+  }
+
+  /**
+   * Stop a protect() attempt that unprotect() or destroy() superseded
+   */
+  private checkpoint(run: number): void {
+    if (run !== this.protectRun) {
+      throw new ProtectionCancelled('Protection was cancelled');
+    }
+  }
+
+  /**
+   * Supersede the protect() attempt in progress, if any
+   */
+  private cancelProtect(): void {
+    this.protectRun++;
+    this.protectTask = null;
+  }
+
+  /**
+   * Remove whatever protection is set up; safe to call at any step
+   */
+  private teardown(): void {
+    this.resizeManager.stop();
+
+    const drmTarget = this.layerManager.getMiddleLayer();
+    if (drmTarget) {
+      this.drmManager.stopProtection(drmTarget);
+    }
+
+    this.layerManager.removeLayers();
+    this.contentManager.reset();
+  }
+
   /**
    * Resolve target element from selector or HTMLElement
    */
@@ -302,43 +495,312 @@ export class Cloakscreen extends EventEmitter implements CloakscreenInstance {
    */
   private setupEventForwarding(): void {
     // Forward DRM events
-    this.drmManager.on('drm-ready', (data: any) => this.emit('drm-ready', data));
-    this.drmManager.on('drm-error', (data: any) => this.emit('drm-error', data));
+    this.drmManager.on('drm-error', this.handleSharedDRMError);
+    this.drmManager.on('provider-failover', this.handleProviderFailover);
+    this.drmManager.on('license-expiring', this.handleLicenseExpiring);
+    this.drmManager.on('license-renewed', this.handleLicenseRenewed);
+    this.drmManager.on('playback-degraded', this.handlePlaybackDegraded);
+    this.drmManager.on('playback-recovered', this.handlePlaybackRecovered);
+    this.drmManager.on('playback-recovery-failed', this.handlePlaybackRecoveryFailed);
 
     // Forward content events
-    this.contentManager.on('content-changed', (data: any) => this.emit('content-changed', data));
+    this.contentManager.on('content-changed', data => this.emit('content-changed', data));
+
+    // Forward resize events and load a better-matching asset while protected
+    this.resizeManager.on('layers-resized', data => {
+      this.contentManager.handleResize();
+      this.emit('layers-resized', data);
+    });
+    this.resizeManager.on('asset-change', data => {
+      if (!this.isProtected()) {
+        return;
+      }
+
+      const drmTarget = this.layerManager.getMiddleLayer();
+      this.drmManager.switchContent(data.asset.manifestUrl, drmTarget).catch(error => {
+        coreLogger.warn('Failed to switch responsive asset:', error);
+      });
+    });
+
+    // Forward lifecycle changes
+    this.stateMachine.on('state-change', data => this.emit('state-change', data));
 
     // Forward security events
-    this.layerManager.on('security-violation', (data: any) =>
-      this.emit('security-violation', data)
-    );
+    this.layerManager.on('security-violation', data => this.emit('security-violation', data));
   }
 
   /**
-   * Handle DRM fallback when DRM is not available
+   * Forward shared DRM errors that concern this region's video (or no video at all)
    */
-  private async handleDRMFallback(): Promise<void> {
-    const fallbackMode = this.config.options?.fallbackMode || 'blur';
-
-    this.emit('fallback-activated', { mode: fallbackMode });
-
-    switch (fallbackMode) {
-      case 'blur':
-        this.targetElement.style.filter = 'blur(10px)';
-        break;
-      case 'hide':
-        this.targetElement.style.display = 'none';
-        break;
-      case 'placeholder':
-        this.targetElement.innerHTML = '<div>Content protected - DRM not available</div>';
-        break;
-      case 'none':
-        // Do nothing - show content unprotected
-        break;
+  private handleSharedDRMError = (data: DRMManagerEvents['drm-error']): void => {
+    if (!data.video || this.ownsVideo(data.video)) {
+      this.emit('drm-error', data);
     }
+  };
 
-    if (this.config.options?.debug) {
-      coreLogger.warn(`DRM not available, using fallback: ${fallbackMode}`);
+  /**
+   * Forward failovers of the shared provider chain
+   */
+  private handleProviderFailover = (data: DRMManagerEvents['provider-failover']): void => {
+    this.emit('provider-failover', data);
+  };
+
+  /**
+   * Forward token expiry warnings of the shared provider
+   */
+  private handleLicenseExpiring = (data: DRMManagerEvents['license-expiring']): void => {
+    this.emit('license-expiring', data);
+  };
+
+  /**
+   * Forward token renewals of the shared provider
+   */
+  private handleLicenseRenewed = (data: DRMManagerEvents['license-renewed']): void => {
+    this.emit('license-renewed', data);
+
+    // The renewed token is a new issuance the backend needs a report for
+    if (this.isProtected()) {
+      void this.reportAttestation();
+    }
+  };
+
+  /**
+   * Shield the content while this region's playback is recovered
+   */
+  private handlePlaybackDegraded = (data: DRMManagerEvents['playback-degraded']): void => {
+    if (!this.ownsVideo(data.video) || !this.isProtected()) {
+      return;
+    }
+
+    this.stateMachine.transition('degraded');
+    this.emit('playback-degraded', { reason: data.reason, keyStatus: data.keyStatus });
+
+    void this.handleDRMFallback('playback-degraded');
+  };
+
+  /**
+   * Lift the fallback once this region's playback is back
+   */
+  private handlePlaybackRecovered = (data: DRMManagerEvents['playback-recovered']): void => {
+    if (!this.ownsVideo(data.video) || this.stateMachine.getState() !== 'degraded') {
+      return;
+    }
+
+    this.revertFallback();
+    this.stateMachine.transition('protected');
+    this.emit('playback-recovered', { attempts: data.attempts });
+
+    // Recovery acquired a new license token the backend needs a report for
+    void this.reportAttestation();
+  };
+
+  /**
+   * Give up on protection once recovery failed, keeping the content shielded
+   */
+  private handlePlaybackRecoveryFailed = (
+    data: DRMManagerEvents['playback-recovery-failed']
+  ): void => {
+    if (!this.ownsVideo(data.video) || this.stateMachine.getState() !== 'degraded') {
+      return;
+    }
+
+    // The fallback shields the top layer, so it moves to the target once the layers are gone
+    this.revertFallback();
+    this.teardown();
+    this.stateMachine.transition('error');
+
+    const cloakError = ErrorHandler.handle(data.error, 'DRMManager', 'recoverPlayback');
+    this.emit('playback-recovery-failed', { attempts: data.attempts, error: cloakError });
+    void this.handleDRMFallback('playback-degraded');
+  };
+
+  /**
+   * Check whether a video of the shared DRM manager belongs to this region
+   */
+  private ownsVideo(video: HTMLVideoElement): boolean {
+    return !!this.layerManager.getMiddleLayer()?.contains(video);
+  }
+
+  /**
+   * Fetch the protected content with the content token of the license
+   */
+  private async loadRemoteContent(contentUrl: string): Promise<void> {
+    const contentToken = this.drmManager
+      .getLicenseTokens()
+      .find(token => token.contentToken)?.contentToken;
+
+    if (!contentToken) {
+      throw ErrorFactory.content(
+        ErrorCode.CONTENT_LOAD_FAILED,
+        'No content token was issued with the license token',
+        'Cloakscreen',
+        ['Return a contentToken from the token endpoint (see server/api.ts)']
+      );
+    }
+
+    const response = await fetch(contentUrl, {
+      headers: { Authorization: `Bearer ${contentToken}` },
+      credentials: 'same-origin',
+    });
+
+    if (!response.ok) {
+      throw ErrorFactory.network(
+        response.status === 401 || response.status === 403
+          ? ErrorCode.UNAUTHORIZED
+          : ErrorCode.CONTENT_LOAD_FAILED,
+        `Content request failed: ${response.status} ${response.statusText}`,
+        { contentUrl, status: response.status }
+      );
+    }
+
+    this.contentManager.updateContent(await response.text());
+    this.emit('content-loaded', { contentUrl });
+  }
+
+  /**
+   * Send signed attestation reports when configured. Failures are reported
+   * through `attestation-failed` and never stop protection.
+   */
+  private async reportAttestation(): Promise<void> {
+    if (!this.attestationReporter) {
+      return;
+    }
+
+    try {
+      const reports = await this.attestationReporter.report({
+        status: this.drmManager.getStatus(),
+        detection: this.drmManager.getDetectionResult(),
+        tokens: this.drmManager.getLicenseTokens(),
+        licenseAcquiredAt: new Date(),
+      });
+      this.emit('attestation-reported', { reports });
+    } catch (error) {
+      coreLogger.warn('Attestation report failed:', error);
+      this.emit('attestation-failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Detach from the shared DRM manager exactly once
+   */
+  private releaseDRMManager(): void {
+    if (this.drmReleased) {
+      return;
+    }
+
+    this.drmReleased = true;
+    this.drmManager.off('drm-error', this.handleSharedDRMError);
+    this.drmManager.off('provider-failover', this.handleProviderFailover);
+    this.drmManager.off('license-expiring', this.handleLicenseExpiring);
+    this.drmManager.off('license-renewed', this.handleLicenseRenewed);
+    this.drmManager.off('playback-degraded', this.handlePlaybackDegraded);
+    this.drmManager.off('playback-recovered', this.handlePlaybackRecovered);
+    this.drmManager.off('playback-recovery-failed', this.handlePlaybackRecoveryFailed);
+    drmCoordinator.release(this.drmManager);
+  }
+
+  /**
+   * List the configured security requirements the detected CDM does not meet
+   */
+  private getSecurityShortfalls(drmStatus: DRMStatus): string[] {
+    const { requireSecurityLevel, requireHardwareBacked } = this.config.options || {};
+    const shortfalls: string[] = [];
+
+    if (
+      requireSecurityLevel &&
+      SECURITY_LEVELS.indexOf(drmStatus.securityLevel) <
+        SECURITY_LEVELS.indexOf(requireSecurityLevel)
+    ) {
+      shortfalls.push(
+        `Security level ${drmStatus.securityLevel} is below the required ${requireSecurityLevel}`
+      );
+    }
+
+    if (requireHardwareBacked && !drmStatus.hardwareBacked) {
+      shortfalls.push('DRM is not hardware-backed');
+    }
+
+    return shortfalls;
+  }
+
+  /**
+   * Report a CDM below the security requirements, then fall back or throw
+   */
+  private async handleInsufficientSecurity(
+    drmStatus: DRMStatus,
+    shortfalls: string[]
+  ): Promise<void> {
+    const details = {
+      required: {
+        securityLevel: this.config.options?.requireSecurityLevel,
+        hardwareBacked: this.config.options?.requireHardwareBacked ?? false,
+      },
+      detected: drmStatus,
+      reasons: shortfalls,
+    };
+
+    coreLogger.warn('DRM security requirements not met:', shortfalls);
+    this.emit('security-insufficient', details);
+
+    if (this.config.options?.onInsufficientSecurity === 'throw') {
+      throw ErrorFactory.insufficientSecurity(
+        `DRM security requirements not met: ${shortfalls.join('; ')}`,
+        details
+      );
+    }
+
+    await this.handleDRMFallback('insufficient-security');
+  }
+
+  /**
+   * Shield the content with the fallback strategy chosen for the detected security level
+   */
+  private async handleDRMFallback(reason: FallbackReason): Promise<void> {
+    const drmStatus = this.drmManager.getStatus();
+    this.revertFallback();
+
+    try {
+      const strategy = fallbackRegistry.resolve(
+        this.config.options?.fallbackMode || 'blur',
+        drmStatus.securityLevel
+      );
+
+      // Active from the start, so a revert while a custom strategy applies asynchronously counts
+      this.activeFallback = strategy;
+      await strategy.apply({
+        // Over the layers only the visible copy is shielded, so the DRM video keeps
+        // playing (while it is recovered) and the page's own nodes stay in place
+        element: this.layerManager.getTopLayer() || this.targetElement,
+        drmStatus,
+        reason,
+        // Strategies may emit events of their own, e.g. for audit trails
+        emit: (event, ...args) => this.emit(event, ...args),
+      });
+
+      if (this.activeFallback !== strategy) {
+        strategy.revert();
+        return;
+      }
+
+      this.emit('fallback-activated', { mode: strategy.name, reason });
+
+      if (this.config.options?.debug) {
+        coreLogger.warn(`DRM not available (${reason}), using fallback: ${strategy.name}`);
+      }
+    } catch (error) {
+      coreLogger.error('Fallback strategy failed:', error);
+    }
+  }
+
+  /**
+   * Undo the active fallback strategy
+   */
+  private revertFallback(): void {
+    if (this.activeFallback) {
+      this.activeFallback.revert();
+      this.activeFallback = null;
     }
   }
 }
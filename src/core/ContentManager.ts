@@ -10,15 +10,18 @@
 // ContentConfig removed - using simplified options structure
 import EventEmitter from '../utils/EventEmitter';
 import { LayerManager } from './LayerManager';
-import { TextAdapter } from '../adapters/TextAdapter';
-import { ContentAdapter } from '../adapters/ContentAdapter';
+import { ContentAdapter, adapterRegistry } from '../adapters';
+import { CloakscreenConfig } from '../types';
+import { ContentEvents } from '../types/events';
+import { coreLogger } from '../utils/logger';
 
-export class ContentManager extends EventEmitter {
-  private contentConfig: { content?: string; readOnly?: boolean } | undefined;
+export class ContentManager extends EventEmitter<ContentEvents> {
+  private contentConfig: CloakscreenConfig['options'];
   private adapter: ContentAdapter | null = null;
   private currentContent: string = '';
+  private adapterName: string | null = null;
 
-  constructor(contentConfig?: { content?: string; readOnly?: boolean }) {
+  constructor(contentConfig?: CloakscreenConfig['options']) {
     super();
     this.contentConfig = contentConfig;
   }
@@ -28,14 +31,14 @@ export class ContentManager extends EventEmitter {
    */
   async initialize(layerManager: LayerManager): Promise<void> {
     // Create appropriate adapter
-    this.adapter = this.createAdapter();
+    this.adapter = this.createAdapter(layerManager.getTargetElement());
 
     // Initialize adapter
     if (this.adapter) {
       await this.adapter.initialize(layerManager, this.contentConfig);
 
       // Setup event forwarding
-      this.adapter.on('content-changed', (data: any) => {
+      this.adapter.on('content-changed', data => {
         this.currentContent = data.content;
         this.emit('content-changed', data);
       });
@@ -59,6 +62,13 @@ export class ContentManager extends EventEmitter {
     this.adapter.updateContent(content);
   }
 
+  /**
+   * Let the adapter follow a resize of the layers
+   */
+  handleResize(): void {
+    this.adapter?.handleResize();
+  }
+
   /**
    * Get current content
    */
@@ -73,6 +83,7 @@ export class ContentManager extends EventEmitter {
     if (this.adapter) {
       this.adapter.destroy();
       this.adapter = null;
+      this.adapterName = null;
     }
 
     this.currentContent = '';
@@ -87,10 +98,24 @@ export class ContentManager extends EventEmitter {
   }
 
   /**
-   * Create appropriate content adapter based on configuration and environment
+   * Get the name of the active content adapter
    */
-  private createAdapter(): ContentAdapter | null {
-    // Always use text adapter for simplified configuration
-    return new TextAdapter();
+  getAdapterName(): string | null {
+    return this.adapterName;
+  }
+
+  /**
+   * Create appropriate content adapter based on configuration and target element
+   */
+  private createAdapter(targetElement: HTMLElement): ContentAdapter | null {
+    // Explicit adapter name wins, otherwise let registered matchers decide
+    const name = this.contentConfig?.adapter || adapterRegistry.detect(targetElement);
+
+    if (this.contentConfig?.debug) {
+      coreLogger.debug(`Using content adapter: ${name}`);
+    }
+
+    this.adapterName = name;
+    return adapterRegistry.create(name);
   }
 }
@@ -0,0 +1,119 @@
+/**
+ * DRMCoordinator - Page-level sharing of DRM sessions
+ *
+ * Protected regions using the same provider configuration share one DRMManager,
+ * so the provider, capability detection and license setup run once per page, and
+ * licenses are shared between regions where the key system allows it.
+ * Managers are reference counted and only destroyed when the last region releases them.
+ */
+
+import { DRMProviderInput } from '../types';
+import { DRMManager } from './DRMManager';
+import { drmLogger } from '../utils/logger';
+
+interface SharedSession {
+  key: string;
+  manager: DRMManager;
+  refCount: number;
+}
+
+export class DRMCoordinator {
+  private sessions = new Map<string, SharedSession>();
+  // Functions in provider configurations (request hooks etc.) are keyed by identity
+  private functionIds = new WeakMap<object, number>();
+  private nextFunctionId = 0;
+  private static instance: DRMCoordinator;
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): DRMCoordinator {
+    if (!DRMCoordinator.instance) {
+      DRMCoordinator.instance = new DRMCoordinator();
+    }
+    return DRMCoordinator.instance;
+  }
+
+  /**
+   * Get the shared manager for a provider configuration, creating it if needed
+   */
+  acquire(providerConfig: DRMProviderInput | DRMProviderInput[]): DRMManager {
+    const key = this.getKey(providerConfig);
+    let session = this.sessions.get(key);
+
+    if (!session) {
+      session = { key, manager: new DRMManager(providerConfig), refCount: 0 };
+      this.sessions.set(key, session);
+    }
+
+    session.refCount++;
+    drmLogger.debug(`Acquired shared DRM session (${session.refCount} regions)`);
+
+    return session.manager;
+  }
+
+  /**
+   * Release a manager; it is destroyed once no region uses it anymore
+   */
+  release(manager: DRMManager): void {
+    const session = Array.from(this.sessions.values()).find(entry => entry.manager === manager);
+
+    if (!session) {
+      drmLogger.warn('Released a DRM manager that is not tracked by the coordinator');
+      return;
+    }
+
+    session.refCount--;
+    drmLogger.debug(`Released shared DRM session (${session.refCount} regions)`);
+
+    if (session.refCount <= 0) {
+      this.sessions.delete(session.key);
+      session.manager.destroy();
+    }
+  }
+
+  /**
+   * Get the number of regions sharing the manager for a provider configuration
+   */
+  getRefCount(providerConfig: DRMProviderInput | DRMProviderInput[]): number {
+    return this.sessions.get(this.getKey(providerConfig))?.refCount ?? 0;
+  }
+
+  /**
+   * Get the number of active shared sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Stable key for a provider configuration
+   */
+  private getKey(providerConfig: DRMProviderInput | DRMProviderInput[]): string {
+    if (typeof providerConfig === 'string') {
+      return providerConfig;
+    }
+
+    // Functions may close over different state (e.g. the signed-in user), so equal
+    // source does not make them interchangeable
+    return JSON.stringify(providerConfig, (_key, value) =>
+      typeof value === 'function' ? `function#${this.getFunctionId(value)}` : value
+    );
+  }
+
+  /**
+   * Id of a function, the same for as long as it is referenced
+   */
+  private getFunctionId(fn: object): number {
+    let id = this.functionIds.get(fn);
+    if (id === undefined) {
+      id = ++this.nextFunctionId;
+      this.functionIds.set(fn, id);
+    }
+    return id;
+  }
+}
+
+// Export singleton instance
+export const drmCoordinator = DRMCoordinator.getInstance();
+export default drmCoordinator;
@@ -6,31 +6,95 @@
  * - License token management
  * - Video player configuration
  * - Security level detection
+ *
+ * One manager can drive several video surfaces (see DRMCoordinator). EME binds a
+ * MediaKeys session to a single media element, so each surface gets its own player,
+ * while provider setup, capability detection and status are shared. Licenses are
+ * shared per content URL: the first surface acquires it and surfaces loading the same
+ * content meanwhile wait for it. A ClearKey license is a set of keys, which the other
+ * surfaces are configured with instead of requesting it again. Other key systems bind
+ * a license to the session that requested it, so there every surface requests its own.
+ *
+ * The provider may be an ordered failover chain: when a provider fails to initialize,
+ * reports itself unhealthy or fails to acquire a license, the next one takes over and
+ * a `provider-failover` event is emitted. Surfaces already playing keep their player.
+ *
+ * Providers renew their license tokens before they expire. Surfaces keep playing in
+ * their live EME session: the provider's license request filter sends the renewed
+ * token with the session's next license request. A session whose license cannot be
+ * renewed that way ends with unusable keys, which the watchdog below recovers from.
+ *
+ * A PlaybackWatchdog watches each surface. When playback degrades, the surface gets a
+ * new player that re-acquires the license with a fresh token, retried with backoff;
+ * `playback-degraded`, `playback-recovered` and `playback-recovery-failed` report it.
  */
 
-import { DRMProviderConfig, DRMStatus, BrowserCapabilities } from '../types';
+import {
+  DRMProviderInput,
+  DRMStatus,
+  BrowserCapabilities,
+  PlaybackWatchdogOptions,
+} from '../types';
+import { DRMManagerEvents } from '../types/events';
 import EventEmitter from '../utils/EventEmitter';
 import { detectBrowserCapabilities } from '../utils/browser';
 import { createProvider } from '../providers';
 import { HardwareAccelerationStatus } from '../utils/hardware-acceleration';
 import { drmLogger } from '../utils/logger';
-import { MediaPlayer } from '../types/player';
+import { MediaPlayer, ResponseFilter } from '../types/player';
 import { DRMProvider } from '../providers/base/DRMProvider';
+import { CachedLicenseToken, LicenseTokenEvent } from '../providers/base/types';
+import type { ClearKeyLicenseResponse } from '../providers/clearkey/types';
 import { detectOptimalDRM, DRMDetectionResult, DRMType } from '../utils/drm-detection';
+import { KeySystem } from '../utils/eme';
+import {
+  PlaybackWatchdog,
+  PlaybackDegradedEvent,
+  PlaybackDegradedReason,
+  WATCHDOG_DEFAULTS,
+  getRecoveryDelay,
+} from './PlaybackWatchdog';
+
+/**
+ * Recovery of one surface's playback in progress
+ */
+interface PlaybackRecovery {
+  reason: PlaybackDegradedReason;
+  attempt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * License of one content URL, acquired by the first surface playing it
+ */
+interface SharedLicense {
+  /** Settles once the first surface acquired the license, or failed to */
+  acquired: Promise<void>;
 
-export class DRMManager extends EventEmitter {
-  private providerConfig: DRMProviderConfig | string;
+  /** ClearKey keys as hex key ID → hex key, once acquired */
+  clearKeys: Record<string, string> | null;
+}
+
+export class DRMManager extends EventEmitter<DRMManagerEvents> {
+  private providerChain: DRMProviderInput[];
+  private providerIndex = 0;
   private provider: DRMProvider | null = null;
-  private player: MediaPlayer | null = null;
-  private videoElement: HTMLVideoElement | null = null;
+  private failover: Promise<void> = Promise.resolve();
+  private players = new Map<HTMLVideoElement, MediaPlayer>();
+  private contentUrls = new Map<HTMLVideoElement, string>();
+  private watchdogOptions = new Map<HTMLVideoElement, PlaybackWatchdogOptions | false>();
+  private watchdogs = new Map<HTMLVideoElement, PlaybackWatchdog>();
+  private recoveries = new Map<HTMLVideoElement, PlaybackRecovery>();
+  private licenses = new Map<string, SharedLicense>();
+  private initialization: Promise<void> | null = null;
   private drmStatus: DRMStatus;
   private browserCapabilities: BrowserCapabilities;
   private hardwareAccelerationStatus?: HardwareAccelerationStatus;
   private drmDetectionResult?: DRMDetectionResult;
 
-  constructor(providerConfig: DRMProviderConfig | string) {
+  constructor(providerConfig: DRMProviderInput | DRMProviderInput[]) {
     super();
-    this.providerConfig = providerConfig;
+    this.providerChain = Array.isArray(providerConfig) ? providerConfig : [providerConfig];
     this.browserCapabilities = detectBrowserCapabilities();
 
     // Initialize DRM status
@@ -46,6 +110,20 @@ export class DRMManager extends EventEmitter {
    * Initialize DRM system
    */
   async initialize(hardwareAccelerationStatus?: HardwareAccelerationStatus): Promise<void> {
+    // Shared managers are initialized once for all regions
+    if (!this.initialization) {
+      this.initialization = this.runInitialization(hardwareAccelerationStatus).catch(error => {
+        this.initialization = null;
+        throw error;
+      });
+    }
+
+    return this.initialization;
+  }
+
+  private async runInitialization(
+    hardwareAccelerationStatus?: HardwareAccelerationStatus
+  ): Promise<void> {
     this.hardwareAccelerationStatus = hardwareAccelerationStatus;
     try {
       // Check browser capabilities
@@ -68,49 +146,94 @@ export class DRMManager extends EventEmitter {
   }
 
   /**
-   * Start DRM protection on video element
+   * Start DRM protection on video element, watched by a playback watchdog unless
+   * `watchdog` is false
    */
-  async startProtection(layerElement: HTMLElement | null): Promise<void> {
-    if (!layerElement) {
-      throw new Error('Layer element not provided');
+  async startProtection(
+    layerElement: HTMLElement | null,
+    contentUrl?: string,
+    watchdog: PlaybackWatchdogOptions | false = {}
+  ): Promise<void> {
+    const videoElement = this.resolveVideoElement(layerElement);
+
+    if (this.players.has(videoElement)) {
+      return;
     }
 
-    // Check if the element IS a video element, or find video inside it
-    if (layerElement.tagName.toLowerCase() === 'video') {
-      this.videoElement = layerElement as HTMLVideoElement;
-    } else {
-      this.videoElement = layerElement.querySelector('video') as HTMLVideoElement;
-    }
+    // Initialize Shaka Player
+    const player = await this.initializePlayer(videoElement);
+    this.players.set(videoElement, player);
+    this.watchdogOptions.set(videoElement, watchdog);
+    const provider = this.provider;
 
-    if (!this.videoElement) {
-      throw new Error('Video element not found');
+    try {
+      // Configure DRM
+      await this.configureDRM(player);
+
+      // Load protected content (acquires the license)
+      await this.loadProtectedContent(player, videoElement, contentUrl);
+      this.watchPlayback(videoElement, player);
+    } catch (error) {
+      this.stopProtection(videoElement);
+
+      if (await this.failOver(provider, error)) {
+        return this.startProtection(layerElement, contentUrl, watchdog);
+      }
+      throw error;
     }
+  }
 
-    // Initialize Shaka Player
-    await this.initializePlayer();
+  /**
+   * Load a different protected asset into the running player
+   */
+  async switchContent(contentUrl: string, layerElement: HTMLElement | null): Promise<void> {
+    const videoElement = this.resolveVideoElement(layerElement);
+    const player = this.players.get(videoElement);
 
-    // Configure DRM
-    await this.configureDRM();
+    if (!player) {
+      throw new Error('Player not initialized');
+    }
 
-    // Load protected content
-    await this.loadProtectedContent();
+    drmLogger.info('Switching protected content:', contentUrl);
+    await this.withoutWatchdog(videoElement, player, () =>
+      this.loadProtectedContent(player, videoElement, contentUrl)
+    );
   }
 
   /**
-   * Stop DRM protection
+   * Stop DRM protection on one video surface, or on all of them
    */
-  stopProtection(): void {
-    if (this.player) {
-      this.player.destroy();
-      this.player = null;
-    }
+  stopProtection(layerElement?: HTMLElement | null): void {
+    const videoElements = layerElement
+      ? [this.resolveVideoElement(layerElement)]
+      : this.getSurfaces();
+
+    videoElements.forEach(videoElement => {
+      this.unwatchPlayback(videoElement);
+      this.cancelRecovery(videoElement);
+
+      const player = this.players.get(videoElement);
+      if (player) {
+        player.destroy();
+        this.players.delete(videoElement);
+      }
+      this.contentUrls.delete(videoElement);
+      this.watchdogOptions.delete(videoElement);
+      videoElement.src = '';
+    });
 
-    if (this.videoElement) {
-      this.videoElement.src = '';
-      this.videoElement = null;
+    if (this.players.size === 0) {
+      this.licenses.clear();
     }
   }
 
+  /**
+   * Get the number of video surfaces currently protected
+   */
+  getSurfaceCount(): number {
+    return this.getSurfaces().length;
+  }
+
   /**
    * Get current DRM status
    */
@@ -129,6 +252,20 @@ export class DRMManager extends EventEmitter {
     return { ...this.drmStatus };
   }
 
+  /**
+   * Get the license tokens held by the active provider
+   */
+  getLicenseTokens(): CachedLicenseToken[] {
+    return this.provider?.getLicenseTokens() ?? [];
+  }
+
+  /**
+   * Get the result of the last DRM capability detection
+   */
+  getDetectionResult(): DRMDetectionResult | undefined {
+    return this.drmDetectionResult;
+  }
+
   /**
    * Destroy DRM manager
    */
@@ -143,19 +280,289 @@ export class DRMManager extends EventEmitter {
   }
 
   /**
-   * Initialize DRM provider
+   * Initialize the first working provider of the chain, starting at `startIndex`
+   */
+  private async initializeProvider(startIndex = 0): Promise<void> {
+    let lastError: unknown = new Error('No DRM provider configured');
+
+    for (let index = startIndex; index < this.providerChain.length; index++) {
+      const hasFallback = index < this.providerChain.length - 1;
+      let provider: DRMProvider | null = null;
+
+      try {
+        // Use provider factory to create the appropriate provider
+        provider = createProvider(this.providerChain[index]);
+
+        if (provider.initialize) {
+          await provider.initialize();
+        }
+
+        // Health checks cost requests, so they only run when there is a provider to fail over to
+        if (hasFallback) {
+          const health = await provider.getHealthStatus();
+          if (health.status === 'error') {
+            throw new Error(health.error || 'Provider reported an unhealthy status');
+          }
+        }
+
+        provider.on('license-expiring', this.handleLicenseExpiring);
+        provider.on('license-renewed', this.handleLicenseRenewed);
+
+        this.provider = provider;
+        this.providerIndex = index;
+        this.drmStatus.provider = provider.getName();
+        return;
+      } catch (error) {
+        drmLogger.error(
+          `Failed to initialize DRM provider ${getProviderName(this.providerChain[index])}:`,
+          error
+        );
+        provider?.destroy();
+        lastError = error;
+
+        if (hasFallback) {
+          this.emitFailover(index, error);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Move on from a provider that failed to protect a surface.
+   * Resolves to true when another provider is ready to retry with.
+   */
+  private async failOver(failedProvider: DRMProvider | null, error: unknown): Promise<boolean> {
+    if (failedProvider !== this.provider) {
+      // Another surface already moved past this provider
+      await this.failover.catch(() => undefined);
+      return this.provider !== null;
+    }
+
+    if (this.providerIndex >= this.providerChain.length - 1) {
+      return false;
+    }
+
+    this.emitFailover(this.providerIndex, error);
+    failedProvider?.destroy();
+    this.provider = null;
+    this.licenses.clear();
+
+    this.failover = this.initializeProvider(this.providerIndex + 1).then(() =>
+      this.detectDRMCapabilities()
+    );
+    await this.failover;
+
+    return true;
+  }
+
+  /**
+   * Report that the provider at `index` failed and the next one is tried
+   */
+  private emitFailover(index: number, error: unknown): void {
+    const from = getProviderName(this.providerChain[index]);
+    const to = getProviderName(this.providerChain[index + 1]);
+
+    drmLogger.warn(`DRM provider ${from} failed, failing over to ${to}`);
+    this.emit('provider-failover', {
+      from,
+      to,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  /**
+   * Forward upcoming token expiry of the active provider
+   */
+  private handleLicenseExpiring = (event: LicenseTokenEvent): void => {
+    this.emit('license-expiring', event);
+  };
+
+  /**
+   * Forward token renewals of the active provider. Playing surfaces are left alone,
+   * as reloading them would empty the video; their sessions renew with the new token.
+   */
+  private handleLicenseRenewed = (event: LicenseTokenEvent): void => {
+    // Surfaces started from now on acquire a license with the renewed token
+    this.licenses.clear();
+    this.emit('license-renewed', event);
+  };
+
+  /**
+   * Surfaces with a player, or without one while their playback is recovered
+   */
+  private getSurfaces(): HTMLVideoElement[] {
+    return Array.from(new Set([...this.players.keys(), ...this.recoveries.keys()]));
+  }
+
+  /**
+   * Watch a surface's playback, unless its watchdog is disabled
+   */
+  private watchPlayback(videoElement: HTMLVideoElement, player: MediaPlayer): void {
+    const options = this.watchdogOptions.get(videoElement);
+    if (options === false) {
+      return;
+    }
+
+    this.unwatchPlayback(videoElement);
+
+    const watchdog = new PlaybackWatchdog(videoElement, player, options);
+    watchdog.on('degraded', event => this.handlePlaybackDegraded(videoElement, event));
+    watchdog.start();
+    this.watchdogs.set(videoElement, watchdog);
+  }
+
+  private unwatchPlayback(videoElement: HTMLVideoElement): void {
+    const watchdog = this.watchdogs.get(videoElement);
+    if (watchdog) {
+      watchdog.stop();
+      watchdog.removeAllListeners();
+      this.watchdogs.delete(videoElement);
+    }
+  }
+
+  /**
+   * Reload a surface with its watchdog paused, as loading empties the video
    */
-  private async initializeProvider(): Promise<void> {
+  private async withoutWatchdog(
+    videoElement: HTMLVideoElement,
+    player: MediaPlayer,
+    load: () => Promise<void>
+  ): Promise<void> {
+    const watched = this.watchdogs.has(videoElement);
+    this.unwatchPlayback(videoElement);
+
+    try {
+      await load();
+    } finally {
+      if (watched && this.players.get(videoElement) === player) {
+        this.watchPlayback(videoElement, player);
+      }
+    }
+  }
+
+  /**
+   * Start recovering a surface whose playback stopped protecting it
+   */
+  private handlePlaybackDegraded(
+    videoElement: HTMLVideoElement,
+    { reason, keyStatus }: PlaybackDegradedEvent
+  ): void {
+    this.unwatchPlayback(videoElement);
+
+    if (this.recoveries.has(videoElement) || !this.players.has(videoElement)) {
+      return;
+    }
+
+    drmLogger.warn(`Protected playback degraded (${reason}), recovering`, { keyStatus });
+    this.emit('playback-degraded', { video: videoElement, reason, keyStatus });
+
+    const recovery: PlaybackRecovery = { reason, attempt: 0, timer: null };
+    this.recoveries.set(videoElement, recovery);
+    this.scheduleRecovery(videoElement, recovery);
+  }
+
+  private scheduleRecovery(videoElement: HTMLVideoElement, recovery: PlaybackRecovery): void {
+    recovery.attempt++;
+
+    const options = this.watchdogOptions.get(videoElement) || {};
+    recovery.timer = setTimeout(
+      () => {
+        recovery.timer = null;
+        void this.recoverPlayback(videoElement, recovery);
+      },
+      getRecoveryDelay(recovery.attempt, options)
+    );
+  }
+
+  private cancelRecovery(videoElement: HTMLVideoElement): void {
+    const recovery = this.recoveries.get(videoElement);
+    if (recovery) {
+      if (recovery.timer !== null) {
+        clearTimeout(recovery.timer);
+      }
+      this.recoveries.delete(videoElement);
+    }
+  }
+
+  /**
+   * Replace a surface's player so the license is acquired again with a fresh token
+   */
+  private async recoverPlayback(
+    videoElement: HTMLVideoElement,
+    recovery: PlaybackRecovery
+  ): Promise<void> {
+    const isCurrent = () => this.recoveries.get(videoElement) === recovery;
+    const position = videoElement.currentTime;
+    const paused = videoElement.paused;
+
+    this.players.get(videoElement)?.destroy();
+    this.players.delete(videoElement);
+
+    // Only registered once it plays, so a stopped or failed attempt must destroy it
+    let player: MediaPlayer | null = null;
+
     try {
-      // Use provider factory to create the appropriate provider
-      this.provider = createProvider(this.providerConfig);
+      const provider = this.provider;
+      if (!provider) {
+        throw new Error('No DRM provider available to recover playback');
+      }
+
+      // A revoked or expired token (or license) would only be rejected again
+      provider.invalidateLicenseTokens();
+      this.licenses.clear();
+
+      player = await this.initializePlayer(videoElement);
+      await this.configureDRM(player);
+      if (!isCurrent()) {
+        player.destroy();
+        return;
+      }
+
+      const contentUrl = this.contentUrls.get(videoElement) || (await provider.getContentUrl());
+      await player.load(contentUrl, position);
+      if (!isCurrent()) {
+        player.destroy();
+        return;
+      }
+      this.players.set(videoElement, player);
+      this.contentUrls.set(videoElement, contentUrl);
 
-      if (this.provider.initialize) {
-        await this.provider.initialize();
+      if (!paused) {
+        videoElement.play().catch(error => {
+          drmLogger.warn('Autoplay prevented:', error);
+        });
       }
+
+      this.recoveries.delete(videoElement);
+      this.watchPlayback(videoElement, player);
+
+      drmLogger.info(`Protected playback recovered after ${recovery.attempt} attempt(s)`);
+      this.emit('playback-recovered', { video: videoElement, attempts: recovery.attempt });
     } catch (error) {
-      drmLogger.error('Failed to initialize DRM provider:', error);
-      throw error;
+      player?.destroy();
+
+      // Stopped while recovering
+      if (!isCurrent()) {
+        return;
+      }
+
+      const { maxAttempts } = { ...WATCHDOG_DEFAULTS, ...this.watchdogOptions.get(videoElement) };
+      if (recovery.attempt < maxAttempts) {
+        drmLogger.warn(`Playback recovery attempt ${recovery.attempt} failed:`, error);
+        this.scheduleRecovery(videoElement, recovery);
+        return;
+      }
+
+      drmLogger.error('Playback recovery failed:', error);
+      this.recoveries.delete(videoElement);
+      this.emit('playback-recovery-failed', {
+        video: videoElement,
+        reason: recovery.reason,
+        attempts: recovery.attempt,
+        error,
+      });
     }
   }
 
@@ -172,9 +579,16 @@ export class DRMManager extends EventEmitter {
       }
 
       // Map detection result to DRM status
-      this.drmStatus.type = this.mapDRMType(this.drmDetectionResult.primaryDRM);
-      this.drmStatus.securityLevel = this.mapSecurityLevel(this.drmDetectionResult.security);
-      this.drmStatus.hardwareBacked = this.drmDetectionResult.security.hardwareSecurityAvailable;
+      if (this.isClearKeyOnly()) {
+        // ClearKey decrypts in software regardless of what else the browser supports
+        this.drmStatus.type = 'clearkey';
+        this.drmStatus.securityLevel = 'unknown';
+        this.drmStatus.hardwareBacked = false;
+      } else {
+        this.drmStatus.type = this.mapDRMType(this.drmDetectionResult.primaryDRM);
+        this.drmStatus.securityLevel = this.mapSecurityLevel(this.drmDetectionResult.security);
+        this.drmStatus.hardwareBacked = this.drmDetectionResult.security.hardwareSecurityAvailable;
+      }
       this.drmStatus.supported = true;
 
       // Log detection results for debugging
@@ -200,7 +614,7 @@ export class DRMManager extends EventEmitter {
   /**
    * Map DRM detection type to status type
    */
-  private mapDRMType(detectedType: DRMType): 'widevine' | 'playready' | 'fairplay' | 'none' {
+  private mapDRMType(detectedType: DRMType): DRMStatus['type'] {
     switch (detectedType) {
       case 'widevine':
         return 'widevine';
@@ -209,13 +623,21 @@ export class DRMManager extends EventEmitter {
       case 'fairplay':
         return 'fairplay';
       case 'clearkey':
-        return 'none'; // ClearKey is not a production DRM
+        return 'clearkey'; // Development only, offers no real protection
       case 'none':
       default:
         return 'none';
     }
   }
 
+  /**
+   * Check whether the provider only speaks ClearKey
+   */
+  private isClearKeyOnly(): boolean {
+    const keySystems = this.provider?.getCapabilities().keySystems ?? [];
+    return keySystems.length > 0 && keySystems.every(keySystem => keySystem === KeySystem.CLEARKEY);
+  }
+
   /**
    * Map security capabilities to security level
    */
@@ -245,13 +667,30 @@ export class DRMManager extends EventEmitter {
   // Widevine security level detection now handled by the EME module
 
   /**
-   * Initialize Shaka Player
+   * Find the video element in (or equal to) a layer element
    */
-  private async initializePlayer(): Promise<void> {
-    if (!this.videoElement) {
-      throw new Error('Video element not available');
+  private resolveVideoElement(layerElement: HTMLElement | null | undefined): HTMLVideoElement {
+    if (!layerElement) {
+      throw new Error('Layer element not provided');
+    }
+
+    // Check if the element IS a video element, or find video inside it
+    const videoElement =
+      layerElement.tagName.toLowerCase() === 'video'
+        ? (layerElement as HTMLVideoElement)
+        : layerElement.querySelector('video');
+
+    if (!videoElement) {
+      throw new Error('Video element not found');
     }
 
+    return videoElement;
+  }
+
+  /**
+   * Initialize Shaka Player
+   */
+  private async initializePlayer(videoElement: HTMLVideoElement): Promise<MediaPlayer> {
     // Check if Shaka Player is available
     if (typeof (window as any).shaka === 'undefined') {
       throw new Error('Shaka Player not loaded');
@@ -266,52 +705,126 @@ export class DRMManager extends EventEmitter {
     }
 
     // Create player instance
-    this.player = new (window as any).shaka.Player(this.videoElement);
+    const player: MediaPlayer = new (window as any).shaka.Player(videoElement);
 
-    // Setup error handling
-    if (this.player) {
-      this.player.addEventListener('error', event => {
-        this.emit('drm-error', { error: event.detail });
-      });
-    }
+    // Setup error handling (the video tells shared listeners which region failed)
+    player.addEventListener('error', event => {
+      this.emit('drm-error', { error: event.detail, video: videoElement });
+    });
+
+    return player;
   }
 
   /**
    * Configure DRM settings
    */
-  private async configureDRM(): Promise<void> {
-    if (!this.player || !this.provider) {
+  private async configureDRM(player: MediaPlayer): Promise<void> {
+    if (!this.provider) {
       throw new Error('Player or provider not initialized');
     }
 
     // Use the provider's configurePlayer method instead of our own broken config
     if (this.provider.configurePlayer) {
-      await this.provider.configurePlayer(this.player);
+      await this.provider.configurePlayer(player);
     } else {
       throw new Error('Provider does not support player configuration');
     }
   }
 
+  /**
+   * Load content on a surface with the license of the first surface that loaded it
+   */
+  private async loadWithSharedLicense(player: MediaPlayer, contentUrl: string): Promise<void> {
+    // Only ClearKey licenses can be used by another session
+    if (this.drmStatus.type !== 'clearkey') {
+      return player.load(contentUrl);
+    }
+
+    const shared = this.licenses.get(contentUrl);
+    if (shared) {
+      // Without the keys (e.g. the first surface failed) the surface requests its own license
+      await shared.acquired.catch(() => undefined);
+      if (shared.clearKeys) {
+        player.configure({ drm: { clearKeys: shared.clearKeys } });
+      }
+      return player.load(contentUrl);
+    }
+
+    const license: SharedLicense = { acquired: Promise.resolve(), clearKeys: null };
+    const networkingEngine = player.getNetworkingEngine();
+    const captureLicense: ResponseFilter = (type, response) => {
+      if (type === (window as any).shaka.net.NetworkingEngine.RequestType.LICENSE) {
+        license.clearKeys = parseClearKeyLicense(response.data) ?? license.clearKeys;
+      }
+    };
+
+    networkingEngine.registerResponseFilter(captureLicense);
+    license.acquired = player
+      .load(contentUrl)
+      .finally(() => networkingEngine.unregisterResponseFilter(captureLicense));
+    this.licenses.set(contentUrl, license);
+
+    try {
+      await license.acquired;
+    } catch (error) {
+      if (this.licenses.get(contentUrl) === license) {
+        this.licenses.delete(contentUrl);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Load protected content
    */
-  private async loadProtectedContent(): Promise<void> {
-    if (!this.player || !this.provider) {
+  private async loadProtectedContent(
+    player: MediaPlayer,
+    videoElement: HTMLVideoElement,
+    assetUrl?: string
+  ): Promise<void> {
+    if (!this.provider) {
       throw new Error('Player or provider not initialized');
     }
 
-    // Get content URL from provider
-    const contentUrl = await this.provider.getContentUrl();
+    // Get content URL from provider unless a responsive asset was selected
+    const contentUrl = assetUrl || (await this.provider.getContentUrl());
 
-    // Load manifest
-    await this.player.load(contentUrl);
+    // Load manifest (acquires the license, unless another surface shares it)
+    await this.loadWithSharedLicense(player, contentUrl);
+    this.contentUrls.set(videoElement, contentUrl);
 
     // Start playback (gracefully handle autoplay restrictions)
-    if (this.videoElement) {
-      this.videoElement.play().catch(error => {
-        drmLogger.warn('Autoplay prevented:', error);
-        // This is expected behavior in modern browsers - not an error
-      });
-    }
+    videoElement.play().catch(error => {
+      drmLogger.warn('Autoplay prevented:', error);
+      // This is expected behavior in modern browsers - not an error
+    });
   }
 }
+
+/**
+ * Hex keys of a ClearKey license response, or null when it is not one
+ */
+function parseClearKeyLicense(data: ArrayBuffer): Record<string, string> | null {
+  try {
+    const license: ClearKeyLicenseResponse = JSON.parse(new TextDecoder().decode(data));
+    const keys: Record<string, string> = {};
+    license.keys.forEach(({ kid, k }) => {
+      keys[base64UrlToHex(kid)] = base64UrlToHex(k);
+    });
+    return Object.keys(keys).length > 0 ? keys : null;
+  } catch {
+    return null;
+  }
+}
+
+function base64UrlToHex(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Array.from(binary, char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Provider name of a chain entry
+ */
+function getProviderName(providerConfig: DRMProviderInput): string {
+  return typeof providerConfig === 'string' ? providerConfig : providerConfig.name || 'pallycon';
+}
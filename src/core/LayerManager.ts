@@ -8,16 +8,24 @@
  */
 
 import { CloakscreenConfig } from '../types';
+import { LayerManagerEvents } from '../types/events';
 import EventEmitter from '../utils/EventEmitter';
 import { coreLogger } from '../utils/logger';
+import { DOMSnapshot } from '../utils/DOMSnapshot';
 
-export class LayerManager extends EventEmitter {
+// Counter for unique DRM video ids when several regions are protected on one page
+let videoCounter = 0;
+
+export class LayerManager extends EventEmitter<LayerManagerEvents> {
   private targetElement: HTMLElement;
   private config: CloakscreenConfig;
   private containerElement: HTMLElement | null = null;
   private topLayer: HTMLElement | null = null;
   private middleLayer: HTMLElement | null = null;
   private bottomLayer: HTMLElement | null = null;
+  private scrollOrigin = { top: 0, left: 0 };
+  // Inline styles of the target and its children from before the layers were created
+  private snapshot = new DOMSnapshot();
   // Note: originalContent removed as we now preserve DOM elements directly
 
   constructor(targetElement: HTMLElement, config: CloakscreenConfig) {
@@ -86,7 +94,7 @@ export class LayerManager extends EventEmitter {
     const originalElements = Array.from(this.targetElement.children);
     originalElements.forEach(child => {
       if (!child.classList.contains('cloakscreen-container')) {
-        (child as HTMLElement).style.visibility = 'hidden';
+        this.hideOriginalElement(child as HTMLElement);
       }
     });
 
@@ -103,15 +111,24 @@ export class LayerManager extends EventEmitter {
     // Also add a small border or padding to create a new block formatting context
     // This prevents margin collapse from affecting our container positioning
     if (getComputedStyle(this.targetElement).position === 'static') {
-      this.targetElement.style.position = 'relative';
+      this.snapshot.setStyle(this.targetElement, 'position', 'relative');
     }
 
     // Create a new block formatting context to prevent margin collapse issues
     const currentOverflow = getComputedStyle(this.targetElement).overflow;
     if (currentOverflow === 'visible') {
-      this.targetElement.style.overflow = 'hidden';
+      this.snapshot.setStyle(this.targetElement, 'overflow', 'hidden');
     }
 
+    // Scrolling moves into the top layer, so the target itself must stay at the origin
+    // or the absolutely positioned container would be offset by its scroll position
+    this.scrollOrigin = {
+      top: this.targetElement.scrollTop,
+      left: this.targetElement.scrollLeft,
+    };
+    this.targetElement.scrollTop = 0;
+    this.targetElement.scrollLeft = 0;
+
     this.targetElement.appendChild(this.containerElement);
   }
 
@@ -124,20 +141,29 @@ export class LayerManager extends EventEmitter {
    */
   removeLayers(): void {
     if (this.containerElement && this.targetElement.contains(this.containerElement)) {
+      // Hand the reading position back to the target
+      const scrollTop = this.topLayer?.scrollTop ?? 0;
+      const scrollLeft = this.topLayer?.scrollLeft ?? 0;
+
       this.targetElement.removeChild(this.containerElement);
 
-      // Restore original element visibility
-      const originalElements = Array.from(this.targetElement.children);
-      originalElements.forEach(child => {
-        if (!child.classList.contains('cloakscreen-container')) {
-          (child as HTMLElement).style.visibility = '';
-        }
-      });
+      // Restore the exact inline styles of the target and the original content
+      this.snapshot.restore();
+
+      this.targetElement.scrollTop = scrollTop;
+      this.targetElement.scrollLeft = scrollLeft;
     }
 
     this.cleanup();
   }
 
+  /**
+   * Hide an original element while keeping its layout space; undone by removeLayers()
+   */
+  hideOriginalElement(element: HTMLElement): void {
+    this.snapshot.setStyle(element, 'visibility', 'hidden');
+  }
+
   /**
    * Get the target element
    */
@@ -145,6 +171,13 @@ export class LayerManager extends EventEmitter {
     return this.targetElement;
   }
 
+  /**
+   * Get the target's scroll position from before the layers were created
+   */
+  getScrollOrigin(): { top: number; left: number } {
+    return { ...this.scrollOrigin };
+  }
+
   /**
    * Get the top layer element
    */
@@ -166,6 +199,34 @@ export class LayerManager extends EventEmitter {
     return this.bottomLayer;
   }
 
+  /**
+   * Resize the layers and re-fit the DRM video to the given pixel size
+   */
+  resizeLayers(width: number, height: number): void {
+    if (!this.containerElement) {
+      return;
+    }
+
+    this.containerElement.style.width = `${width}px`;
+    this.containerElement.style.height = `${height}px`;
+
+    const video = this.middleLayer?.querySelector('video');
+    if (video) {
+      video.style.width = `${width}px`;
+      video.style.height = `${height}px`;
+    }
+  }
+
+  /**
+   * Align the bottom layer's scroll position with the top layer
+   */
+  syncLayerScroll(): void {
+    if (this.topLayer && this.bottomLayer) {
+      this.bottomLayer.scrollTop = this.topLayer.scrollTop;
+      this.bottomLayer.scrollLeft = this.topLayer.scrollLeft;
+    }
+  }
+
   /**
    * Update layer content
    */
@@ -206,10 +267,13 @@ export class LayerManager extends EventEmitter {
     const layer = document.createElement('div');
     layer.className = 'cloakscreen-layer cloakscreen-top-layer';
 
+    // Long content scrolls inside the top layer; the bottom layer follows it.
+    // Both layers being scroll containers keeps position: sticky children aligned.
     this.applyLayerStyles(layer, {
       zIndex: 3,
       opacity: 1,
       visible: true,
+      styles: { overflow: 'auto' },
     });
 
     return layer;
@@ -224,7 +288,8 @@ export class LayerManager extends EventEmitter {
 
     // Create video element for DRM protection
     const video = document.createElement('video');
-    video.id = 'cloakscreen-drm-video';
+    video.id = `cloakscreen-drm-video-${++videoCounter}`;
+    video.className = 'cloakscreen-drm-video';
     video.setAttribute('loop', 'true');
     video.setAttribute('muted', 'true');
     video.setAttribute('autoplay', 'true');
@@ -239,10 +304,12 @@ export class LayerManager extends EventEmitter {
 
     layer.appendChild(video);
 
+    // Never scrolls, so the video stays fixed over the visible area
     this.applyLayerStyles(layer, {
       zIndex: 2,
       opacity: 1,
       visible: true,
+      styles: { overflow: 'hidden' },
     });
 
     return layer;
@@ -255,10 +322,12 @@ export class LayerManager extends EventEmitter {
     const layer = document.createElement('div');
     layer.className = 'cloakscreen-layer cloakscreen-bottom-layer';
 
+    // Same overflow as the top layer so both reserve identical scrollbar space
     this.applyLayerStyles(layer, {
       zIndex: 1,
       opacity: 1,
       visible: true,
+      styles: { overflow: 'auto' },
     });
 
     return layer;
@@ -0,0 +1,155 @@
+/**
+ * PlaybackWatchdog - Detects when a protected video stops protecting
+ *
+ * A backgrounded tab, a GPU reset, a closed key session or a revoked license
+ * leave the middle layer blank, which makes the text capturable again. The
+ * watchdog reports playback as degraded once, when:
+ * - playback made no progress (`timeupdate`) for `stallTimeout` while it
+ *   should be playing, including after `waiting`
+ * - the video was `emptied`
+ * - a key became unusable (the sessions' `keystatuseschange`, which Shaka
+ *   surfaces as `keystatuschanged`)
+ *
+ * Recovery is up to the owner (see DRMManager), which replaces the watchdog
+ * along with the player.
+ */
+
+import { PlaybackWatchdogOptions } from '../types';
+import { MediaPlayer } from '../types/player';
+import EventEmitter from '../utils/EventEmitter';
+
+/**
+ * Why playback counts as degraded
+ */
+export type PlaybackDegradedReason = 'stalled' | 'waiting' | 'emptied' | 'key-status';
+
+/**
+ * Payload of the `degraded` event
+ */
+export interface PlaybackDegradedEvent {
+  reason: PlaybackDegradedReason;
+
+  /** Unusable key status, for `key-status` */
+  keyStatus?: string;
+}
+
+export const WATCHDOG_DEFAULTS: Required<PlaybackWatchdogOptions> = {
+  stallTimeout: 5000,
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 30000,
+};
+
+/** Key statuses that leave the video without a picture */
+const UNUSABLE_KEY_STATUSES = ['expired', 'released', 'internal-error', 'output-restricted'];
+
+/**
+ * Delay before a recovery attempt (1-based): exponential, capped at `maxDelay`
+ */
+export function getRecoveryDelay(attempt: number, options: PlaybackWatchdogOptions = {}): number {
+  const { initialDelay, maxDelay } = { ...WATCHDOG_DEFAULTS, ...options };
+  return Math.min(initialDelay * 2 ** (attempt - 1), maxDelay);
+}
+
+export class PlaybackWatchdog extends EventEmitter<{ degraded: PlaybackDegradedEvent }> {
+  private stallTimeout: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastProgress = 0;
+  private lastTime = 0;
+  private waiting = false;
+  private degraded = false;
+
+  constructor(
+    private videoElement: HTMLVideoElement,
+    private player: MediaPlayer,
+    options: PlaybackWatchdogOptions = {}
+  ) {
+    super();
+    this.stallTimeout = options.stallTimeout ?? WATCHDOG_DEFAULTS.stallTimeout;
+  }
+
+  /**
+   * Start watching the video
+   */
+  start(): void {
+    this.stop();
+
+    this.degraded = false;
+    this.waiting = false;
+    this.lastTime = this.videoElement.currentTime;
+    this.lastProgress = Date.now();
+
+    this.videoElement.addEventListener('timeupdate', this.handleTimeUpdate);
+    this.videoElement.addEventListener('waiting', this.handleWaiting);
+    this.videoElement.addEventListener('emptied', this.handleEmptied);
+    this.player.addEventListener('keystatuschanged', this.handleKeyStatusChange);
+
+    // Checked at a quarter of the timeout so a stall is noticed soon after it is one
+    this.timer = setInterval(() => this.checkProgress(), Math.max(this.stallTimeout / 4, 50));
+  }
+
+  /**
+   * Stop watching the video
+   */
+  stop(): void {
+    if (this.timer === null) {
+      return;
+    }
+
+    clearInterval(this.timer);
+    this.timer = null;
+
+    this.videoElement.removeEventListener('timeupdate', this.handleTimeUpdate);
+    this.videoElement.removeEventListener('waiting', this.handleWaiting);
+    this.videoElement.removeEventListener('emptied', this.handleEmptied);
+    this.player.removeEventListener('keystatuschanged', this.handleKeyStatusChange);
+  }
+
+  private handleTimeUpdate = (): void => {
+    if (this.videoElement.currentTime !== this.lastTime) {
+      this.lastTime = this.videoElement.currentTime;
+      this.lastProgress = Date.now();
+      this.waiting = false;
+    }
+  };
+
+  private handleWaiting = (): void => {
+    this.waiting = true;
+  };
+
+  private handleEmptied = (): void => {
+    this.degrade({ reason: 'emptied' });
+  };
+
+  private handleKeyStatusChange = (): void => {
+    const statuses = Object.values(this.player.getKeyStatuses?.() ?? {});
+    const keyStatus = statuses.find(status => UNUSABLE_KEY_STATUSES.includes(status));
+
+    if (keyStatus) {
+      this.degrade({ reason: 'key-status', keyStatus });
+    }
+  };
+
+  private checkProgress(): void {
+    // Hidden pages cannot be captured and throttle playback, and paused videos
+    // (e.g. autoplay prevented) still show their frame
+    if (document.hidden || (this.videoElement.paused && !this.waiting)) {
+      this.lastProgress = Date.now();
+      return;
+    }
+
+    if (Date.now() - this.lastProgress >= this.stallTimeout) {
+      this.degrade({ reason: this.waiting ? 'waiting' : 'stalled' });
+    }
+  }
+
+  private degrade(event: PlaybackDegradedEvent): void {
+    if (this.degraded) {
+      return;
+    }
+
+    this.degraded = true;
+    this.stop();
+    this.emit('degraded', event);
+  }
+}
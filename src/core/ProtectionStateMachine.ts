@@ -0,0 +1,63 @@
+/**
+ * ProtectionStateMachine - Lifecycle state of a Cloakscreen instance
+ *
+ * Every state lists the states it may move to, so a stale or out-of-order
+ * step (a protect() attempt finishing after unprotect(), anything after
+ * destroy()) fails loudly instead of leaving the instance half protected.
+ */
+
+import { ProtectionState, ProtectionStateChange } from '../types';
+import EventEmitter from '../utils/EventEmitter';
+import { ErrorFactory, ErrorCode } from '../errors';
+
+const TRANSITIONS: Record<ProtectionState, ProtectionState[]> = {
+  idle: ['loading-deps', 'destroyed'],
+  'loading-deps': ['detecting', 'idle', 'error', 'destroyed'],
+  detecting: ['licensing', 'fallback', 'idle', 'error', 'destroyed'],
+  licensing: ['protected', 'idle', 'error', 'destroyed'],
+  protected: ['degraded', 'idle', 'destroyed'],
+  degraded: ['protected', 'loading-deps', 'error', 'idle', 'destroyed'],
+  fallback: ['loading-deps', 'idle', 'destroyed'],
+  error: ['loading-deps', 'idle', 'destroyed'],
+  destroyed: [],
+};
+
+export class ProtectionStateMachine extends EventEmitter<{
+  'state-change': ProtectionStateChange;
+}> {
+  private state: ProtectionState = 'idle';
+
+  /**
+   * Get the current state
+   */
+  getState(): ProtectionState {
+    return this.state;
+  }
+
+  /**
+   * Check whether the current state may move to another one
+   */
+  can(to: ProtectionState): boolean {
+    return TRANSITIONS[this.state].includes(to);
+  }
+
+  /**
+   * Move to another state and emit `state-change`
+   */
+  transition(to: ProtectionState): void {
+    const from = this.state;
+
+    if (!this.can(to)) {
+      throw ErrorFactory.configuration(
+        ErrorCode.INVALID_STATE_TRANSITION,
+        'Cloakscreen',
+        'transition',
+        { from, to },
+        [`Allowed from ${from}: ${TRANSITIONS[from].join(', ') || 'none'}`]
+      );
+    }
+
+    this.state = to;
+    this.emit('state-change', { from, to });
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * ResizeManager - Keeps the three layers aligned with the target element
+ *
+ * Watches the target element and the top content container, resizes the
+ * layers to match, and picks the DRM asset whose aspect ratio best fits
+ * the protected area.
+ */
+
+import { CloakscreenConfig, ResponsiveAsset } from '../types';
+import { ResizeManagerEvents } from '../types/events';
+import EventEmitter from '../utils/EventEmitter';
+import { LayerManager } from './LayerManager';
+import { coreLogger } from '../utils/logger';
+
+export class ResizeManager extends EventEmitter<ResizeManagerEvents> {
+  /** Relative aspect ratio change that triggers an asset switch */
+  private static readonly ASPECT_RATIO_THRESHOLD = 0.25;
+
+  private layerManager: LayerManager;
+  private options: CloakscreenConfig['options'];
+  private observer: ResizeObserver | null = null;
+  private frameHandle: number | null = null;
+  private width: number = 0;
+  private height: number = 0;
+  private currentAsset: ResponsiveAsset | null = null;
+  private assetRatio: number | null = null;
+
+  constructor(layerManager: LayerManager, options?: CloakscreenConfig['options']) {
+    super();
+    this.layerManager = layerManager;
+    this.options = options;
+  }
+
+  /**
+   * Start watching for size changes and fit the layers once
+   */
+  start(): void {
+    this.stop();
+
+    const targetElement = this.layerManager.getTargetElement();
+    const topContent = this.layerManager
+      .getTopLayer()
+      ?.querySelector<HTMLElement>('.cloakscreen-top-content');
+
+    if (typeof ResizeObserver === 'undefined') {
+      coreLogger.warn('ResizeObserver not available, layers will not follow size changes');
+    } else {
+      this.observer = new ResizeObserver(() => this.scheduleUpdate());
+      this.observer.observe(targetElement);
+      if (topContent) {
+        this.observer.observe(topContent);
+      }
+    }
+
+    this.update();
+  }
+
+  /**
+   * Stop watching for size changes
+   */
+  stop(): void {
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+
+    if (this.frameHandle !== null) {
+      cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+
+    this.width = 0;
+    this.height = 0;
+  }
+
+  /**
+   * Measure the target and resize the layers if its size changed
+   */
+  update(): void {
+    const targetElement = this.layerManager.getTargetElement();
+
+    // Layers cover the visible area; taller content scrolls inside the top layer
+    const width = targetElement.clientWidth;
+    const height = targetElement.clientHeight;
+
+    // Content height changes can clamp the top layer's scroll position
+    this.layerManager.syncLayerScroll();
+
+    if (width === this.width && height === this.height) {
+      return;
+    }
+
+    this.width = width;
+    this.height = height;
+
+    if (width === 0 || height === 0) {
+      return;
+    }
+
+    this.layerManager.resizeLayers(width, height);
+    this.emit('layers-resized', { width, height });
+
+    if (this.options?.debug) {
+      coreLogger.debug('Layers resized:', { width, height });
+    }
+
+    this.checkAsset(width / height);
+  }
+
+  /**
+   * Get the DRM asset selected for the current size
+   */
+  getCurrentAsset(): ResponsiveAsset | null {
+    return this.currentAsset;
+  }
+
+  /**
+   * Destroy the resize manager
+   */
+  destroy(): void {
+    this.stop();
+    this.currentAsset = null;
+    this.assetRatio = null;
+    this.removeAllListeners();
+  }
+
+  /**
+   * Coalesce observer callbacks into one measurement per frame
+   */
+  private scheduleUpdate(): void {
+    if (this.frameHandle !== null) {
+      return;
+    }
+
+    this.frameHandle = requestAnimationFrame(() => {
+      this.frameHandle = null;
+      this.update();
+    });
+  }
+
+  /**
+   * Switch assets when the aspect ratio drifted too far from the current one
+   */
+  private checkAsset(ratio: number): void {
+    const assets = this.options?.responsiveAssets;
+    if (!assets || assets.length === 0) {
+      return;
+    }
+
+    if (
+      this.assetRatio !== null &&
+      Math.max(ratio, this.assetRatio) / Math.min(ratio, this.assetRatio) - 1 <
+        ResizeManager.ASPECT_RATIO_THRESHOLD
+    ) {
+      return;
+    }
+
+    this.assetRatio = ratio;
+    const asset = this.selectAsset(assets, ratio);
+
+    if (asset !== this.currentAsset) {
+      this.currentAsset = asset;
+      this.emit('asset-change', { asset });
+    }
+  }
+
+  /**
+   * Pick the asset with the closest aspect ratio, then the closest width
+   */
+  private selectAsset(assets: ResponsiveAsset[], ratio: number): ResponsiveAsset {
+    const score = (asset: ResponsiveAsset) =>
+      Math.abs(Math.log(asset.width / asset.height / ratio));
+
+    return assets.reduce((best, asset) => {
+      const difference = score(asset) - score(best);
+      if (difference < -1e-6) {
+        return asset;
+      }
+      if (
+        Math.abs(difference) <= 1e-6 &&
+        Math.abs(asset.width - this.width) < Math.abs(best.width - this.width)
+      ) {
+        return asset;
+      }
+      return best;
+    });
+  }
+}
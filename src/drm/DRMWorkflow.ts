@@ -9,6 +9,9 @@ import fs from 'fs/promises';
 import { VideoGenerator } from './VideoGenerator';
 import { DRMEncryption } from './base/DRMEncryption';
 import { PallyConEncryption } from './providers/PallyConEncryption';
+import { ClearKeyEncryption } from './providers/ClearKeyEncryption';
+import { AxinomEncryption } from './providers/AxinomEncryption';
+import { EZDRMEncryption } from './providers/EZDRMEncryption';
 import {
   DRMWorkflowOptions,
   VideoGenerationOptions,
@@ -104,10 +107,13 @@ export class DRMWorkflow {
    * Generate responsive video variants
    */
   async generateResponsiveVariants(options: DRMWorkflowOptions): Promise<EncryptionResult[]> {
+    // Square sizes plus landscape/portrait shapes so clients can match the aspect ratio
     const sizes = [
       { width: 100, height: 100, suffix: 'small' },
       { width: 200, height: 200, suffix: 'medium' },
       { width: 400, height: 400, suffix: 'large' },
+      { width: 400, height: 200, suffix: 'wide' },
+      { width: 200, height: 400, suffix: 'tall' },
     ];
 
     const results: EncryptionResult[] = [];
@@ -124,7 +130,10 @@ export class DRMWorkflow {
       };
 
       const result = await this.execute(variantOptions);
-      results.push(result);
+      results.push({
+        ...result,
+        variant: { name: size.suffix, width: size.width, height: size.height },
+      });
     }
 
     return results;
@@ -183,11 +192,15 @@ export class DRMWorkflow {
       case 'pallycon':
         return new PallyConEncryption(config);
 
-      // Future: Add additional DRM providers as needed
-      // case 'axinom':
-      //   return new AxinomEncryption(config);
-      // case 'ezdrm':
-      //   return new EzDrmEncryption(config);
+      // Development only - keys are served in the clear
+      case 'clearkey':
+        return new ClearKeyEncryption(config);
+
+      case 'axinom':
+        return new AxinomEncryption(config);
+
+      case 'ezdrm':
+        return new EZDRMEncryption(config);
 
       default:
         throw new Error(`Unsupported DRM provider: ${provider}`);
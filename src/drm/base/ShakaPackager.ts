@@ -0,0 +1,89 @@
+/**
+ * Shaka Packager runner shared by the raw-key encryption providers
+ */
+
+import { spawn } from 'child_process';
+import path from 'path';
+import { drmLogger } from '../../utils/logger';
+
+/**
+ * Raw-key CENC packaging of a single video stream into a DASH manifest
+ */
+export interface RawKeyPackagingOptions {
+  inputPath: string;
+  outputDir: string;
+  manifestPath: string;
+
+  /** Hex key ID */
+  keyId: string;
+
+  /** Hex content key */
+  contentKey: string;
+
+  /** Shaka Packager protection systems whose PSSH boxes are written */
+  protectionSystems: string[];
+}
+
+/**
+ * Check if Shaka Packager is available
+ */
+export function isShakaPackagerAvailable(): Promise<boolean> {
+  return new Promise(resolve => {
+    const packager = spawn('packager', ['--version']);
+
+    packager.on('close', code => {
+      resolve(code === 0);
+    });
+
+    packager.on('error', () => {
+      resolve(false);
+    });
+  });
+}
+
+/**
+ * Run Shaka Packager with raw-key CENC encryption
+ */
+export function runRawKeyPackager(options: RawKeyPackagingOptions): Promise<void> {
+  const { inputPath, outputDir, manifestPath, keyId, contentKey, protectionSystems } = options;
+
+  const args = [
+    `in=${inputPath},stream=video,init_segment=${path.join(outputDir, 'init.mp4')},segment_template=${path.join(outputDir, 'segment_$Number$.m4s')}`,
+    '--enable_raw_key_encryption',
+    '--keys',
+    `label=:key_id=${keyId}:key=${contentKey}`,
+    '--protection_systems',
+    protectionSystems.join(','),
+    '--clear_lead',
+    '0',
+    '--mpd_output',
+    manifestPath,
+  ];
+
+  return new Promise((resolve, reject) => {
+    drmLogger.info('Running Shaka Packager...');
+
+    const packager = spawn('packager', args);
+    let stderr = '';
+
+    packager.stdout.on('data', data => {
+      drmLogger.debug(`Packager: ${data}`);
+    });
+
+    packager.stderr.on('data', data => {
+      stderr += data.toString();
+    });
+
+    packager.on('close', code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Shaka Packager failed with code ${code}: ${stderr}`));
+      }
+    });
+
+    packager.on('error', error => {
+      reject(new Error(`Failed to start Shaka Packager: ${error.message}`));
+    });
+  });
+}
@@ -9,6 +9,8 @@
 import { program } from 'commander';
 import path from 'path';
 import { DRMWorkflow } from './DRMWorkflow';
+import { CLEARKEY_KEYS_FILE } from './providers/ClearKeyEncryption';
+import { AXINOM_KEYS_FILE } from './providers/AxinomEncryption';
 import { VideoGenerationOptions, DRMWorkflowOptions } from './types';
 import { providerRegistry } from '../providers/base/ProviderRegistry';
 import { createLogger } from '../utils/logger';
@@ -26,7 +28,11 @@ program
 program
   .command('generate')
   .description('Generate and encrypt DRM content')
-  .option('-p, --provider <provider>', 'DRM provider (pallycon, axinom, ezdrm)', 'pallycon')
+  .option(
+    '-p, --provider <provider>',
+    'DRM provider (pallycon, axinom, ezdrm, clearkey)',
+    'pallycon'
+  )
   .option('-o, --output <dir>', 'Output directory', './drm-content')
   .option('-s, --size <size>', 'Video size (WxH)', '100x100')
   .option('-c, --color <color>', 'Video color', 'white')
@@ -157,10 +163,11 @@ async function generateDRMContent(options: any): Promise<void> {
     const results = await workflow.generateResponsiveVariants(workflowOptions);
 
     logger.info('\n✅ Generated responsive DRM content:');
-    results.forEach((result, index) => {
-      const sizes = ['small (100x100)', 'medium (200x200)', 'large (400x400)'];
-      logger.info(`  ${sizes[index]}: ${result.manifestPath}`);
+    results.forEach(result => {
+      const { name, width, height } = result.variant!;
+      logger.info(`  ${name} (${width}x${height}): ${result.manifestPath}`);
     });
+    logger.info('\n💡 List these under options.responsiveAssets to switch assets on resize');
   } else {
     logger.info('🔐 Generating DRM content...');
     const result = await workflow.execute(workflowOptions);
@@ -172,6 +179,16 @@ async function generateDRMContent(options: any): Promise<void> {
       logger.info(`🔑 Content ID: ${result.metadata.contentId}`);
       logger.info(`🆔 Key ID: ${result.metadata.keyId}`);
 
+      if (options.provider === 'clearkey') {
+        logger.info(`🗝️  Keys: ${path.join(result.outputPath, CLEARKEY_KEYS_FILE)}`);
+        logger.info('   Serve them with the dev server (CLEARKEY_KEYS_FILE) - testing only');
+      }
+
+      if (options.provider === 'axinom') {
+        logger.info(`🗝️  Keys: ${path.join(result.outputPath, AXINOM_KEYS_FILE)}`);
+        logger.info('   Keep them on your backend to sign entitlement messages - do not publish');
+      }
+
       if (result.warnings && result.warnings.length > 0) {
         logger.warn('\n⚠️  Warnings:');
         result.warnings.forEach(warning => logger.warn(`  • ${warning}`));
@@ -211,9 +228,20 @@ async function listProviders(): Promise<void> {
       `   Status: ${isSupported ? '✅ Supported' : '❌ Not supported in this environment'}`
     );
     logger.info(`   Key Systems: ${metadata?.supportedKeySystems.join(', ') || 'Unknown'}`);
-    logger.info(`   Pricing: Commercial`);
-
-    logger.info(`   Homepage: https://pallycon.com`);
+    if (providerName === 'clearkey') {
+      logger.info('   Pricing: Free (development and testing only)');
+    } else if (providerName === 'pallycon') {
+      logger.info(`   Pricing: Commercial`);
+      logger.info(`   Homepage: https://pallycon.com`);
+    } else if (providerName === 'axinom') {
+      logger.info(`   Pricing: Commercial`);
+      logger.info(`   Homepage: https://www.axinom.com`);
+    } else if (providerName === 'ezdrm') {
+      logger.info(`   Pricing: Commercial`);
+      logger.info(`   Homepage: https://www.ezdrm.com`);
+    } else {
+      logger.info('   License server: any proxy (vendor-neutral)');
+    }
   }
 }
 
@@ -11,8 +11,12 @@ export { DRMEncryption } from './base/DRMEncryption';
 
 // Provider-specific encryption implementations
 export { PallyConEncryption } from './providers/PallyConEncryption';
+export { ClearKeyEncryption } from './providers/ClearKeyEncryption';
+export { AxinomEncryption, createAxinomEntitlementMessage } from './providers/AxinomEncryption';
+export { EZDRMEncryption } from './providers/EZDRMEncryption';
 
 // Types
+export type { AxinomContentKey, AxinomEntitlementOptions } from './providers/AxinomEncryption';
 export type {
   VideoGenerationOptions,
   EncryptionResult,
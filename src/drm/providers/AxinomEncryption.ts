@@ -0,0 +1,311 @@
+/**
+ * Axinom DRM Encryption Implementation
+ *
+ * Encrypts video with Shaka Packager raw-key encryption, writing Widevine and
+ * PlayReady PSSH boxes, and stores the key for the backend that signs Axinom
+ * entitlement messages. Axinom never sees the key until it arrives inside an
+ * entitlement message, encrypted with the tenant communication key.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { DRMEncryption } from '../base/DRMEncryption';
+import { isShakaPackagerAvailable, runRawKeyPackager } from '../base/ShakaPackager';
+import {
+  EncryptionResult,
+  EncryptedContent,
+  ValidationResult,
+  EncryptionCapabilities,
+} from '../types';
+import { drmLogger } from '../../utils/logger';
+
+/** File holding the generated key next to the manifest */
+export const AXINOM_KEYS_FILE = 'axinom-keys.json';
+
+/**
+ * Content key as stored in the keys file and embedded in entitlement messages
+ */
+export interface AxinomContentKey {
+  /** Key ID (UUID or 32 hex characters) */
+  keyId: string;
+
+  /** Hex content key; omitted when the license service derives keys itself */
+  key?: string;
+}
+
+/**
+ * Options for signing an entitlement message
+ */
+export interface AxinomEntitlementOptions {
+  /** Communication key ID from the Axinom portal (UUID) */
+  communicationKeyId: string;
+
+  /** Base64 communication key from the Axinom portal (256 bits) */
+  communicationKey: string;
+
+  /** Keys the license may deliver */
+  keys: AxinomContentKey[];
+
+  /** Optional: Seconds until the license expires */
+  licenseDurationSeconds?: number;
+
+  /** Optional: Allow the license to be persisted on the device */
+  persistent?: boolean;
+}
+
+export class AxinomEncryption extends DRMEncryption {
+  constructor(config: any) {
+    super('axinom', config);
+  }
+
+  /**
+   * Get Axinom encryption capabilities
+   */
+  getCapabilities(): EncryptionCapabilities {
+    return {
+      videoFormats: ['mp4'],
+      manifestTypes: ['dash'],
+      encryptionTool: 'cli',
+      requiresLocalTool: true,
+      keySystems: ['com.widevine.alpha', 'com.microsoft.playready'],
+      supportedCodecs: ['h264'],
+      maxDimensions: {
+        width: 4096,
+        height: 4096,
+      },
+    };
+  }
+
+  /**
+   * Encrypt video using Shaka Packager with a locally generated key
+   */
+  async encryptVideo(
+    inputPath: string,
+    outputDir: string,
+    contentId: string
+  ): Promise<EncryptionResult> {
+    try {
+      if (!(await this.checkDependencies())) {
+        throw new Error('Shaka Packager not found. Please install Shaka Packager.');
+      }
+
+      await fs.mkdir(outputDir, { recursive: true });
+
+      // Keys come from the provider config when given, so re-encoding keeps existing licenses valid
+      const keyId = toHex(this.config.keyId || crypto.randomUUID());
+      const contentKey = this.config.key || crypto.randomBytes(16).toString('hex');
+
+      const manifestPath = path.join(outputDir, 'stream.mpd');
+      await runRawKeyPackager({
+        inputPath,
+        outputDir,
+        manifestPath,
+        keyId,
+        contentKey,
+        protectionSystems: ['Widevine', 'PlayReady'],
+      });
+      drmLogger.info('✅ Axinom encryption completed');
+      await this.writeKeys(outputDir, contentId, keyId, contentKey);
+
+      return {
+        success: true,
+        outputPath: outputDir,
+        manifestPath,
+        metadata: {
+          provider: 'axinom',
+          keyId: toUuid(keyId),
+          contentId,
+          encryptionTime: new Date(),
+          manifestType: 'dash',
+        },
+      };
+    } catch (error) {
+      drmLogger.error('Encryption failed:', error);
+      return {
+        success: false,
+        outputPath: outputDir,
+        manifestPath: '',
+        metadata: {
+          provider: 'axinom',
+          keyId: '',
+          contentId,
+          encryptionTime: new Date(),
+          manifestType: 'dash',
+        },
+        errors: [error instanceof Error ? error.message : String(error)],
+      };
+    }
+  }
+
+  /**
+   * Shaka Packager writes the manifest while encrypting
+   */
+  async generateManifest(encryptedContent: EncryptedContent, outputPath: string): Promise<string> {
+    const manifestPath = path.join(outputPath, 'stream.mpd');
+    await fs.access(manifestPath);
+
+    drmLogger.debug(`Manifest for ${encryptedContent.contentId} written by Shaka Packager`);
+    return manifestPath;
+  }
+
+  /**
+   * Validate encrypted content and its key file
+   */
+  async validateEncryption(manifestPath: string): Promise<ValidationResult> {
+    const result: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: [],
+    };
+
+    try {
+      const manifestContent = await fs.readFile(manifestPath, 'utf8');
+
+      if (!manifestContent.includes('<MPD')) {
+        result.valid = false;
+        result.errors.push('Invalid DASH manifest: Missing MPD element');
+      }
+
+      if (!manifestContent.includes('ContentProtection')) {
+        result.valid = false;
+        result.errors.push('Invalid DASH manifest: Missing ContentProtection');
+      }
+
+      try {
+        await fs.access(path.join(path.dirname(manifestPath), AXINOM_KEYS_FILE));
+      } catch {
+        result.warnings.push(`Key file ${AXINOM_KEYS_FILE} not found next to the manifest`);
+      }
+
+      result.playbackTest = {
+        canLoad: true,
+        canPlay: false,
+        drmActive: manifestContent.includes('ContentProtection'),
+        errorMessage: 'Playback testing not implemented yet',
+      };
+    } catch (error) {
+      result.valid = false;
+      result.errors.push(`Validation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Check if Shaka Packager is available
+   */
+  async checkDependencies(): Promise<boolean> {
+    return isShakaPackagerAvailable();
+  }
+
+  /**
+   * Get setup instructions for Shaka Packager
+   */
+  getSetupInstructions(): string[] {
+    return [
+      'Shaka Packager is required for Axinom encryption. Set it up:',
+      '',
+      '1. Download a release from https://github.com/shaka-project/shaka-packager/releases',
+      '2. Rename the binary to "packager" and ensure it is in your PATH',
+      '',
+      `Keep ${AXINOM_KEYS_FILE} on your backend and sign entitlement messages with`,
+      'createAxinomEntitlementMessage() - never publish it with the content.',
+    ];
+  }
+
+  /**
+   * Write the key for the entitlement message backend
+   */
+  private async writeKeys(
+    outputDir: string,
+    contentId: string,
+    keyId: string,
+    contentKey: string
+  ): Promise<void> {
+    const keys: { contentId: string; keys: AxinomContentKey[] } = {
+      contentId,
+      keys: [{ keyId: toUuid(keyId), key: contentKey }],
+    };
+
+    await fs.writeFile(path.join(outputDir, AXINOM_KEYS_FILE), JSON.stringify(keys, null, 2), {
+      encoding: 'utf8',
+      mode: 0o600,
+    });
+  }
+}
+
+/**
+ * Sign an Axinom entitlement message (HS256 JWT) for the X-AxDRM-Message header.
+ * Content keys are encrypted with the communication key (AES-256-CBC, key ID as IV).
+ */
+export function createAxinomEntitlementMessage(options: AxinomEntitlementOptions): string {
+  const communicationKey = Buffer.from(options.communicationKey, 'base64');
+
+  if (communicationKey.length !== 32) {
+    throw new Error('Axinom communication key must be 256 bits (base64)');
+  }
+
+  const license: Record<string, unknown> = {
+    allow_persistence: options.persistent ?? false,
+  };
+  if (options.licenseDurationSeconds !== undefined) {
+    license.expiration_datetime = new Date(
+      Date.now() + options.licenseDurationSeconds * 1000
+    ).toISOString();
+  }
+
+  const payload = {
+    version: 1,
+    com_key_id: options.communicationKeyId,
+    message: {
+      type: 'entitlement_message',
+      version: 2,
+      license,
+      content_keys_source: {
+        inline: options.keys.map(({ keyId, key }) => ({
+          id: toUuid(toHex(keyId)),
+          ...(key ? { encrypted_key: encryptContentKey(communicationKey, keyId, key) } : {}),
+        })),
+      },
+    },
+  };
+
+  const header = base64UrlJson({ alg: 'HS256', typ: 'JWT' });
+  const body = base64UrlJson(payload);
+  const signature = crypto
+    .createHmac('sha256', communicationKey)
+    .update(`${header}.${body}`)
+    .digest('base64url');
+
+  return `${header}.${body}.${signature}`;
+}
+
+function encryptContentKey(communicationKey: Buffer, keyId: string, key: string): string {
+  const cipher = crypto.createCipheriv(
+    'aes-256-cbc',
+    communicationKey,
+    Buffer.from(toHex(keyId), 'hex')
+  );
+  cipher.setAutoPadding(false);
+
+  return Buffer.concat([cipher.update(Buffer.from(key, 'hex')), cipher.final()]).toString('base64');
+}
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function toHex(keyId: string): string {
+  const hex = keyId.replace(/-/g, '').toLowerCase();
+
+  if (!/^[0-9a-f]{32}$/.test(hex)) {
+    throw new Error(`Invalid key ID: ${keyId}`);
+  }
+
+  return hex;
+}
+
+function toUuid(hex: string): string {
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,214 @@
+/**
+ * ClearKey Encryption Implementation
+ *
+ * Encrypts video with a locally generated key using Shaka Packager raw-key
+ * encryption and writes the key as a JWK set for the development license
+ * server. Intended for local development and integration tests only: anyone
+ * who can reach the license endpoint can read the key.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { DRMEncryption } from '../base/DRMEncryption';
+import { isShakaPackagerAvailable, runRawKeyPackager } from '../base/ShakaPackager';
+import {
+  EncryptionResult,
+  EncryptedContent,
+  ValidationResult,
+  EncryptionCapabilities,
+} from '../types';
+import { drmLogger } from '../../utils/logger';
+
+/** File holding the generated keys next to the manifest */
+export const CLEARKEY_KEYS_FILE = 'keys.json';
+
+export class ClearKeyEncryption extends DRMEncryption {
+  constructor(config: any) {
+    super('clearkey', config);
+  }
+
+  /**
+   * Get ClearKey encryption capabilities
+   */
+  getCapabilities(): EncryptionCapabilities {
+    return {
+      videoFormats: ['mp4'],
+      manifestTypes: ['dash'],
+      encryptionTool: 'cli',
+      requiresLocalTool: true,
+      keySystems: ['org.w3.clearkey'],
+      supportedCodecs: ['h264'],
+      maxDimensions: {
+        width: 4096,
+        height: 4096,
+      },
+    };
+  }
+
+  /**
+   * Encrypt video using Shaka Packager with a locally generated key
+   */
+  async encryptVideo(
+    inputPath: string,
+    outputDir: string,
+    contentId: string
+  ): Promise<EncryptionResult> {
+    try {
+      if (!(await this.checkDependencies())) {
+        throw new Error('Shaka Packager not found. Please install Shaka Packager.');
+      }
+
+      drmLogger.warn('ClearKey content is for development and testing only');
+
+      await fs.mkdir(outputDir, { recursive: true });
+
+      // Keys come from the provider config when given, so test fixtures stay stable
+      const keyId = this.config.keyId || crypto.randomBytes(16).toString('hex');
+      const contentKey = this.config.key || crypto.randomBytes(16).toString('hex');
+
+      const manifestPath = path.join(outputDir, 'stream.mpd');
+      await runRawKeyPackager({
+        inputPath,
+        outputDir,
+        manifestPath,
+        keyId,
+        contentKey,
+        protectionSystems: ['CommonSystem'],
+      });
+      drmLogger.info('✅ ClearKey encryption completed');
+      await this.writeKeys(outputDir, contentId, keyId, contentKey);
+
+      return {
+        success: true,
+        outputPath: outputDir,
+        manifestPath,
+        metadata: {
+          provider: 'clearkey',
+          keyId,
+          contentId,
+          encryptionTime: new Date(),
+          manifestType: 'dash',
+        },
+        warnings: ['ClearKey is not production-grade protection'],
+      };
+    } catch (error) {
+      drmLogger.error('Encryption failed:', error);
+      return {
+        success: false,
+        outputPath: outputDir,
+        manifestPath: '',
+        metadata: {
+          provider: 'clearkey',
+          keyId: '',
+          contentId,
+          encryptionTime: new Date(),
+          manifestType: 'dash',
+        },
+        errors: [error instanceof Error ? error.message : String(error)],
+      };
+    }
+  }
+
+  /**
+   * Shaka Packager writes the manifest while encrypting
+   */
+  async generateManifest(encryptedContent: EncryptedContent, outputPath: string): Promise<string> {
+    const manifestPath = path.join(outputPath, 'stream.mpd');
+    await fs.access(manifestPath);
+
+    drmLogger.debug(`Manifest for ${encryptedContent.contentId} written by Shaka Packager`);
+    return manifestPath;
+  }
+
+  /**
+   * Validate encrypted content and its key file
+   */
+  async validateEncryption(manifestPath: string): Promise<ValidationResult> {
+    const result: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: [],
+    };
+
+    try {
+      const manifestContent = await fs.readFile(manifestPath, 'utf8');
+
+      if (!manifestContent.includes('<MPD')) {
+        result.valid = false;
+        result.errors.push('Invalid DASH manifest: Missing MPD element');
+      }
+
+      if (!manifestContent.includes('ContentProtection')) {
+        result.valid = false;
+        result.errors.push('Invalid DASH manifest: Missing ContentProtection');
+      }
+
+      try {
+        await fs.access(path.join(path.dirname(manifestPath), CLEARKEY_KEYS_FILE));
+      } catch {
+        result.warnings.push(`Key file ${CLEARKEY_KEYS_FILE} not found next to the manifest`);
+      }
+
+      result.playbackTest = {
+        canLoad: true,
+        canPlay: false,
+        drmActive: manifestContent.includes('ContentProtection'),
+        errorMessage: 'Playback testing not implemented yet',
+      };
+    } catch (error) {
+      result.valid = false;
+      result.errors.push(`Validation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Check if Shaka Packager is available
+   */
+  async checkDependencies(): Promise<boolean> {
+    return isShakaPackagerAvailable();
+  }
+
+  /**
+   * Get setup instructions for Shaka Packager
+   */
+  getSetupInstructions(): string[] {
+    return [
+      'Shaka Packager is required for ClearKey encryption. Set it up:',
+      '',
+      '1. Download a release from https://github.com/shaka-project/shaka-packager/releases',
+      '2. Rename the binary to "packager" and ensure it is in your PATH',
+      '',
+      'ClearKey output is for development and integration tests only.',
+    ];
+  }
+
+  /**
+   * Write the key as a JWK set the development license server can serve
+   */
+  private async writeKeys(
+    outputDir: string,
+    contentId: string,
+    keyId: string,
+    contentKey: string
+  ): Promise<void> {
+    const keySet = {
+      contentId,
+      keys: [
+        {
+          kty: 'oct',
+          kid: Buffer.from(keyId, 'hex').toString('base64url'),
+          k: Buffer.from(contentKey, 'hex').toString('base64url'),
+        },
+      ],
+    };
+
+    await fs.writeFile(
+      path.join(outputDir, CLEARKEY_KEYS_FILE),
+      JSON.stringify(keySet, null, 2),
+      'utf8'
+    );
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * EZDRM Encryption Implementation
+ *
+ * Registers a key ID with the EZDRM CPIX key generator, which returns the
+ * content key EZDRM will license, then encrypts with Shaka Packager raw-key
+ * encryption writing Widevine and PlayReady PSSH boxes.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { DRMEncryption } from '../base/DRMEncryption';
+import { isShakaPackagerAvailable, runRawKeyPackager } from '../base/ShakaPackager';
+import {
+  EncryptionResult,
+  EncryptedContent,
+  ValidationResult,
+  EncryptionCapabilities,
+} from '../types';
+import { drmLogger } from '../../utils/logger';
+
+/** EZDRM CPIX key generator */
+export const EZDRM_CPIX_URL = 'https://cpix.ezdrm.com/KeyGenerator/cpix.aspx';
+
+export class EZDRMEncryption extends DRMEncryption {
+  constructor(config: any) {
+    super('ezdrm', config);
+  }
+
+  /**
+   * Get EZDRM encryption capabilities
+   */
+  getCapabilities(): EncryptionCapabilities {
+    return {
+      videoFormats: ['mp4'],
+      manifestTypes: ['dash'],
+      encryptionTool: 'api',
+      requiresLocalTool: true,
+      keySystems: ['com.widevine.alpha', 'com.microsoft.playready'],
+      supportedCodecs: ['h264'],
+      maxDimensions: {
+        width: 4096,
+        height: 4096,
+      },
+    };
+  }
+
+  /**
+   * Encrypt video with a content key issued by EZDRM
+   */
+  async encryptVideo(
+    inputPath: string,
+    outputDir: string,
+    contentId: string
+  ): Promise<EncryptionResult> {
+    try {
+      if (!(await this.checkDependencies())) {
+        throw new Error('Shaka Packager not found. Please install Shaka Packager.');
+      }
+
+      await fs.mkdir(outputDir, { recursive: true });
+
+      const keyId = this.config.keyId || crypto.randomUUID();
+      const contentKey = await this.requestContentKey(keyId, contentId);
+
+      const manifestPath = path.join(outputDir, 'stream.mpd');
+      await runRawKeyPackager({
+        inputPath,
+        outputDir,
+        manifestPath,
+        keyId: keyId.replace(/-/g, ''),
+        contentKey,
+        protectionSystems: ['Widevine', 'PlayReady'],
+      });
+      drmLogger.info('✅ EZDRM encryption completed');
+
+      return {
+        success: true,
+        outputPath: outputDir,
+        manifestPath,
+        metadata: {
+          provider: 'ezdrm',
+          keyId,
+          contentId,
+          encryptionTime: new Date(),
+          manifestType: 'dash',
+        },
+      };
+    } catch (error) {
+      drmLogger.error('Encryption failed:', error);
+      return {
+        success: false,
+        outputPath: outputDir,
+        manifestPath: '',
+        metadata: {
+          provider: 'ezdrm',
+          keyId: '',
+          contentId,
+          encryptionTime: new Date(),
+          manifestType: 'dash',
+        },
+        errors: [error instanceof Error ? error.message : String(error)],
+      };
+    }
+  }
+
+  /**
+   * Request the content key for a key ID from the EZDRM CPIX key generator.
+   * Returns the key as hex.
+   */
+  async requestContentKey(keyId: string, contentId: string): Promise<string> {
+    const { username, password } = this.config;
+
+    if (!username || !password) {
+      throw new Error('EZDRM encryption requires username and password in the provider config');
+    }
+
+    const params = new URLSearchParams({ k: keyId, u: username, p: password, c: contentId });
+    const response = await fetch(`${this.config.cpixUrl || EZDRM_CPIX_URL}?${params}`, {
+      signal: AbortSignal.timeout(30000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`EZDRM key request failed: ${response.status} ${response.statusText}`);
+    }
+
+    // The CPIX document carries the key base64-encoded in pskc:PlainValue
+    const cpix = await response.text();
+    const plainValue = cpix.match(/<(?:\w+:)?PlainValue>\s*([A-Za-z0-9+/=]+)\s*</)?.[1];
+    const contentKey = plainValue ? Buffer.from(plainValue, 'base64') : null;
+
+    if (!contentKey || contentKey.length !== 16) {
+      throw new Error('EZDRM key response did not contain a 128-bit content key');
+    }
+
+    return contentKey.toString('hex');
+  }
+
+  /**
+   * Shaka Packager writes the manifest while encrypting
+   */
+  async generateManifest(encryptedContent: EncryptedContent, outputPath: string): Promise<string> {
+    const manifestPath = path.join(outputPath, 'stream.mpd');
+    await fs.access(manifestPath);
+
+    drmLogger.debug(`Manifest for ${encryptedContent.contentId} written by Shaka Packager`);
+    return manifestPath;
+  }
+
+  /**
+   * Validate encrypted content
+   */
+  async validateEncryption(manifestPath: string): Promise<ValidationResult> {
+    const result: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: [],
+    };
+
+    try {
+      const manifestContent = await fs.readFile(manifestPath, 'utf8');
+
+      if (!manifestContent.includes('<MPD')) {
+        result.valid = false;
+        result.errors.push('Invalid DASH manifest: Missing MPD element');
+      }
+
+      if (!manifestContent.includes('ContentProtection')) {
+        result.valid = false;
+        result.errors.push('Invalid DASH manifest: Missing ContentProtection');
+      }
+
+      result.playbackTest = {
+        canLoad: true,
+        canPlay: false,
+        drmActive: manifestContent.includes('ContentProtection'),
+        errorMessage: 'Playback testing not implemented yet',
+      };
+    } catch (error) {
+      result.valid = false;
+      result.errors.push(`Validation failed: ${error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Check if Shaka Packager is available
+   */
+  async checkDependencies(): Promise<boolean> {
+    return isShakaPackagerAvailable();
+  }
+
+  /**
+   * Get setup instructions for Shaka Packager and EZDRM credentials
+   */
+  getSetupInstructions(): string[] {
+    return [
+      'Shaka Packager is required for EZDRM encryption. Set it up:',
+      '',
+      '1. Download a release from https://github.com/shaka-project/shaka-packager/releases',
+      '2. Rename the binary to "packager" and ensure it is in your PATH',
+      '3. Put your EZDRM "username" and "password" in the --config file',
+    ];
+  }
+}
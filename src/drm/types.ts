@@ -59,6 +59,13 @@ export interface EncryptionResult {
     manifestType: ManifestType;
   };
 
+  /** Video size, set for responsive variants */
+  variant?: {
+    name: string;
+    width: number;
+    height: number;
+  };
+
   /** Any errors that occurred */
   errors?: string[];
 
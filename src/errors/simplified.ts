@@ -23,6 +23,7 @@ export enum ErrorCode {
   LICENSE_REQUEST_FAILED = 'LICENSE_REQUEST_FAILED',
   PLAYER_INITIALIZATION_FAILED = 'PLAYER_INITIALIZATION_FAILED',
   CONTENT_DECRYPTION_FAILED = 'CONTENT_DECRYPTION_FAILED',
+  SECURITY_LEVEL_INSUFFICIENT = 'SECURITY_LEVEL_INSUFFICIENT',
 
   // Content errors
   CONTENT_LOAD_FAILED = 'CONTENT_LOAD_FAILED',
@@ -41,6 +42,7 @@ export enum ErrorCode {
   // Generic errors
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
+  INVALID_STATE_TRANSITION = 'INVALID_STATE_TRANSITION',
 }
 
 /**
@@ -269,6 +271,26 @@ export class ErrorFactory {
       }
     );
   }
+
+  /**
+   * Create an error for a CDM weaker than the configured requirements
+   */
+  static insufficientSecurity(
+    message: string,
+    details: Record<string, unknown> = {}
+  ): CloakscreenError {
+    return new CloakscreenError(message, ErrorCode.SECURITY_LEVEL_INSUFFICIENT, ErrorCategory.DRM, {
+      component: 'Cloakscreen',
+      method: 'protect',
+      details,
+      suggestions: [
+        'Use a browser and device with a hardware-backed CDM (e.g. Widevine L1 or PlayReady SL3000)',
+        'Enable hardware acceleration in your browser settings',
+        'Lower requireSecurityLevel if software DRM is acceptable for this content',
+      ],
+      recoverable: false,
+    });
+  }
 }
 
 /**
@@ -0,0 +1,26 @@
+/**
+ * BlurFallback - Blurs the content in place
+ */
+
+import { FallbackContext, FallbackStrategy } from './FallbackStrategy';
+import { DOMSnapshot } from '../utils/DOMSnapshot';
+
+export interface BlurFallbackOptions {
+  /** Optional: Blur radius in pixels (defaults to 10) */
+  radius?: number;
+}
+
+export class BlurFallback implements FallbackStrategy {
+  readonly name = 'blur';
+  private snapshot = new DOMSnapshot();
+
+  constructor(private options: BlurFallbackOptions = {}) {}
+
+  apply({ element }: FallbackContext): void {
+    this.snapshot.setStyle(element, 'filter', `blur(${this.options.radius ?? 10}px)`);
+  }
+
+  revert(): void {
+    this.snapshot.restore();
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * ClickToRevealFallback - Shows the content only after an explicit click
+ *
+ * Until revealed the content is out of the DOM. Revealing emits
+ * `fallback-revealed`, so applications can audit who viewed content unprotected.
+ */
+
+import {
+  detachChildren,
+  restoreChildren,
+  FallbackContext,
+  FallbackStrategy,
+} from './FallbackStrategy';
+
+export interface ClickToRevealFallbackOptions {
+  /** Optional: Button label */
+  label?: string;
+}
+
+export class ClickToRevealFallback implements FallbackStrategy {
+  readonly name = 'click-to-reveal';
+  private element: HTMLElement | null = null;
+  private original: DocumentFragment | null = null;
+
+  constructor(private options: ClickToRevealFallbackOptions = {}) {}
+
+  apply(context: FallbackContext): void {
+    this.element = context.element;
+    this.original = detachChildren(context.element);
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'cloakscreen-reveal';
+    button.textContent = this.options.label || 'Content protection unavailable - click to reveal';
+    button.addEventListener('click', () => {
+      this.restore();
+      context.emit('fallback-revealed', {
+        strategy: this.name,
+        reason: context.reason,
+        securityLevel: context.drmStatus.securityLevel,
+        revealedAt: new Date().toISOString(),
+      });
+    });
+
+    context.element.prepend(button);
+  }
+
+  revert(): void {
+    this.restore();
+  }
+
+  private restore(): void {
+    if (this.element && this.original) {
+      restoreChildren(this.element, this.original);
+    }
+    this.element = null;
+    this.original = null;
+  }
+}
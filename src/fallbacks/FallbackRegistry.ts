@@ -0,0 +1,116 @@
+/**
+ * FallbackRegistry - Central registry for fallback strategies
+ *
+ * Manages registration of fallback strategies and resolves the `fallbackMode`
+ * option to a strategy instance for the detected security level.
+ */
+
+import { FallbackStrategy } from './FallbackStrategy';
+import { DRMStatus, FallbackMode, FallbackSelection } from '../types';
+import { utilsLogger } from '../utils/logger';
+
+// Type for fallback strategy constructors; options come from `{ strategy, options }` selections
+export type FallbackStrategyConstructor = new (
+  options?: Record<string, unknown>
+) => FallbackStrategy;
+
+export class FallbackRegistry {
+  private strategies = new Map<string, FallbackStrategyConstructor>();
+  private static instance: FallbackRegistry;
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): FallbackRegistry {
+    if (!FallbackRegistry.instance) {
+      FallbackRegistry.instance = new FallbackRegistry();
+    }
+    return FallbackRegistry.instance;
+  }
+
+  /**
+   * Register a fallback strategy
+   */
+  register(name: string, strategyClass: FallbackStrategyConstructor): void {
+    if (this.strategies.has(name)) {
+      utilsLogger.warn(`Fallback strategy '${name}' is already registered. Overwriting.`);
+    }
+
+    this.strategies.set(name, strategyClass);
+    utilsLogger.debug(`Registered fallback strategy: ${name}`);
+  }
+
+  /**
+   * Create a strategy instance
+   */
+  create(name: string, options?: Record<string, unknown>): FallbackStrategy {
+    const StrategyClass = this.strategies.get(name);
+
+    if (!StrategyClass) {
+      throw new Error(
+        `Fallback strategy '${name}' is not registered. Available strategies: ${this.getAvailable().join(', ')}`
+      );
+    }
+
+    return new StrategyClass(options);
+  }
+
+  /**
+   * Resolve a `fallbackMode` option to a strategy. Per-level modes use the entry of
+   * the detected security level, then `default`, then blur.
+   */
+  resolve(mode: FallbackMode, securityLevel: DRMStatus['securityLevel']): FallbackStrategy {
+    const selection: FallbackSelection = isSelection(mode)
+      ? mode
+      : (mode[securityLevel] ?? mode.default ?? 'blur');
+
+    if (typeof selection === 'string') {
+      return this.create(selection);
+    }
+
+    return 'strategy' in selection ? this.create(selection.strategy, selection.options) : selection;
+  }
+
+  /**
+   * Get all available strategy names
+   */
+  getAvailable(): string[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  /**
+   * Check if a strategy is registered
+   */
+  isRegistered(name: string): boolean {
+    return this.strategies.has(name);
+  }
+
+  /**
+   * Unregister a strategy
+   */
+  unregister(name: string): boolean {
+    return this.strategies.delete(name);
+  }
+
+  /**
+   * Clear all registered strategies
+   */
+  clear(): void {
+    this.strategies.clear();
+  }
+}
+
+/**
+ * Tell a single selection apart from a per-level map
+ */
+function isSelection(mode: FallbackMode): mode is FallbackSelection {
+  return (
+    typeof mode === 'string' ||
+    'strategy' in mode ||
+    typeof (mode as FallbackStrategy).apply === 'function'
+  );
+}
+
+// Export singleton instance
+export const fallbackRegistry = FallbackRegistry.getInstance();
+export default fallbackRegistry;
@@ -0,0 +1,85 @@
+/**
+ * FallbackStrategy - Contract for shielding content when DRM protection is unavailable
+ *
+ * Strategies are applied to the target element when protect() cannot use DRM
+ * (unsupported browser, insufficient security level or an error) or protected
+ * playback degraded, and must undo every change in revert(), which runs on
+ * unprotect(), destroy(), recovery and before protection is attempted again.
+ */
+
+import { DRMStatus } from '../types';
+import type { CloakscreenEvents } from '../types/events';
+import type { EventArgs, EventName } from '../utils/EventEmitter';
+
+/**
+ * Why a fallback is applied
+ */
+export type FallbackReason =
+  | 'drm-unavailable'
+  | 'insufficient-security'
+  | 'playback-degraded'
+  | 'error';
+
+export interface FallbackContext {
+  /** Element whose content is shielded: the target, or the top layer while the layers are up */
+  element: HTMLElement;
+
+  /** DRM status the strategy was chosen for */
+  drmStatus: DRMStatus;
+
+  /** Why DRM protection could not be applied */
+  reason: FallbackReason;
+
+  /** Emit an event on the Cloakscreen instance, e.g. for audit trails */
+  emit<K extends EventName<CloakscreenEvents>>(
+    event: K,
+    ...args: EventArgs<CloakscreenEvents[K]>
+  ): void;
+}
+
+export interface FallbackStrategy {
+  /** Strategy name, reported with `fallback-activated` */
+  readonly name: string;
+
+  /** Shield the element's content */
+  apply(context: FallbackContext): void | Promise<void>;
+
+  /** Undo everything apply() changed */
+  revert(): void;
+}
+
+/**
+ * Move the children of an element into a fragment, taking them out of the DOM
+ * (restore them with `restoreChildren()`). The Cloakscreen layer container stays,
+ * as taking its video out of the DOM would pause protected playback.
+ */
+export function detachChildren(element: HTMLElement): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+
+  Array.from(element.childNodes).forEach(child => {
+    if (!isLayerContainer(child)) {
+      fragment.appendChild(child);
+    }
+  });
+
+  return fragment;
+}
+
+/**
+ * Put children taken out by `detachChildren()` back, removing what the
+ * strategy added in their place
+ */
+export function restoreChildren(element: HTMLElement, fragment: DocumentFragment): void {
+  Array.from(element.childNodes).forEach(child => {
+    if (!isLayerContainer(child)) {
+      child.remove();
+    }
+  });
+
+  // The layers are appended after the original content
+  element.insertBefore(fragment, element.firstChild);
+}
+
+function isLayerContainer(node: Node): boolean {
+  return node instanceof HTMLElement && node.classList.contains('cloakscreen-container');
+}
@@ -0,0 +1,19 @@
+/**
+ * HideFallback - Hides the content
+ */
+
+import { FallbackContext, FallbackStrategy } from './FallbackStrategy';
+import { DOMSnapshot } from '../utils/DOMSnapshot';
+
+export class HideFallback implements FallbackStrategy {
+  readonly name = 'hide';
+  private snapshot = new DOMSnapshot();
+
+  apply({ element }: FallbackContext): void {
+    this.snapshot.setStyle(element, 'display', 'none');
+  }
+
+  revert(): void {
+    this.snapshot.restore();
+  }
+}
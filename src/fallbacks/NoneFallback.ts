@@ -0,0 +1,17 @@
+/**
+ * NoneFallback - Leaves the content visible and unprotected
+ */
+
+import { FallbackStrategy } from './FallbackStrategy';
+
+export class NoneFallback implements FallbackStrategy {
+  readonly name = 'none';
+
+  apply(): void {
+    // Show content unprotected
+  }
+
+  revert(): void {
+    // Nothing was changed
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * PlaceholderFallback - Replaces the content with a placeholder
+ *
+ * The original nodes are taken out of the DOM (not just hidden) and put back on revert.
+ */
+
+import {
+  detachChildren,
+  restoreChildren,
+  FallbackContext,
+  FallbackStrategy,
+} from './FallbackStrategy';
+
+export interface PlaceholderFallbackOptions {
+  /**
+   * Optional: Placeholder HTML, or a function building it. `{{reason}}` and
+   * `{{securityLevel}}` in template strings are replaced.
+   */
+  template?: string | ((context: FallbackContext) => string);
+}
+
+const DEFAULT_TEMPLATE = '<div>Content protected - DRM not available</div>';
+
+export class PlaceholderFallback implements FallbackStrategy {
+  readonly name = 'placeholder';
+  private element: HTMLElement | null = null;
+  private original: DocumentFragment | null = null;
+
+  constructor(private options: PlaceholderFallbackOptions = {}) {}
+
+  apply(context: FallbackContext): void {
+    const { template = DEFAULT_TEMPLATE } = this.options;
+
+    this.element = context.element;
+    this.original = detachChildren(context.element);
+    context.element.insertAdjacentHTML(
+      'afterbegin',
+      typeof template === 'function'
+        ? template(context)
+        : template
+            .replace(/\{\{reason\}\}/g, context.reason)
+            .replace(/\{\{securityLevel\}\}/g, context.drmStatus.securityLevel)
+    );
+  }
+
+  revert(): void {
+    if (this.element && this.original) {
+      restoreChildren(this.element, this.original);
+    }
+    this.element = null;
+    this.original = null;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * ScrambleFallback - Scrambles the text, unscrambling it while hovered
+ *
+ * Letters and digits are swapped for random ones of the same kind, keeping the
+ * layout intact. The readable text is only in the DOM while the pointer is over
+ * the element.
+ */
+
+import { FallbackContext, FallbackStrategy } from './FallbackStrategy';
+
+const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz';
+const UPPERCASE = LOWERCASE.toUpperCase();
+const DIGITS = '0123456789';
+
+export class ScrambleFallback implements FallbackStrategy {
+  readonly name = 'scramble';
+  private element: HTMLElement | null = null;
+  private originals = new Map<Text, string>();
+
+  apply({ element }: FallbackContext): void {
+    this.element = element;
+
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (node.textContent?.trim()) {
+        this.originals.set(node as Text, node.textContent);
+      }
+    }
+
+    this.scramble();
+    element.addEventListener('mouseenter', this.unscramble);
+    element.addEventListener('mouseleave', this.scramble);
+  }
+
+  revert(): void {
+    if (this.element) {
+      this.element.removeEventListener('mouseenter', this.unscramble);
+      this.element.removeEventListener('mouseleave', this.scramble);
+      this.unscramble();
+    }
+    this.element = null;
+    this.originals.clear();
+  }
+
+  private scramble = (): void => {
+    this.originals.forEach((text, node) => {
+      node.textContent = text
+        .replace(/[a-z]/g, () => pick(LOWERCASE))
+        .replace(/[A-Z]/g, () => pick(UPPERCASE))
+        .replace(/[0-9]/g, () => pick(DIGITS));
+    });
+  };
+
+  private unscramble = (): void => {
+    this.originals.forEach((text, node) => {
+      node.textContent = text;
+    });
+  };
+}
+
+function pick(characters: string): string {
+  return characters[Math.floor(Math.random() * characters.length)];
+}
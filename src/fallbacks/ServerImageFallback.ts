@@ -0,0 +1,57 @@
+/**
+ * ServerImageFallback - Replaces the text with an image rendered by the server
+ *
+ * The text leaves the DOM; readers see the server's rendering of it, which
+ * text extraction and copy-paste cannot pick up.
+ */
+
+import {
+  detachChildren,
+  restoreChildren,
+  FallbackContext,
+  FallbackStrategy,
+} from './FallbackStrategy';
+
+export interface ServerImageFallbackOptions {
+  /** URL of the rendered image, or a function building it */
+  imageUrl: string | ((context: FallbackContext) => string);
+
+  /** Optional: Alternative text of the image */
+  alt?: string;
+}
+
+export class ServerImageFallback implements FallbackStrategy {
+  readonly name = 'server-image';
+  private element: HTMLElement | null = null;
+  private original: DocumentFragment | null = null;
+  private options: ServerImageFallbackOptions;
+
+  // Partial, as registry options are only checked here
+  constructor({ imageUrl, alt }: Partial<ServerImageFallbackOptions> = {}) {
+    if (!imageUrl) {
+      throw new Error('The server-image fallback requires an imageUrl option');
+    }
+    this.options = { imageUrl, alt };
+  }
+
+  apply(context: FallbackContext): void {
+    const { imageUrl, alt } = this.options;
+
+    const image = document.createElement('img');
+    image.src = typeof imageUrl === 'function' ? imageUrl(context) : imageUrl;
+    image.alt = alt || 'Protected content';
+    image.style.maxWidth = '100%';
+
+    this.element = context.element;
+    this.original = detachChildren(context.element);
+    context.element.prepend(image);
+  }
+
+  revert(): void {
+    if (this.element && this.original) {
+      restoreChildren(this.element, this.original);
+    }
+    this.element = null;
+    this.original = null;
+  }
+}
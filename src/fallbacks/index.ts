@@ -0,0 +1,37 @@
+/**
+ * Fallback strategies - standardized barrel pattern
+ */
+
+import { BlurFallback } from './BlurFallback';
+import { HideFallback } from './HideFallback';
+import { PlaceholderFallback } from './PlaceholderFallback';
+import { NoneFallback } from './NoneFallback';
+import { ClickToRevealFallback } from './ClickToRevealFallback';
+import { ScrambleFallback } from './ScrambleFallback';
+import { ServerImageFallback } from './ServerImageFallback';
+import { fallbackRegistry } from './FallbackRegistry';
+
+// Register built-in strategies
+fallbackRegistry.register('blur', BlurFallback);
+fallbackRegistry.register('hide', HideFallback);
+fallbackRegistry.register('placeholder', PlaceholderFallback);
+fallbackRegistry.register('none', NoneFallback);
+fallbackRegistry.register('click-to-reveal', ClickToRevealFallback);
+fallbackRegistry.register('scramble', ScrambleFallback);
+fallbackRegistry.register('server-image', ServerImageFallback);
+
+export { detachChildren, restoreChildren } from './FallbackStrategy';
+export { BlurFallback } from './BlurFallback';
+export { HideFallback } from './HideFallback';
+export { PlaceholderFallback } from './PlaceholderFallback';
+export { NoneFallback } from './NoneFallback';
+export { ClickToRevealFallback } from './ClickToRevealFallback';
+export { ScrambleFallback } from './ScrambleFallback';
+export { ServerImageFallback } from './ServerImageFallback';
+export { FallbackRegistry, fallbackRegistry } from './FallbackRegistry';
+export type { FallbackStrategy, FallbackContext, FallbackReason } from './FallbackStrategy';
+export type { FallbackStrategyConstructor } from './FallbackRegistry';
+export type { BlurFallbackOptions } from './BlurFallback';
+export type { PlaceholderFallbackOptions } from './PlaceholderFallback';
+export type { ClickToRevealFallbackOptions } from './ClickToRevealFallback';
+export type { ServerImageFallbackOptions } from './ServerImageFallback';
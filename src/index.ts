@@ -8,11 +8,19 @@
 // Core library
 export { Cloakscreen } from './core/Cloakscreen';
 export { protect } from './quick-start';
+export { DRMCoordinator, drmCoordinator } from './core/DRMCoordinator';
 
 // Providers
 export {
   DRMProvider,
   PallyConProvider,
+  ClearKeyProvider,
+  AxinomProvider,
+  EZDRMProvider,
+  StandardDRMProvider,
+  WidevineProvider,
+  PlayReadyProvider,
+  FairPlayProvider,
   Providers,
   createProvider,
   providerRegistry,
@@ -20,7 +28,13 @@ export {
 } from './providers';
 
 // Adapters
-export { ContentAdapter, TextAdapter } from './adapters';
+export {
+  ContentAdapter,
+  TextAdapter,
+  ImageAdapter,
+  AdapterRegistry,
+  adapterRegistry,
+} from './adapters';
 
 // Essential utilities
 export {
@@ -49,7 +63,25 @@ export {
 } from './utils/drm-detection';
 
 // Auto-setup utilities
-export { initAutoProtection, findProtectedContent } from './utils/auto-setup';
+export {
+  initAutoProtection,
+  stopAutoProtection,
+  findProtectedContent,
+  getElementConfig,
+} from './utils/auto-setup';
+
+// Fallback strategies
+export {
+  FallbackRegistry,
+  fallbackRegistry,
+  BlurFallback,
+  HideFallback,
+  PlaceholderFallback,
+  NoneFallback,
+  ClickToRevealFallback,
+  ScrambleFallback,
+  ServerImageFallback,
+} from './fallbacks';
 
 // Error handling
 export {
@@ -67,13 +99,67 @@ export type {
   CloakscreenInstance,
   DRMStatus,
   DRMProviderConfig,
+  DRMProviderInput,
   BrowserCapabilities,
   DRMImplementation,
   PallyConConfig,
+  ResponsiveAsset,
+  AttestationConfig,
+  AttestationReport,
+  SignedAttestationReport,
+  FallbackMode,
+  FallbackSelection,
+  ProtectionState,
+  ProtectionStateChange,
+  PlaybackWatchdogOptions,
 } from './types';
 
+// Event types
+export type {
+  CloakscreenEvents,
+  DRMManagerEvents,
+  LayerManagerEvents,
+  DRMProviderEvents,
+  DRMErrorEventData,
+  ProviderFailoverEventData,
+  SecurityInsufficientEventData,
+  FallbackActivatedEventData,
+  FallbackRevealedEventData,
+  LayersResizedEventData,
+} from './types/events';
+export type { EventName, EventListener } from './utils/EventEmitter';
+
+// Fallback types
+export type {
+  FallbackStrategy,
+  FallbackContext,
+  FallbackReason,
+  FallbackStrategyConstructor,
+  BlurFallbackOptions,
+  PlaceholderFallbackOptions,
+  ClickToRevealFallbackOptions,
+  ServerImageFallbackOptions,
+} from './fallbacks';
+
 // Provider types
-export type { DRMCapabilities, ProviderMetadata, ProviderHealth } from './providers/base';
+export type {
+  DRMCapabilities,
+  ProviderMetadata,
+  ProviderHealth,
+  LicenseTokenEvent,
+  UserContext,
+  GetUserContext,
+} from './providers/base';
+export type {
+  ClearKeyConfig,
+  AxinomConfig,
+  EZDRMConfig,
+  StandardDRMSystem,
+  StandardProviderConfig,
+} from './providers';
+
+// Adapter types
+export type { AdapterMatcher, ContentAdapterConstructor } from './adapters';
 
 // Error types
 export type { ErrorContext } from './errors';
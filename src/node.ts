@@ -15,6 +15,8 @@ export type {
   ProviderMetadata,
   ProviderHealth,
   PallyConConfig,
+  AxinomConfig,
+  EZDRMConfig,
 } from './providers';
 
 // Re-export EME utilities
@@ -29,8 +31,19 @@ export {
 } from './utils/eme';
 
 // Node.js-only DRM tools
-export { VideoGenerator, DRMWorkflow, DRMEncryption, PallyConEncryption } from './drm';
+export {
+  VideoGenerator,
+  DRMWorkflow,
+  DRMEncryption,
+  PallyConEncryption,
+  ClearKeyEncryption,
+  AxinomEncryption,
+  EZDRMEncryption,
+  createAxinomEntitlementMessage,
+} from './drm';
 export type {
+  AxinomContentKey,
+  AxinomEntitlementOptions,
   VideoGenerationOptions,
   EncryptionResult,
   EncryptedContent,
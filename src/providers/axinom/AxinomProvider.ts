@@ -0,0 +1,287 @@
+/**
+ * AxinomProvider - Axinom DRM integration
+ *
+ * Picks the best DRM system for the browser, fetches a signed entitlement
+ * message from the application backend and sends it with every license
+ * request in the X-AxDRM-Message header.
+ */
+
+import { DRMProvider } from '../base/DRMProvider';
+import { AxinomConfig, AxinomTokenRequest, AxinomTokenResponse } from './types';
+import { StandardDRMSystem } from '../standard/types';
+import {
+  DRMCapabilities,
+  ProviderMetadata,
+  ProviderHealth,
+  CachedLicenseToken,
+  FetchedLicenseToken,
+} from '../base/types';
+import { getProviderDefaults } from '../base/ProviderDefaults';
+import { KeySystem } from '../../utils/eme';
+import { validateAxinomConfig, AxinomConfigSchema } from './config';
+import { configurationManager } from '../base/ConfigurationManager';
+import { providerLogger } from '../../utils/logger';
+import { MediaPlayer } from '../../types/player';
+import { detectOptimalDRM } from '../../utils/drm-detection';
+
+/** Header carrying the entitlement message */
+export const AXINOM_MESSAGE_HEADER = 'X-AxDRM-Message';
+
+/** Key system name Shaka Player expects in its DRM configuration */
+const PLAYER_KEY_SYSTEMS: Record<StandardDRMSystem, string> = {
+  widevine: 'com.widevine.alpha',
+  playready: 'com.microsoft.playready',
+  fairplay: 'com.apple.fps',
+};
+
+export class AxinomProvider extends DRMProvider {
+  private axinomConfig: AxinomConfig;
+  private currentToken: string | null = null;
+  private currentSystem: StandardDRMSystem = 'widevine';
+
+  constructor(config: Partial<AxinomConfig>) {
+    // Add name to config for base class
+    const configWithName = { ...config, name: 'axinom' };
+    super(configWithName);
+
+    // Register configuration schema
+    configurationManager.registerSchema('axinom', AxinomConfigSchema);
+
+    // Validate and transform configuration
+    this.axinomConfig = validateAxinomConfig(config);
+    this.validateConfig();
+  }
+
+  /**
+   * Get provider metadata
+   */
+  static getMetadata(): ProviderMetadata {
+    const defaults = getProviderDefaults('axinom');
+
+    return {
+      name: 'axinom',
+      displayName: 'Axinom DRM',
+      description: 'Multi-DRM license service by Axinom, authorized with entitlement messages',
+      supportedKeySystems: [KeySystem.WIDEVINE, KeySystem.PLAYREADY, KeySystem.FAIRPLAY],
+      requiredConfig: defaults.requiredFields,
+    };
+  }
+
+  /**
+   * Get provider capabilities
+   */
+  getCapabilities(): DRMCapabilities {
+    return {
+      keySystems: [KeySystem.WIDEVINE, KeySystem.PLAYREADY, KeySystem.FAIRPLAY],
+      requiresHardwareSecurity: false,
+    };
+  }
+
+  /**
+   * Get provider health status
+   */
+  async getHealthStatus(): Promise<ProviderHealth> {
+    try {
+      // The license service only accepts POST; anything but a server error means it is reachable
+      const licenseServerResponse = await fetch(this.getLicenseServerUrl(), {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(5000),
+      });
+      if (licenseServerResponse.status >= 500) {
+        return {
+          status: 'error',
+          error: `License server unreachable (${licenseServerResponse.status})`,
+        };
+      }
+
+      // Check token endpoint connectivity
+      const tokenResponse = await fetch(this.axinomConfig.tokenEndpoint, {
+        method: 'HEAD',
+        headers: this.axinomConfig.headers,
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!tokenResponse.ok) {
+        return {
+          status: 'error',
+          error: `Token endpoint unreachable (${tokenResponse.status})`,
+        };
+      }
+
+      return { status: 'healthy' };
+    } catch (error) {
+      return {
+        status: 'error',
+        error: `Health check failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Initialize Axinom provider
+   */
+  async initialize(): Promise<void> {
+    try {
+      const detection = await detectOptimalDRM();
+      const system = detection.primaryDRM;
+
+      if (system !== 'widevine' && system !== 'playready' && system !== 'fairplay') {
+        throw new Error('No supported DRM system found for Axinom');
+      }
+
+      this.currentSystem = system;
+      providerLogger.info(`Axinom using ${system}`);
+
+      this.initialized = true;
+      this.emit('provider-ready');
+    } catch (error) {
+      this.emit('provider-error', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a signed entitlement message, reusing the cached one until it nears expiry
+   */
+  async getLicenseToken(contentId: string = 'blank'): Promise<string> {
+    const tokenContentId = this.axinomConfig.contentId || contentId;
+
+    return this.getCachedLicenseToken(tokenContentId, this.currentSystem, () =>
+      this.requestEntitlementMessage(tokenContentId)
+    );
+  }
+
+  /**
+   * Renewed entitlement messages are sent with the next license request
+   */
+  protected onLicenseTokenRenewed(token: CachedLicenseToken): void {
+    this.currentToken = token.token;
+  }
+
+  /**
+   * Request a new entitlement message from the token endpoint
+   */
+  private async requestEntitlementMessage(contentId: string): Promise<FetchedLicenseToken> {
+    try {
+      const user = await this.axinomConfig.getUserContext?.();
+
+      const tokenRequest: AxinomTokenRequest = {
+        contentId,
+        drmType: this.currentSystem,
+        ...(user?.userId ? { userId: user.userId } : {}),
+      };
+
+      const response = await fetch(this.axinomConfig.tokenEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.axinomConfig.headers,
+          ...(user?.authorization ? { Authorization: user.authorization } : {}),
+        },
+        body: JSON.stringify(tokenRequest),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Token request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data: AxinomTokenResponse = await response.json();
+
+      if (!data.token) {
+        throw new Error('No token received from server');
+      }
+
+      // Without an explicit (parsable) expiry the JWT exp claim is used
+      return {
+        token: data.token,
+        expiresAt: (data.expires && Date.parse(data.expires)) || undefined,
+        contentToken: data.contentToken,
+      };
+    } catch (error) {
+      providerLogger.error('Error getting entitlement message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get license server URL for the selected DRM system
+   */
+  getLicenseServerUrl(): string {
+    return this.axinomConfig.licenseServers[this.currentSystem] || this.axinomConfig.licenseServer;
+  }
+
+  /**
+   * Get content URL - returns the protected content manifest
+   */
+  async getContentUrl(): Promise<string> {
+    if (this.axinomConfig.manifestUrl) {
+      return this.axinomConfig.manifestUrl;
+    }
+
+    // FairPlay requires HLS content, Widevine/PlayReady use DASH
+    return this.currentSystem === 'fairplay'
+      ? '/hls_assets/master.m3u8'
+      : '/dash_assets/stream.mpd';
+  }
+
+  /**
+   * Configure Shaka Player for the Axinom license service
+   */
+  async configurePlayer(player: MediaPlayer): Promise<void> {
+    if (!player) {
+      throw new Error('Player instance required');
+    }
+
+    const keySystem = PLAYER_KEY_SYSTEMS[this.currentSystem];
+    const certificateUrl = this.axinomConfig.certificateUrl;
+
+    if (this.currentSystem === 'fairplay' && !certificateUrl) {
+      throw new Error('Axinom FairPlay requires certificateUrl');
+    }
+
+    // Get the entitlement message first and store it on the instance
+    this.currentToken = await this.getLicenseToken();
+
+    player.configure({
+      drm: {
+        servers: { [keySystem]: this.getLicenseServerUrl() },
+        advanced: certificateUrl ? { [keySystem]: { serverCertificateUri: certificateUrl } } : {},
+      },
+    });
+
+    player.getNetworkingEngine().registerRequestFilter((type, request) => {
+      if (type === (window as any).shaka.net.NetworkingEngine.RequestType.LICENSE) {
+        if (this.currentToken) {
+          request.headers[AXINOM_MESSAGE_HEADER] = this.currentToken;
+        }
+      }
+    });
+
+    player.addEventListener('error', (event: any) => {
+      providerLogger.error('Shaka Player error:', event.detail?.code, event.detail);
+      this.emit('drm-error', { error: event.detail });
+    });
+  }
+
+  /**
+   * Destroy provider and cleanup
+   */
+  destroy(): void {
+    this.clearLicenseTokens();
+    this.currentToken = null;
+    this.initialized = false;
+    this.removeAllListeners();
+  }
+
+  /**
+   * Validate provider configuration (implements abstract method)
+   */
+  validateConfig(): void {
+    this.validateBasicConfig();
+
+    const validation = configurationManager.validateConfig('axinom', this.axinomConfig);
+
+    if (!validation.valid) {
+      throw new Error(`Axinom configuration validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Axinom configuration schema and validation
+ */
+
+import * as v from 'valibot';
+import { AxinomConfig } from './types';
+import { StandardDRMSystem } from '../standard/types';
+import { getProviderDefaults } from '../base/ProviderDefaults';
+
+/**
+ * Axinom test environment license servers, used for systems without an override
+ */
+export const AXINOM_LICENSE_SERVERS: Record<StandardDRMSystem, string> = {
+  widevine: getProviderDefaults('axinom').licenseServer,
+  playready: 'https://drm-playready-licensing.axtest.net/AcquireLicense',
+  fairplay: 'https://drm-fairplay-licensing.axtest.net/AcquireLicense',
+};
+
+const isRelativeOrAbsoluteUrl = (url: string) => url.startsWith('/') || /^https?:\/\//.test(url);
+
+const LicenseServerSchema = v.pipe(v.string(), v.url('License server must be a valid URL'));
+
+/**
+ * Axinom configuration schema with validation
+ */
+export const AxinomConfigSchema = v.object({
+  tokenEndpoint: v.pipe(
+    v.string(),
+    v.minLength(1, 'Token endpoint is required'),
+    v.check(isRelativeOrAbsoluteUrl, 'Token endpoint must be a relative path or full URL')
+  ),
+
+  licenseServer: LicenseServerSchema,
+  licenseServers: v.object({
+    widevine: v.optional(LicenseServerSchema),
+    playready: v.optional(LicenseServerSchema),
+    fairplay: v.optional(LicenseServerSchema),
+  }),
+  certificateUrl: v.optional(
+    v.pipe(
+      v.string(),
+      v.check(isRelativeOrAbsoluteUrl, 'Certificate URL must be a relative path or full URL')
+    )
+  ),
+
+  manifestUrl: v.optional(v.string()),
+  contentId: v.optional(v.string()),
+  headers: v.optional(v.record(v.string(), v.string())),
+  getUserContext: v.optional(v.function()),
+  debug: v.optional(v.boolean(), false),
+});
+
+/**
+ * Validate Axinom configuration
+ */
+export function validateAxinomConfig(config: Partial<AxinomConfig> = {}): AxinomConfig {
+  try {
+    // licenseServer is the Widevine shorthand; an explicit licenseServers entry wins
+    const licenseServers = {
+      ...AXINOM_LICENSE_SERVERS,
+      ...(config.licenseServer ? { widevine: config.licenseServer } : {}),
+      ...config.licenseServers,
+    };
+
+    const configWithDefaults = {
+      ...config,
+      licenseServer: licenseServers.widevine,
+      licenseServers,
+    };
+
+    return v.parse(AxinomConfigSchema, configWithDefaults) as AxinomConfig;
+  } catch (error) {
+    if (v.isValiError(error)) {
+      const errorMessages = v.flatten(error.issues).nested;
+      const formattedErrors = Object.entries(errorMessages || {}).map(
+        ([path, issues]) => `${path}: ${issues?.[0] || 'Invalid value'}`
+      );
+      throw new Error(`Axinom configuration validation failed:\n${formattedErrors.join('\n')}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Axinom provider exports
+ */
+
+export { AxinomProvider, AXINOM_MESSAGE_HEADER } from './AxinomProvider';
+export type { AxinomConfig, AxinomTokenRequest, AxinomTokenResponse } from './types';
+export { AxinomConfigSchema, AXINOM_LICENSE_SERVERS, validateAxinomConfig } from './config';
@@ -0,0 +1,73 @@
+/**
+ * Axinom-specific types and interfaces
+ */
+
+import { StandardDRMSystem } from '../standard/types';
+import { GetUserContext } from '../base/types';
+
+/**
+ * Axinom DRM provider configuration
+ *
+ * Axinom authorizes every license request with an entitlement message: a JWT
+ * signed with the tenant communication key. Signing needs that secret, so the
+ * browser fetches the JWT from your backend (`tokenEndpoint`).
+ */
+export interface AxinomConfig {
+  /** Backend endpoint returning a signed entitlement message */
+  tokenEndpoint: string;
+
+  /** Widevine license server URL (defaults to the Axinom test environment) */
+  licenseServer: string;
+
+  /** License server URL per DRM system; missing entries use the Axinom test environment */
+  licenseServers: Partial<Record<StandardDRMSystem, string>>;
+
+  /** Optional: FairPlay application certificate URL */
+  certificateUrl?: string;
+
+  /** Optional: Custom headers for token requests */
+  headers?: Record<string, string>;
+
+  /** Optional: Enable debug logging */
+  debug?: boolean;
+
+  /** Optional: Manifest URL for DRM content */
+  manifestUrl?: string;
+
+  /** Optional: Content ID sent to the token endpoint */
+  contentId?: string;
+
+  /** Optional: Resolve the signed-in user before each token request */
+  getUserContext?: GetUserContext;
+
+  /** Provider-specific settings */
+  [key: string]: unknown;
+}
+
+/**
+ * Entitlement message request sent to the token endpoint
+ */
+export interface AxinomTokenRequest {
+  /** Content the entitlement is requested for */
+  contentId: string;
+
+  /** DRM system the license will be requested with */
+  drmType: StandardDRMSystem;
+
+  /** Optional: User identifier (the backend signs for the authenticated user) */
+  userId?: string;
+}
+
+/**
+ * Token endpoint response
+ */
+export interface AxinomTokenResponse {
+  /** Signed entitlement message (JWT) */
+  token: string;
+
+  /** Optional: Token expiration time (ISO 8601); defaults to the JWT exp claim */
+  expires?: string;
+
+  /** Optional: Short-lived token for fetching the protected content */
+  contentToken?: string;
+}
@@ -7,19 +7,36 @@
 
 import EventEmitter from '../../utils/EventEmitter';
 import { DRMImplementation } from '../../types';
+import { DRMProviderEvents } from '../../types/events';
 import {
   DRMCapabilities,
   ProviderMetadata,
   ProviderHealth,
+  CachedLicenseToken,
+  FetchedLicenseToken,
+  LicenseTokenEvent,
   LicenseRequest,
   LicenseResponse,
 } from './types';
 import { MediaPlayer } from '../../types/player';
 import { DRMProviderConfig } from '../../types/config';
+import { providerLogger } from '../../utils/logger';
 
-export abstract class DRMProvider extends EventEmitter implements DRMImplementation {
+/** Renew tokens this long before they expire */
+const TOKEN_RENEWAL_LEAD_TIME = 60 * 1000;
+
+/** Wait this long before retrying a failed renewal */
+const TOKEN_RENEWAL_RETRY_DELAY = 15 * 1000;
+
+export abstract class DRMProvider
+  extends EventEmitter<DRMProviderEvents>
+  implements DRMImplementation
+{
   protected config: DRMProviderConfig;
   protected initialized: boolean = false;
+  private tokenCache = new Map<string, CachedLicenseToken>();
+  private renewalTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private tokenGeneration = 0;
 
   constructor(config: DRMProviderConfig) {
     super();
@@ -122,6 +139,148 @@ export abstract class DRMProvider extends EventEmitter implements DRMImplementat
     return (this.constructor as typeof DRMProvider).getMetadata().displayName;
   }
 
+  // ===== License Token Cache =====
+
+  /**
+   * Get the license tokens currently held, one per content and DRM type
+   */
+  getLicenseTokens(): CachedLicenseToken[] {
+    return Array.from(this.tokenCache.values());
+  }
+
+  /**
+   * Drop the cached tokens so the next license request fetches a new one,
+   * e.g. after the license server revoked the session
+   */
+  invalidateLicenseTokens(): void {
+    this.clearLicenseTokens();
+  }
+
+  /**
+   * Hook called when a cached token was renewed in the background
+   */
+  protected onLicenseTokenRenewed?(token: CachedLicenseToken): void;
+
+  /**
+   * Get a token from the cache, fetching it when missing or about to expire.
+   * Tokens with a known expiry are renewed proactively, emitting `license-expiring`
+   * and then `license-renewed`.
+   */
+  protected async getCachedLicenseToken(
+    contentId: string,
+    drmType: string,
+    fetchToken: () => Promise<FetchedLicenseToken>
+  ): Promise<string> {
+    const key = `${contentId}:${drmType}`;
+    const cached = this.tokenCache.get(key);
+
+    if (
+      cached &&
+      (cached.expiresAt === null || cached.expiresAt - Date.now() > TOKEN_RENEWAL_LEAD_TIME)
+    ) {
+      return cached.token;
+    }
+
+    const entry = await this.fetchLicenseToken(key, contentId, drmType, fetchToken);
+    if (!entry) {
+      throw new Error('Provider was destroyed while fetching the license token');
+    }
+
+    return entry.token;
+  }
+
+  /**
+   * Drop all cached tokens and stop their renewal
+   */
+  protected clearLicenseTokens(): void {
+    this.renewalTimers.forEach(timer => clearTimeout(timer));
+    this.renewalTimers.clear();
+    this.tokenCache.clear();
+    this.tokenGeneration++;
+  }
+
+  private async fetchLicenseToken(
+    key: string,
+    contentId: string,
+    drmType: string,
+    fetchToken: () => Promise<FetchedLicenseToken>
+  ): Promise<CachedLicenseToken | null> {
+    const generation = this.tokenGeneration;
+    const fetched = await fetchToken();
+    const entry: CachedLicenseToken = {
+      token: fetched.token,
+      contentId,
+      drmType,
+      expiresAt: fetched.expiresAt ?? getJwtExpiry(fetched.token),
+      contentToken: fetched.contentToken,
+    };
+
+    // The cache was cleared (provider destroyed) while fetching
+    if (generation !== this.tokenGeneration) {
+      return null;
+    }
+
+    this.tokenCache.set(key, entry);
+    this.scheduleRenewal(key, entry.expiresAt, fetchToken);
+
+    return entry;
+  }
+
+  private scheduleRenewal(
+    key: string,
+    expiresAt: number | null,
+    fetchToken: () => Promise<FetchedLicenseToken>,
+    delay = expiresAt === null ? null : expiresAt - TOKEN_RENEWAL_LEAD_TIME - Date.now()
+  ): void {
+    clearTimeout(this.renewalTimers.get(key));
+    this.renewalTimers.delete(key);
+
+    if (delay === null) {
+      return;
+    }
+
+    this.renewalTimers.set(
+      key,
+      setTimeout(() => this.renewLicenseToken(key, fetchToken), Math.max(0, delay))
+    );
+  }
+
+  private async renewLicenseToken(
+    key: string,
+    fetchToken: () => Promise<FetchedLicenseToken>
+  ): Promise<void> {
+    const expiring = this.tokenCache.get(key);
+    if (!expiring) {
+      return;
+    }
+
+    const { contentId, drmType, expiresAt } = expiring;
+    this.emit('license-expiring', { contentId, drmType, expiresAt } satisfies LicenseTokenEvent);
+
+    try {
+      const renewed = await this.fetchLicenseToken(key, contentId, drmType, fetchToken);
+      if (!renewed) {
+        return;
+      }
+
+      this.onLicenseTokenRenewed?.(renewed);
+      this.emit('license-renewed', {
+        contentId,
+        drmType,
+        expiresAt: renewed.expiresAt,
+      } satisfies LicenseTokenEvent);
+    } catch (error) {
+      providerLogger.error('License token renewal failed:', error);
+
+      // Keep retrying while the old token is still valid
+      if (expiresAt !== null && expiresAt - Date.now() > TOKEN_RENEWAL_RETRY_DELAY) {
+        this.scheduleRenewal(key, expiresAt, fetchToken, TOKEN_RENEWAL_RETRY_DELAY);
+      } else {
+        this.tokenCache.delete(key);
+      }
+    }
+  }
+
   /**
    * Basic configuration validation (can be overridden)
    */
@@ -131,3 +290,20 @@ export abstract class DRMProvider extends EventEmitter implements DRMImplementat
     }
   }
 }
+
+/**
+ * Read the `exp` claim of a JWT token, if the token is one
+ */
+function getJwtExpiry(token: string): number | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
@@ -14,6 +14,17 @@ export interface ProviderDefaults {
   optionalFields: string[];
 }
 
+const STANDARD_OPTIONAL_FIELDS = [
+  'licenseServer',
+  'certificateUrl',
+  'siteId',
+  'headers',
+  'wrapRequest',
+  'unwrapResponse',
+  'manifestUrl',
+  'debug',
+];
+
 /**
  * Provider-specific default configurations
  */
@@ -25,24 +36,63 @@ export const PROVIDER_DEFAULTS: Record<string, ProviderDefaults> = {
     optionalFields: ['licenseServer', 'certificateUri', 'debug'],
   },
 
+  // Widevine server of the Axinom test environment; see AXINOM_LICENSE_SERVERS for the others
+  axinom: {
+    licenseServer: 'https://drm-widevine-licensing.axtest.net/AcquireLicense',
+    requiredFields: ['tokenEndpoint'],
+    optionalFields: [
+      'licenseServer',
+      'licenseServers',
+      'certificateUrl',
+      'headers',
+      'contentId',
+      'manifestUrl',
+      'debug',
+    ],
+  },
+
+  // pX identifies the EZDRM account; see EZDRM_LICENSE_SERVERS for PlayReady and FairPlay
+  ezdrm: {
+    licenseServer:
+      'https://widevine-dash.ezdrm.com/widevine-php/widevine-foreignkey.php?pX={accountId}',
+    requiredFields: ['accountId'],
+    optionalFields: [
+      'licenseServer',
+      'licenseServers',
+      'certificateUrl',
+      'authParams',
+      'contentId',
+      'manifestUrl',
+      'debug',
+    ],
+  },
+
+  // Vendor-neutral providers (StandardDRMProvider) - point licenseServer at any proxy
   widevine: {
     licenseServer: 'https://widevine-proxy.appspot.com/proxy',
     certificatePattern: 'https://www.gstatic.com/widevine/cert/{siteId}',
-    requiredFields: ['siteId', 'tokenEndpoint'],
-    optionalFields: ['licenseServer', 'certificateUri', 'debug'],
+    requiredFields: [],
+    optionalFields: STANDARD_OPTIONAL_FIELDS,
   },
 
   playready: {
     licenseServer: 'https://playready.directtaps.net/pr/svc/rightsmanager.asmx',
-    requiredFields: ['siteId', 'tokenEndpoint'],
-    optionalFields: ['licenseServer', 'debug'],
+    requiredFields: [],
+    optionalFields: STANDARD_OPTIONAL_FIELDS,
   },
 
   fairplay: {
     licenseServer: 'https://fps.ezdrm.com/api/licenses/{siteId}',
     certificatePattern: 'https://fps.ezdrm.com/demo/video/eleisure.cer',
-    requiredFields: ['siteId', 'tokenEndpoint'],
-    optionalFields: ['licenseServer', 'certificateUri', 'debug'],
+    requiredFields: [],
+    optionalFields: STANDARD_OPTIONAL_FIELDS,
+  },
+
+  // Development only - served by the local API server
+  clearkey: {
+    licenseServer: '/api/clearkey/license',
+    requiredFields: [],
+    optionalFields: ['licenseServer', 'keys', 'manifestUrl', 'debug'],
   },
 };
 
@@ -23,6 +23,11 @@ export type {
   ProviderMetadata,
   ProviderDefaults,
   ProviderHealth,
+  CachedLicenseToken,
+  FetchedLicenseToken,
+  LicenseTokenEvent,
+  UserContext,
+  GetUserContext,
   LicenseRequest,
   LicenseResponse,
   StandardDRMConfig,
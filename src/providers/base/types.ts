@@ -63,6 +63,65 @@ export interface ProviderHealth {
   error?: string;
 }
 
+/**
+ * License token cached per content and DRM type
+ */
+export interface CachedLicenseToken {
+  /** License token */
+  token: string;
+
+  /** Content the token was issued for */
+  contentId: string;
+
+  /** DRM type the token was issued for */
+  drmType: string;
+
+  /** Expiry as epoch milliseconds, or null when the token carries no expiry */
+  expiresAt: number | null;
+
+  /** Optional: Short-lived token for fetching the protected content (see `options.contentUrl`) */
+  contentToken?: string;
+}
+
+/**
+ * Token returned by a provider's token fetcher
+ */
+export interface FetchedLicenseToken {
+  /** License token */
+  token: string;
+
+  /** Expiry from the token response (epoch milliseconds); JWT `exp` claims are read otherwise */
+  expiresAt?: number | null;
+
+  /** Optional: Content token issued together with the license token */
+  contentToken?: string;
+}
+
+/**
+ * Payload of `license-expiring` and `license-renewed` events
+ */
+export interface LicenseTokenEvent {
+  contentId: string;
+  drmType: string;
+  expiresAt: number | null;
+}
+
+/**
+ * Signed-in user sent with token requests
+ */
+export interface UserContext {
+  /** Optional: User identifier (informational - servers mint tokens for the authenticated user) */
+  userId?: string;
+
+  /** Optional: Authorization header value, e.g. `Bearer <jwt>` */
+  authorization?: string;
+}
+
+/**
+ * Resolve the signed-in user before each token request
+ */
+export type GetUserContext = () => Promise<UserContext>;
+
 /**
  * License request object
  */
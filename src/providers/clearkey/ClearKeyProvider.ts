@@ -0,0 +1,216 @@
+/**
+ * ClearKeyProvider - W3C ClearKey integration for development and testing
+ *
+ * ClearKey delivers content keys to the browser unprotected and decrypts in
+ * software, so screenshots are NOT blocked. It exists to run the full protect
+ * flow locally and in CI without a commercial license server. Never use it to
+ * protect real content.
+ */
+
+import { DRMProvider } from '../base/DRMProvider';
+import { ClearKeyConfig } from './types';
+import { DRMCapabilities, ProviderMetadata, ProviderHealth, LicenseRequest } from '../base/types';
+import { getProviderDefaults } from '../base/ProviderDefaults';
+import { KeySystem, isKeySystemSupported } from '../../utils/eme';
+import { validateClearKeyConfig, ClearKeyConfigSchema } from './config';
+import { configurationManager } from '../base/ConfigurationManager';
+import { providerLogger } from '../../utils/logger';
+import { MediaPlayer } from '../../types/player';
+
+export class ClearKeyProvider extends DRMProvider {
+  private clearKeyConfig: ClearKeyConfig;
+
+  constructor(config: Partial<ClearKeyConfig>) {
+    // Add name to config for base class
+    const configWithName = { ...config, name: 'clearkey' };
+    super(configWithName);
+
+    // Register configuration schema
+    configurationManager.registerSchema('clearkey', ClearKeyConfigSchema);
+
+    // Validate and transform configuration
+    this.clearKeyConfig = validateClearKeyConfig(config);
+    this.validateConfig();
+  }
+
+  /**
+   * Get provider metadata
+   */
+  static getMetadata(): ProviderMetadata {
+    const defaults = getProviderDefaults('clearkey');
+
+    return {
+      name: 'clearkey',
+      displayName: 'ClearKey (development only)',
+      description:
+        'W3C ClearKey for local development and integration tests - not production-grade protection',
+      supportedKeySystems: [KeySystem.CLEARKEY],
+      requiredConfig: defaults.requiredFields,
+    };
+  }
+
+  /**
+   * Get provider capabilities
+   */
+  getCapabilities(): DRMCapabilities {
+    return {
+      keySystems: [KeySystem.CLEARKEY],
+      requiresHardwareSecurity: false,
+    };
+  }
+
+  /**
+   * Get provider health status
+   */
+  async getHealthStatus(): Promise<ProviderHealth> {
+    if (this.clearKeyConfig.keys) {
+      return { status: 'healthy' };
+    }
+
+    try {
+      // An empty key request is answered with an empty key set
+      const response = await fetch(this.getLicenseServerUrl(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.clearKeyConfig.headers },
+        body: JSON.stringify({ kids: [], type: 'temporary' }),
+        signal: AbortSignal.timeout(5000),
+      });
+
+      if (!response.ok) {
+        return {
+          status: 'error',
+          error: `License server unreachable (${response.status})`,
+        };
+      }
+
+      return { status: 'healthy' };
+    } catch (error) {
+      return {
+        status: 'error',
+        error: `Health check failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Initialize ClearKey provider
+   */
+  async initialize(): Promise<void> {
+    try {
+      providerLogger.warn(
+        'ClearKey provides no screenshot protection - use it for development and testing only'
+      );
+
+      if (!(await isKeySystemSupported(KeySystem.CLEARKEY))) {
+        throw new Error('ClearKey is not supported in this browser');
+      }
+
+      this.initialized = true;
+      this.emit('provider-ready');
+    } catch (error) {
+      this.emit('provider-error', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * ClearKey licenses are requested by key ID, without a token
+   */
+  async getLicenseToken(_contentId?: string): Promise<string> {
+    return '';
+  }
+
+  /**
+   * Get license server URL
+   */
+  getLicenseServerUrl(): string {
+    return this.clearKeyConfig.licenseServer;
+  }
+
+  /**
+   * Get content URL - returns the protected content manifest
+   */
+  async getContentUrl(): Promise<string> {
+    return this.clearKeyConfig.manifestUrl || '/drm-content/stream.mpd';
+  }
+
+  /**
+   * Configure Shaka Player for ClearKey
+   */
+  async configurePlayer(player: MediaPlayer): Promise<void> {
+    if (!player) {
+      throw new Error('Player instance required');
+    }
+
+    // Inline keys skip the license request entirely
+    if (this.clearKeyConfig.keys) {
+      player.configure({ drm: { clearKeys: this.clearKeyConfig.keys } });
+      return;
+    }
+
+    player.configure({
+      drm: {
+        servers: {
+          [KeySystem.CLEARKEY]: this.getLicenseServerUrl(),
+        },
+      },
+    });
+
+    if (this.clearKeyConfig.headers || this.clearKeyConfig.getUserContext) {
+      player.getNetworkingEngine().registerRequestFilter(async (type, request) => {
+        if (type === (window as any).shaka.net.NetworkingEngine.RequestType.LICENSE) {
+          const licenseRequest = await this.onLicenseRequest({
+            url: request.uris[0],
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            contentId: this.clearKeyConfig.contentId,
+          });
+          request.headers = licenseRequest.headers;
+        }
+      });
+    }
+
+    player.addEventListener('error', (event: any) => {
+      providerLogger.error('Shaka Player error:', event.detail?.code, event.detail);
+      this.emit('drm-error', { error: event.detail });
+    });
+  }
+
+  /**
+   * Apply custom headers and the signed-in user's authorization
+   */
+  async onLicenseRequest(request: LicenseRequest): Promise<LicenseRequest> {
+    const user = await this.clearKeyConfig.getUserContext?.();
+
+    return {
+      ...request,
+      headers: {
+        ...request.headers,
+        ...this.clearKeyConfig.headers,
+        ...(user?.authorization ? { Authorization: user.authorization } : {}),
+      },
+    };
+  }
+
+  /**
+   * Destroy provider and cleanup
+   */
+  destroy(): void {
+    this.initialized = false;
+    this.removeAllListeners();
+  }
+
+  /**
+   * Validate provider configuration (implements abstract method)
+   */
+  validateConfig(): void {
+    this.validateBasicConfig();
+
+    const validation = configurationManager.validateConfig('clearkey', this.clearKeyConfig);
+
+    if (!validation.valid) {
+      throw new Error(`ClearKey configuration validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * ClearKey configuration schema and validation
+ */
+
+import * as v from 'valibot';
+import { ClearKeyConfig } from './types';
+import { getProviderDefaults } from '../base/ProviderDefaults';
+
+const HEX_128_BIT = /^[0-9a-fA-F]{32}$/;
+
+/**
+ * ClearKey configuration schema with validation
+ */
+export const ClearKeyConfigSchema = v.object({
+  licenseServer: v.pipe(
+    v.string(),
+    v.minLength(1, 'License server is required'),
+    v.check(
+      url => url.startsWith('/') || url.startsWith('http'),
+      'License server must be a relative path or full URL'
+    )
+  ),
+
+  keys: v.optional(
+    v.record(
+      v.pipe(v.string(), v.regex(HEX_128_BIT, 'Key IDs must be 32 hex characters')),
+      v.pipe(v.string(), v.regex(HEX_128_BIT, 'Keys must be 32 hex characters'))
+    )
+  ),
+
+  manifestUrl: v.optional(v.string()),
+  contentId: v.optional(v.string()),
+  headers: v.optional(v.record(v.string(), v.string())),
+  getUserContext: v.optional(v.function()),
+  debug: v.optional(v.boolean(), false),
+});
+
+/**
+ * Validate ClearKey configuration
+ */
+export function validateClearKeyConfig(config: Partial<ClearKeyConfig> = {}): ClearKeyConfig {
+  try {
+    const defaults = getProviderDefaults('clearkey');
+    const configWithDefaults = {
+      ...config,
+      licenseServer: config?.licenseServer || defaults.licenseServer,
+    };
+
+    return v.parse(ClearKeyConfigSchema, configWithDefaults) as ClearKeyConfig;
+  } catch (error) {
+    if (v.isValiError(error)) {
+      const errorMessages = v.flatten(error.issues).nested;
+      const formattedErrors = Object.entries(errorMessages || {}).map(
+        ([path, issues]) => `${path}: ${issues?.[0] || 'Invalid value'}`
+      );
+      throw new Error(`ClearKey configuration validation failed:\n${formattedErrors.join('\n')}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create default ClearKey configuration pointing at the local license endpoint
+ */
+export function createDefaultClearKeyConfig(
+  overrides: Partial<ClearKeyConfig> = {}
+): ClearKeyConfig {
+  return validateClearKeyConfig({ debug: false, ...overrides });
+}
@@ -0,0 +1,16 @@
+/**
+ * ClearKey provider exports
+ */
+
+export { ClearKeyProvider } from './ClearKeyProvider';
+export type {
+  ClearKeyConfig,
+  ClearKeyJWK,
+  ClearKeyLicenseRequest,
+  ClearKeyLicenseResponse,
+} from './types';
+export {
+  ClearKeyConfigSchema,
+  validateClearKeyConfig,
+  createDefaultClearKeyConfig,
+} from './config';
@@ -0,0 +1,73 @@
+/**
+ * ClearKey-specific types and interfaces
+ */
+
+import { GetUserContext } from '../base/types';
+
+/**
+ * ClearKey provider configuration
+ *
+ * ClearKey hands content keys to the browser in the clear. It exists for local
+ * development and integration tests and offers no real protection.
+ */
+export interface ClearKeyConfig {
+  /** License server URL serving JWK keys (defaults to the local dev server endpoint) */
+  licenseServer: string;
+
+  /** Optional: Inline keys as hex key ID → hex key, skipping the license server */
+  keys?: Record<string, string>;
+
+  /** Optional: Custom headers for license requests */
+  headers?: Record<string, string>;
+
+  /** Optional: Resolve the signed-in user, whose authorization is sent with license requests */
+  getUserContext?: GetUserContext;
+
+  /** Optional: Enable debug logging */
+  debug?: boolean;
+
+  /** Optional: Manifest URL for DRM content */
+  manifestUrl?: string;
+
+  /** Optional: Content ID of the encrypted asset */
+  contentId?: string;
+
+  /** Provider-specific settings */
+  [key: string]: unknown;
+}
+
+/**
+ * A single JSON Web Key as used by ClearKey licenses
+ */
+export interface ClearKeyJWK {
+  /** Key type, always "oct" */
+  kty: 'oct';
+
+  /** Base64url-encoded key ID */
+  kid: string;
+
+  /** Base64url-encoded content key */
+  k: string;
+}
+
+/**
+ * ClearKey license request (W3C EME format)
+ */
+export interface ClearKeyLicenseRequest {
+  /** Base64url-encoded key IDs */
+  kids: string[];
+
+  /** Session type */
+  type?: 'temporary' | 'persistent-license';
+}
+
+/**
+ * ClearKey license response (W3C EME format)
+ */
+export interface ClearKeyLicenseResponse {
+  /** Keys matching the requested key IDs */
+  keys: ClearKeyJWK[];
+
+  /** Session type */
+  type?: 'temporary' | 'persistent-license';
+}
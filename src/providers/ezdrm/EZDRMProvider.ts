@@ -0,0 +1,209 @@
+/**
+ * EZDRMProvider - EZDRM integration
+ *
+ * Picks the best DRM system for the browser and points Shaka Player at the
+ * matching EZDRM license endpoint. The account is identified by the pX
+ * parameter; authorization data travels as extra query parameters.
+ */
+
+import { DRMProvider } from '../base/DRMProvider';
+import { EZDRMConfig } from './types';
+import { StandardDRMSystem } from '../standard/types';
+import { DRMCapabilities, ProviderMetadata, ProviderHealth } from '../base/types';
+import { getProviderDefaults } from '../base/ProviderDefaults';
+import { KeySystem } from '../../utils/eme';
+import { validateEZDRMConfig, EZDRMConfigSchema } from './config';
+import { configurationManager } from '../base/ConfigurationManager';
+import { providerLogger } from '../../utils/logger';
+import { MediaPlayer } from '../../types/player';
+import { detectOptimalDRM } from '../../utils/drm-detection';
+
+/** Key system name Shaka Player expects in its DRM configuration */
+const PLAYER_KEY_SYSTEMS: Record<StandardDRMSystem, string> = {
+  widevine: 'com.widevine.alpha',
+  playready: 'com.microsoft.playready',
+  fairplay: 'com.apple.fps',
+};
+
+export class EZDRMProvider extends DRMProvider {
+  private ezdrmConfig: EZDRMConfig;
+  private currentSystem: StandardDRMSystem = 'widevine';
+
+  constructor(config: Partial<EZDRMConfig>) {
+    // Add name to config for base class
+    const configWithName = { ...config, name: 'ezdrm' };
+    super(configWithName);
+
+    // Register configuration schema
+    configurationManager.registerSchema('ezdrm', EZDRMConfigSchema);
+
+    // Validate and fill license URLs
+    this.ezdrmConfig = validateEZDRMConfig(config);
+    this.validateConfig();
+  }
+
+  /**
+   * Get provider metadata
+   */
+  static getMetadata(): ProviderMetadata {
+    const defaults = getProviderDefaults('ezdrm');
+
+    return {
+      name: 'ezdrm',
+      displayName: 'EZDRM',
+      description:
+        'Multi-DRM license service by EZDRM supporting Widevine, PlayReady, and FairPlay',
+      supportedKeySystems: [KeySystem.WIDEVINE, KeySystem.PLAYREADY, KeySystem.FAIRPLAY],
+      requiredConfig: defaults.requiredFields,
+    };
+  }
+
+  /**
+   * Get provider capabilities
+   */
+  getCapabilities(): DRMCapabilities {
+    return {
+      keySystems: [KeySystem.WIDEVINE, KeySystem.PLAYREADY, KeySystem.FAIRPLAY],
+      requiresHardwareSecurity: false,
+    };
+  }
+
+  /**
+   * Get provider health status
+   */
+  async getHealthStatus(): Promise<ProviderHealth> {
+    try {
+      const response = await fetch(this.getLicenseServerUrl(), {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(5000),
+      });
+
+      // License endpoints only accept POST; anything but a server error means it is reachable
+      if (response.status >= 500) {
+        return {
+          status: 'error',
+          error: `License server unreachable (${response.status})`,
+        };
+      }
+
+      return { status: 'healthy' };
+    } catch (error) {
+      return {
+        status: 'error',
+        error: `Health check failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Initialize EZDRM provider
+   */
+  async initialize(): Promise<void> {
+    try {
+      const detection = await detectOptimalDRM();
+      const system = detection.primaryDRM;
+
+      if (system !== 'widevine' && system !== 'playready' && system !== 'fairplay') {
+        throw new Error('No supported DRM system found for EZDRM');
+      }
+
+      this.currentSystem = system;
+      providerLogger.info(`EZDRM using ${system}`);
+
+      this.initialized = true;
+      this.emit('provider-ready');
+    } catch (error) {
+      this.emit('provider-error', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * EZDRM authorizes through license URL parameters, so no token is fetched
+   */
+  async getLicenseToken(_contentId?: string): Promise<string> {
+    return '';
+  }
+
+  /**
+   * Get license server URL for the selected DRM system, including authorization parameters
+   */
+  getLicenseServerUrl(): string {
+    const licenseServer = this.ezdrmConfig.licenseServers[this.currentSystem];
+
+    if (!licenseServer) {
+      throw new Error(`EZDRM ${this.currentSystem} license server requires contentId`);
+    }
+
+    const authParams = this.ezdrmConfig.authParams;
+    if (!authParams || Object.keys(authParams).length === 0) {
+      return licenseServer;
+    }
+
+    const separator = licenseServer.includes('?') ? '&' : '?';
+    return `${licenseServer}${separator}${new URLSearchParams(authParams).toString()}`;
+  }
+
+  /**
+   * Get content URL - returns the protected content manifest
+   */
+  async getContentUrl(): Promise<string> {
+    if (this.ezdrmConfig.manifestUrl) {
+      return this.ezdrmConfig.manifestUrl;
+    }
+
+    // FairPlay requires HLS content, Widevine/PlayReady use DASH
+    return this.currentSystem === 'fairplay'
+      ? '/hls_assets/master.m3u8'
+      : '/dash_assets/stream.mpd';
+  }
+
+  /**
+   * Configure Shaka Player for the EZDRM license endpoints
+   */
+  async configurePlayer(player: MediaPlayer): Promise<void> {
+    if (!player) {
+      throw new Error('Player instance required');
+    }
+
+    const keySystem = PLAYER_KEY_SYSTEMS[this.currentSystem];
+    const certificateUrl = this.ezdrmConfig.certificateUrl;
+
+    if (this.currentSystem === 'fairplay' && !certificateUrl) {
+      throw new Error('EZDRM FairPlay requires certificateUrl');
+    }
+
+    player.configure({
+      drm: {
+        servers: { [keySystem]: this.getLicenseServerUrl() },
+        advanced: certificateUrl ? { [keySystem]: { serverCertificateUri: certificateUrl } } : {},
+      },
+    });
+
+    player.addEventListener('error', (event: any) => {
+      providerLogger.error('Shaka Player error:', event.detail?.code, event.detail);
+      this.emit('drm-error', { error: event.detail });
+    });
+  }
+
+  /**
+   * Destroy provider and cleanup
+   */
+  destroy(): void {
+    this.initialized = false;
+    this.removeAllListeners();
+  }
+
+  /**
+   * Validate provider configuration (implements abstract method)
+   */
+  validateConfig(): void {
+    this.validateBasicConfig();
+
+    const validation = configurationManager.validateConfig('ezdrm', this.ezdrmConfig);
+
+    if (!validation.valid) {
+      throw new Error(`EZDRM configuration validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+}
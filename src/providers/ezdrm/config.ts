@@ -0,0 +1,104 @@
+/**
+ * EZDRM configuration schema and validation
+ */
+
+import * as v from 'valibot';
+import { EZDRMConfig } from './types';
+import { StandardDRMSystem } from '../standard/types';
+import { getProviderDefaults, generateProviderUrl } from '../base/ProviderDefaults';
+
+/**
+ * EZDRM license server URL patterns, used for systems without an override
+ */
+export const EZDRM_LICENSE_SERVERS: Record<StandardDRMSystem, string> = {
+  widevine: getProviderDefaults('ezdrm').licenseServer,
+  playready: 'https://playready.ezdrm.com/cency/preauth.aspx?pX={accountId}',
+  fairplay: 'https://fps.ezdrm.com/api/licenses/{contentId}',
+};
+
+const LicenseServerSchema = v.pipe(
+  v.string(),
+  v.url('License server must be a valid URL'),
+  v.check(url => !url.includes('{'), 'License server URL pattern could not be filled')
+);
+
+/**
+ * EZDRM configuration schema with validation
+ */
+export const EZDRMConfigSchema = v.object({
+  accountId: v.pipe(
+    v.string(),
+    v.minLength(1, 'Account ID is required'),
+    v.regex(/^[\w-]+$/, 'Account ID must only contain letters, digits, "_" and "-"')
+  ),
+
+  licenseServer: LicenseServerSchema,
+  licenseServers: v.object({
+    widevine: v.optional(LicenseServerSchema),
+    playready: v.optional(LicenseServerSchema),
+    fairplay: v.optional(LicenseServerSchema),
+  }),
+  authParams: v.optional(v.record(v.string(), v.string())),
+  certificateUrl: v.optional(v.pipe(v.string(), v.url('Certificate URL must be a valid URL'))),
+
+  manifestUrl: v.optional(v.string()),
+  contentId: v.optional(v.string()),
+  debug: v.optional(v.boolean(), false),
+});
+
+/**
+ * Validate EZDRM configuration, filling license URLs from the account and content IDs
+ */
+export function validateEZDRMConfig(config: Partial<EZDRMConfig> = {}): EZDRMConfig {
+  // The user's authorization must not be sent to EZDRM-hosted license servers
+  if (config.getUserContext) {
+    throw new Error(
+      'EZDRM configuration validation failed:\ngetUserContext: not supported, as license ' +
+        'requests go to EZDRM-hosted servers - authenticate them with authParams instead'
+    );
+  }
+
+  try {
+    const variables: Record<string, string> = {};
+    if (config.accountId) {
+      variables.accountId = encodeURIComponent(config.accountId);
+    }
+    if (config.contentId) {
+      variables.contentId = encodeURIComponent(config.contentId);
+    }
+
+    const licenseServers: Partial<Record<StandardDRMSystem, string>> = {};
+    for (const [system, pattern] of Object.entries(EZDRM_LICENSE_SERVERS)) {
+      const url = generateProviderUrl('ezdrm', pattern, variables);
+
+      // FairPlay URLs are per asset, so the default is skipped without a content ID
+      if (!url.includes('{')) {
+        licenseServers[system as StandardDRMSystem] = url;
+      }
+    }
+
+    // licenseServer is the Widevine shorthand; an explicit licenseServers entry wins
+    Object.assign(
+      licenseServers,
+      config.licenseServer ? { widevine: config.licenseServer } : {},
+      config.licenseServers
+    );
+
+    const configWithDefaults = {
+      ...config,
+      licenseServer: licenseServers.widevine,
+      licenseServers,
+    };
+
+    return v.parse(EZDRMConfigSchema, configWithDefaults) as EZDRMConfig;
+  } catch (error) {
+    if (v.isValiError(error)) {
+      const errorMessages = v.flatten(error.issues).nested;
+      const formattedErrors = Object.entries(errorMessages || {}).map(
+        ([path, issues]) => `${path}: ${issues?.[0] || 'Invalid value'}`
+      );
+      throw new Error(`EZDRM configuration validation failed:\n${formattedErrors.join('\n')}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * EZDRM provider exports
+ */
+
+export { EZDRMProvider } from './EZDRMProvider';
+export type { EZDRMConfig } from './types';
+export { EZDRMConfigSchema, EZDRM_LICENSE_SERVERS, validateEZDRMConfig } from './config';
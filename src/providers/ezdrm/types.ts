@@ -0,0 +1,41 @@
+/**
+ * EZDRM-specific types and interfaces
+ */
+
+import { StandardDRMSystem } from '../standard/types';
+
+/**
+ * EZDRM provider configuration
+ *
+ * EZDRM identifies the account with the pX query parameter of its license URLs.
+ * Custom authorization data is appended to the license URLs as further query
+ * parameters and passed on to your authorization callback by EZDRM.
+ */
+export interface EZDRMConfig {
+  /** EZDRM account identifier (pX parameter) */
+  accountId: string;
+
+  /** Widevine license server URL (defaults to the EZDRM Widevine endpoint) */
+  licenseServer: string;
+
+  /** License server URL per DRM system; missing entries use the EZDRM endpoints */
+  licenseServers: Partial<Record<StandardDRMSystem, string>>;
+
+  /** Optional: Authorization data appended to license URLs as query parameters */
+  authParams?: Record<string, string>;
+
+  /** Optional: FairPlay application certificate URL */
+  certificateUrl?: string;
+
+  /** Optional: Enable debug logging */
+  debug?: boolean;
+
+  /** Optional: Manifest URL for DRM content */
+  manifestUrl?: string;
+
+  /** Optional: Content (asset) ID, needed for the FairPlay license URL */
+  contentId?: string;
+
+  /** Provider-specific settings */
+  [key: string]: unknown;
+}
@@ -6,10 +6,20 @@
 
 import { DRMProviderConfig } from '../types';
 import { PallyConProvider } from './pallycon';
+import { ClearKeyProvider } from './clearkey';
+import { AxinomProvider } from './axinom';
+import { EZDRMProvider } from './ezdrm';
+import { WidevineProvider, PlayReadyProvider, FairPlayProvider } from './standard';
 import { DRMProvider, providerRegistry } from './base';
 
 // Register built-in providers
 providerRegistry.register('pallycon', PallyConProvider);
+providerRegistry.register('clearkey', ClearKeyProvider);
+providerRegistry.register('axinom', AxinomProvider);
+providerRegistry.register('ezdrm', EZDRMProvider);
+providerRegistry.register('widevine', WidevineProvider);
+providerRegistry.register('playready', PlayReadyProvider);
+providerRegistry.register('fairplay', FairPlayProvider);
 
 /**
  * Provider factory - creates appropriate DRM provider instance
@@ -61,6 +71,15 @@ export { DRMProvider } from './base';
 
 // Provider implementations
 export { PallyConProvider } from './pallycon';
+export { ClearKeyProvider } from './clearkey';
+export { AxinomProvider } from './axinom';
+export { EZDRMProvider } from './ezdrm';
+export {
+  StandardDRMProvider,
+  WidevineProvider,
+  PlayReadyProvider,
+  FairPlayProvider,
+} from './standard';
 
 // Provider utilities
 export {
@@ -69,13 +88,29 @@ export {
   createPallyConCloudConfig,
   autoDetectPallyConConfig,
 } from './pallycon';
+export { validateClearKeyConfig, createDefaultClearKeyConfig } from './clearkey';
+export { validateAxinomConfig } from './axinom';
+export { validateEZDRMConfig } from './ezdrm';
+export { validateStandardConfig } from './standard';
 
 // Types
 export type { PallyConConfig } from './pallycon';
+export type { ClearKeyConfig } from './clearkey';
+export type { AxinomConfig } from './axinom';
+export type { EZDRMConfig } from './ezdrm';
+export type {
+  StandardDRMSystem,
+  StandardProviderConfig,
+  LicenseRequestBody,
+  LicenseResponseData,
+} from './standard';
 export type {
   DRMCapabilities,
   ProviderMetadata,
   ProviderHealth,
+  LicenseTokenEvent,
+  UserContext,
+  GetUserContext,
   ValidatedProviderConfig,
   ConfigValidationResult,
   LicenseRequest,
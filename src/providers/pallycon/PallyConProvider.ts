@@ -7,7 +7,13 @@
 
 import { DRMProvider } from '../base/DRMProvider';
 import { PallyConConfig, PallyConTokenRequest, PallyConTokenResponse } from './types';
-import { DRMCapabilities, ProviderMetadata, ProviderHealth } from '../base/types';
+import {
+  DRMCapabilities,
+  ProviderMetadata,
+  ProviderHealth,
+  CachedLicenseToken,
+  FetchedLicenseToken,
+} from '../base/types';
 import { getProviderDefaults } from '../base/ProviderDefaults';
 import { KeySystem } from '../../utils/eme';
 import { validatePallyConConfig, PallyConConfigSchema } from './config';
@@ -121,19 +127,40 @@ export class PallyConProvider extends DRMProvider {
   }
 
   /**
-   * Get license token from server
+   * Get license token from server, reusing the cached token until it nears expiry
    */
   async getLicenseToken(contentId: string = 'blank'): Promise<string> {
+    const tokenContentId = this.pallyConConfig.contentId || contentId;
+
+    return this.getCachedLicenseToken(tokenContentId, this.currentDrmType, () =>
+      this.requestLicenseToken(tokenContentId)
+    );
+  }
+
+  /**
+   * Renewed tokens are sent with the next license request
+   */
+  protected onLicenseTokenRenewed(token: CachedLicenseToken): void {
+    this.currentToken = token.token;
+  }
+
+  /**
+   * Request a new license token from the token endpoint
+   */
+  private async requestLicenseToken(contentId: string): Promise<FetchedLicenseToken> {
     try {
+      const user = await this.pallyConConfig.getUserContext?.();
+
       const tokenRequest: PallyConTokenRequest = {
-        contentId: this.pallyConConfig.contentId || contentId,
-        userId: 'demo-user',
+        contentId,
         drmType: this.currentDrmType,
+        ...(user?.userId ? { userId: user.userId } : {}),
       };
 
       const headers = {
         'Content-Type': 'application/json',
         ...this.pallyConConfig.headers,
+        ...(user?.authorization ? { Authorization: user.authorization } : {}),
       };
 
       const response = await fetch(this.pallyConConfig.tokenEndpoint, {
@@ -152,7 +179,11 @@ export class PallyConProvider extends DRMProvider {
         throw new Error('No token received from server');
       }
 
-      return data.token;
+      return {
+        token: data.token,
+        expiresAt: (data.expires && Date.parse(data.expires)) || undefined,
+        contentToken: data.contentToken,
+      };
     } catch (error) {
       providerLogger.error('Error getting license token:', error);
       throw error;
@@ -750,6 +781,8 @@ export class PallyConProvider extends DRMProvider {
    * Destroy provider and cleanup
    */
   destroy(): void {
+    this.clearLicenseTokens();
+    this.currentToken = null;
     this.initialized = false;
     this.removeAllListeners();
   }
@@ -31,7 +31,10 @@ export const PallyConConfigSchema = v.object({
 
   certificateUri: v.optional(v.pipe(v.string(), v.url('Certificate URI must be a valid URL'))),
 
+  contentId: v.optional(v.string()),
+
   headers: v.optional(v.record(v.string(), v.string())),
+  getUserContext: v.optional(v.function()),
   debug: v.optional(v.boolean(), false),
 });
 
@@ -2,6 +2,8 @@
  * PallyCon-specific types and interfaces
  */
 
+import { GetUserContext } from '../base/types';
+
 /**
  * PallyCon provider configuration
  */
@@ -30,6 +32,9 @@ export interface PallyConConfig {
   /** Optional: Content ID for DRM licensing */
   contentId?: string;
 
+  /** Optional: Resolve the signed-in user before each token request */
+  getUserContext?: GetUserContext;
+
   /** Provider-specific settings */
   [key: string]: unknown;
 }
@@ -41,8 +46,8 @@ export interface PallyConTokenRequest {
   /** Content identifier */
   contentId: string;
 
-  /** User identifier */
-  userId: string;
+  /** Optional: User identifier (the server mints the token for the authenticated user) */
+  userId?: string;
 
   /** DRM type (Widevine, PlayReady, FairPlay) */
   drmType: 'Widevine' | 'PlayReady' | 'FairPlay';
@@ -64,6 +69,9 @@ export interface PallyConTokenResponse {
   /** Token expiration time */
   expires?: string;
 
+  /** Optional: Short-lived token for fetching the protected content */
+  contentToken?: string;
+
   /** Additional metadata */
   metadata?: Record<string, any>;
 }
@@ -0,0 +1,353 @@
+/**
+ * StandardDRMProvider - Vendor-neutral Widevine, PlayReady and FairPlay integration
+ *
+ * Talks to any license proxy. URLs default to the ProviderDefaults entry for the
+ * DRM system; custom headers, a request-body wrapper and a response unwrapper
+ * adapt the raw EME license exchange to whatever the proxy expects.
+ */
+
+import { DRMProvider } from '../base/DRMProvider';
+import { StandardDRMSystem, StandardProviderConfig, LicenseResponseData } from './types';
+import {
+  DRMCapabilities,
+  ProviderMetadata,
+  ProviderHealth,
+  LicenseRequest,
+  LicenseResponse,
+} from '../base/types';
+import { getProviderDefaults } from '../base/ProviderDefaults';
+import { KeySystem, isKeySystemSupported } from '../../utils/eme';
+import { validateStandardConfig, StandardProviderConfigSchema } from './config';
+import { configurationManager } from '../base/ConfigurationManager';
+import { providerLogger } from '../../utils/logger';
+import { MediaPlayer, NetworkRequest, NetworkResponse } from '../../types/player';
+
+/** Key system used for capability checks, per DRM system */
+const KEY_SYSTEMS: Record<StandardDRMSystem, KeySystem> = {
+  widevine: KeySystem.WIDEVINE,
+  playready: KeySystem.PLAYREADY,
+  fairplay: KeySystem.FAIRPLAY,
+};
+
+/** Key system name Shaka Player expects in its DRM configuration */
+const PLAYER_KEY_SYSTEMS: Record<StandardDRMSystem, string> = {
+  widevine: 'com.widevine.alpha',
+  playready: 'com.microsoft.playready',
+  fairplay: 'com.apple.fps',
+};
+
+const DISPLAY_NAMES: Record<StandardDRMSystem, string> = {
+  widevine: 'Widevine',
+  playready: 'PlayReady',
+  fairplay: 'FairPlay',
+};
+
+export abstract class StandardDRMProvider extends DRMProvider {
+  /** DRM system implemented by the concrete provider */
+  static readonly system: StandardDRMSystem;
+
+  protected standardConfig: StandardProviderConfig;
+
+  constructor(config: Partial<StandardProviderConfig>) {
+    const system = (new.target as typeof StandardDRMProvider).system;
+
+    // Add name to config for base class
+    super({ ...config, name: system });
+
+    // Register configuration schema
+    configurationManager.registerSchema(system, StandardProviderConfigSchema);
+
+    // Validate and fill URLs from the provider defaults
+    this.standardConfig = validateStandardConfig(system, config);
+    this.validateConfig();
+  }
+
+  /**
+   * Get provider metadata
+   */
+  static getMetadata(): ProviderMetadata {
+    const defaults = getProviderDefaults(this.system);
+
+    return {
+      name: this.system,
+      displayName: `${DISPLAY_NAMES[this.system]} (standard)`,
+      description: `Vendor-neutral ${DISPLAY_NAMES[this.system]} provider for any license proxy`,
+      supportedKeySystems: [KEY_SYSTEMS[this.system]],
+      requiredConfig: defaults.requiredFields,
+    };
+  }
+
+  /**
+   * DRM system of this provider instance
+   */
+  getSystem(): StandardDRMSystem {
+    return (this.constructor as typeof StandardDRMProvider).system;
+  }
+
+  /**
+   * Get provider capabilities
+   */
+  getCapabilities(): DRMCapabilities {
+    return {
+      keySystems: [KEY_SYSTEMS[this.getSystem()]],
+      requiresHardwareSecurity: this.getSystem() === 'fairplay',
+    };
+  }
+
+  /**
+   * Get provider health status
+   */
+  async getHealthStatus(): Promise<ProviderHealth> {
+    try {
+      const response = await fetch(this.getLicenseServerUrl(), {
+        method: 'HEAD',
+        headers: this.standardConfig.headers,
+        signal: AbortSignal.timeout(5000),
+      });
+
+      // Proxies usually only accept POST; anything but a server error means it is reachable
+      if (response.status >= 500) {
+        return {
+          status: 'error',
+          error: `License server unreachable (${response.status})`,
+        };
+      }
+
+      return { status: 'healthy' };
+    } catch (error) {
+      return {
+        status: 'error',
+        error: `Health check failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Initialize provider
+   */
+  async initialize(): Promise<void> {
+    try {
+      const keySystem = KEY_SYSTEMS[this.getSystem()];
+      if (!(await isKeySystemSupported(keySystem))) {
+        throw new Error(`${DISPLAY_NAMES[this.getSystem()]} is not supported in this browser`);
+      }
+
+      this.initialized = true;
+      this.emit('provider-ready');
+    } catch (error) {
+      this.emit('provider-error', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * License proxies authenticate through headers, so no token is fetched
+   */
+  async getLicenseToken(_contentId?: string): Promise<string> {
+    return '';
+  }
+
+  /**
+   * Get license server URL
+   */
+  getLicenseServerUrl(): string {
+    return this.standardConfig.licenseServer;
+  }
+
+  /**
+   * Get content URL - returns the protected content manifest
+   */
+  async getContentUrl(): Promise<string> {
+    if (this.standardConfig.manifestUrl) {
+      return this.standardConfig.manifestUrl;
+    }
+
+    // FairPlay requires HLS content, Widevine/PlayReady use DASH
+    return this.getSystem() === 'fairplay' ? '/hls_assets/master.m3u8' : '/dash_assets/stream.mpd';
+  }
+
+  /**
+   * Configure Shaka Player for the license proxy
+   */
+  async configurePlayer(player: MediaPlayer): Promise<void> {
+    if (!player) {
+      throw new Error('Player instance required');
+    }
+
+    const keySystem = PLAYER_KEY_SYSTEMS[this.getSystem()];
+    const certificateUrl = this.standardConfig.certificateUrl;
+
+    player.configure({
+      drm: {
+        servers: { [keySystem]: this.getLicenseServerUrl() },
+        advanced: certificateUrl ? { [keySystem]: { serverCertificateUri: certificateUrl } } : {},
+      },
+    });
+
+    const licenseType = () => (window as any).shaka.net.NetworkingEngine.RequestType.LICENSE;
+
+    player.getNetworkingEngine().registerRequestFilter(async (type, request) => {
+      if (type === licenseType()) {
+        await this.filterLicenseRequest(request);
+      }
+    });
+
+    player.getNetworkingEngine().registerResponseFilter(async (type, response) => {
+      if (type === licenseType()) {
+        await this.filterLicenseResponse(response);
+      }
+    });
+
+    player.addEventListener('error', (event: any) => {
+      providerLogger.error('Shaka Player error:', event.detail?.code, event.detail);
+      this.emit('drm-error', { error: event.detail });
+    });
+  }
+
+  /**
+   * Apply custom headers, the signed-in user's authorization and the request wrapper
+   */
+  async onLicenseRequest(request: LicenseRequest): Promise<LicenseRequest> {
+    const { wrapRequest, getUserContext } = this.standardConfig;
+    const user = await getUserContext?.();
+    const headers: Record<string, string> = {
+      ...request.headers,
+      ...this.standardConfig.headers,
+      ...(user?.authorization ? { Authorization: user.authorization } : {}),
+    };
+
+    if (!wrapRequest) {
+      return { ...request, headers };
+    }
+
+    const body = await wrapRequest(toUint8Array(request.body), request);
+    const isJson =
+      typeof body === 'object' && !(body instanceof ArrayBuffer) && !ArrayBuffer.isView(body);
+
+    if (isJson && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    return { ...request, headers, body: encodeBody(body) };
+  }
+
+  /**
+   * Apply the response unwrapper
+   */
+  async onLicenseResponse(response: LicenseResponse): Promise<LicenseResponse> {
+    const { unwrapResponse } = this.standardConfig;
+
+    if (!unwrapResponse) {
+      return response;
+    }
+
+    const license = await unwrapResponse(response.body, response);
+    return { ...response, body: decodeLicense(license) };
+  }
+
+  /**
+   * Destroy provider and cleanup
+   */
+  destroy(): void {
+    this.initialized = false;
+    this.removeAllListeners();
+  }
+
+  /**
+   * Validate provider configuration (implements abstract method)
+   */
+  validateConfig(): void {
+    this.validateBasicConfig();
+
+    const system = this.getSystem();
+    const validation = configurationManager.validateConfig(system, this.standardConfig);
+
+    if (!validation.valid) {
+      throw new Error(`${system} configuration validation failed: ${validation.errors.join(', ')}`);
+    }
+  }
+
+  private async filterLicenseRequest(request: NetworkRequest): Promise<void> {
+    const licenseRequest = await this.onLicenseRequest({
+      url: request.uris[0],
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      contentId: this.standardConfig.contentId,
+    });
+
+    request.headers = licenseRequest.headers;
+    request.body = licenseRequest.body;
+  }
+
+  private async filterLicenseResponse(response: NetworkResponse): Promise<void> {
+    try {
+      const licenseResponse = await this.onLicenseResponse({
+        status: response.status ?? 200,
+        headers: response.headers,
+        body: response.data,
+        timestamp: new Date(),
+        success: true,
+      });
+
+      response.data = licenseResponse.body;
+    } catch (error) {
+      providerLogger.error('Error unwrapping license response:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Widevine through any license proxy
+ */
+export class WidevineProvider extends StandardDRMProvider {
+  static readonly system: StandardDRMSystem = 'widevine';
+}
+
+/**
+ * PlayReady through any license proxy
+ */
+export class PlayReadyProvider extends StandardDRMProvider {
+  static readonly system: StandardDRMSystem = 'playready';
+}
+
+/**
+ * FairPlay through any license proxy
+ */
+export class FairPlayProvider extends StandardDRMProvider {
+  static readonly system: StandardDRMSystem = 'fairplay';
+}
+
+function toUint8Array(data: unknown): Uint8Array {
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array();
+}
+
+function toArrayBuffer(view: Uint8Array): ArrayBuffer {
+  return view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength) as ArrayBuffer;
+}
+
+function encodeBody(body: unknown): ArrayBuffer {
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return toArrayBuffer(toUint8Array(body));
+  }
+
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return toArrayBuffer(new TextEncoder().encode(text));
+}
+
+function decodeLicense(license: LicenseResponseData): ArrayBuffer {
+  if (typeof license !== 'string') {
+    return toArrayBuffer(toUint8Array(license));
+  }
+
+  // Proxies commonly return the license base64-encoded inside JSON
+  const binary = atob(license.replace(/-/g, '+').replace(/_/g, '/'));
+  return toArrayBuffer(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
@@ -0,0 +1,75 @@
+/**
+ * Standard DRM configuration schema and validation
+ */
+
+import * as v from 'valibot';
+import { StandardDRMSystem, StandardProviderConfig } from './types';
+import { getProviderDefaults, generateProviderUrl } from '../base/ProviderDefaults';
+import { StandardConfigSchema } from '../base/ConfigurationManager';
+
+const isRelativeOrAbsoluteUrl = (url: string) => url.startsWith('/') || /^https?:\/\//.test(url);
+
+/**
+ * Standard provider configuration schema with validation
+ */
+export const StandardProviderConfigSchema = v.object({
+  ...StandardConfigSchema.entries,
+
+  // License proxies are often same-origin, so relative paths are allowed
+  licenseServer: v.pipe(
+    v.string(),
+    v.minLength(1, 'License server is required'),
+    v.check(isRelativeOrAbsoluteUrl, 'License server must be a relative path or full URL'),
+    v.check(url => !url.includes('{'), 'License server needs siteId to fill its URL pattern')
+  ),
+  certificateUrl: v.optional(
+    v.pipe(
+      v.string(),
+      v.check(isRelativeOrAbsoluteUrl, 'Certificate URL must be a relative path or full URL')
+    )
+  ),
+
+  siteId: v.optional(v.string()),
+  manifestUrl: v.optional(v.string()),
+  wrapRequest: v.optional(v.function()),
+  unwrapResponse: v.optional(v.function()),
+  getUserContext: v.optional(v.function()),
+  debug: v.optional(v.boolean(), false),
+});
+
+/**
+ * Validate standard provider configuration, filling URLs from ProviderDefaults
+ */
+export function validateStandardConfig(
+  system: StandardDRMSystem,
+  config: Partial<StandardProviderConfig> = {}
+): StandardProviderConfig {
+  try {
+    const defaults = getProviderDefaults(system);
+    const variables: Record<string, string> = config.siteId ? { siteId: config.siteId } : {};
+    const certificatePattern = defaults.certificatePattern
+      ? generateProviderUrl(system, defaults.certificatePattern, variables)
+      : undefined;
+
+    const configWithDefaults = {
+      ...config,
+      licenseServer:
+        config.licenseServer || generateProviderUrl(system, defaults.licenseServer, variables),
+      // A certificate is optional, so skip the default when its pattern can't be filled
+      certificateUrl:
+        config.certificateUrl ||
+        (certificatePattern && !certificatePattern.includes('{') ? certificatePattern : undefined),
+    };
+
+    return v.parse(StandardProviderConfigSchema, configWithDefaults) as StandardProviderConfig;
+  } catch (error) {
+    if (v.isValiError(error)) {
+      const errorMessages = v.flatten(error.issues).nested;
+      const formattedErrors = Object.entries(errorMessages || {}).map(
+        ([path, issues]) => `${path}: ${issues?.[0] || 'Invalid value'}`
+      );
+      throw new Error(`${system} configuration validation failed:\n${formattedErrors.join('\n')}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Standard DRM provider exports
+ */
+
+export {
+  StandardDRMProvider,
+  WidevineProvider,
+  PlayReadyProvider,
+  FairPlayProvider,
+} from './StandardDRMProvider';
+export type {
+  StandardDRMSystem,
+  StandardProviderConfig,
+  LicenseRequestBody,
+  LicenseResponseData,
+} from './types';
+export { StandardProviderConfigSchema, validateStandardConfig } from './config';
@@ -0,0 +1,50 @@
+/**
+ * Standard DRM provider types
+ */
+
+import { GetUserContext, LicenseRequest, LicenseResponse, StandardDRMConfig } from '../base/types';
+
+/**
+ * DRM systems served by the vendor-neutral provider
+ */
+export type StandardDRMSystem = 'widevine' | 'playready' | 'fairplay';
+
+/**
+ * License request body accepted from a request wrapper.
+ * Strings are sent as UTF-8 text and plain objects as JSON.
+ */
+export type LicenseRequestBody = ArrayBuffer | ArrayBufferView | string | Record<string, unknown>;
+
+/**
+ * License data accepted from a response unwrapper. Strings are base64-decoded.
+ */
+export type LicenseResponseData = ArrayBuffer | ArrayBufferView | string;
+
+/**
+ * Standard provider configuration
+ */
+export interface StandardProviderConfig extends StandardDRMConfig {
+  /** Optional: Site or account ID substituted into `{siteId}` in default URLs */
+  siteId?: string;
+
+  /** Optional: Manifest URL for DRM content */
+  manifestUrl?: string;
+
+  /** Optional: Wrap the raw license challenge before it is sent to the license proxy */
+  wrapRequest?: (
+    challenge: Uint8Array,
+    request: LicenseRequest
+  ) => LicenseRequestBody | Promise<LicenseRequestBody>;
+
+  /** Optional: Extract the raw license from the license proxy response */
+  unwrapResponse?: (
+    data: ArrayBuffer,
+    response: LicenseResponse
+  ) => LicenseResponseData | Promise<LicenseResponseData>;
+
+  /** Optional: Resolve the signed-in user, whose authorization is sent to the license proxy */
+  getUserContext?: GetUserContext;
+
+  /** Optional: Enable debug logging */
+  debug?: boolean;
+}
@@ -7,6 +7,27 @@
 import { Cloakscreen } from './core/Cloakscreen';
 import { CloakscreenConfig } from './types';
 
+/**
+ * Options of protect()
+ */
+export interface QuickStartOptions {
+  // Provider configuration - can be string or object
+  provider?: 'demo' | 'cloud' | 'self-hosted' | { name: string; config: any };
+  apiKey?: string;
+  siteId?: string;
+  tokenEndpoint?: string;
+
+  // Content ID used for license requests
+  contentId?: string;
+
+  // Security and behavior options
+  fallback?: 'blur' | 'hide' | 'placeholder';
+  debug?: boolean;
+
+  // Advanced configuration (for custom setups)
+  config?: Partial<CloakscreenConfig>;
+}
+
 /**
  * Protect content with flexible configuration options
  *
@@ -39,20 +60,22 @@ import { CloakscreenConfig } from './types';
  */
 export async function protect(
   element: string | HTMLElement,
-  options: {
-    // Provider configuration - can be string or object
-    provider?: 'demo' | 'cloud' | 'self-hosted' | { name: string; config: any };
-    apiKey?: string;
-    siteId?: string;
-    tokenEndpoint?: string;
-
-    // Security and behavior options
-    fallback?: 'blur' | 'hide' | 'placeholder';
-    debug?: boolean;
+  options: QuickStartOptions = {}
+): Promise<Cloakscreen> {
+  const cloak = await createCloakscreen(element, options);
+  await cloak.protect();
+  return cloak;
+}
 
-    // Advanced configuration (for custom setups)
-    config?: Partial<CloakscreenConfig>;
-  } = {}
+/**
+ * Create an unprotected Cloakscreen instance from quick-start options
+ *
+ * For callers that must keep the instance when protect() fails, e.g. to destroy
+ * the fallback it applied.
+ */
+export async function createCloakscreen(
+  element: string | HTMLElement,
+  options: QuickStartOptions = {}
 ): Promise<Cloakscreen> {
   // If custom config is provided, merge with element and use it
   if (options.config) {
@@ -61,24 +84,26 @@ export async function protect(
       provider: 'pallycon', // Default provider if not specified
       ...options.config,
     };
-    const cloak = new Cloakscreen(config);
-    await cloak.protect();
-    return cloak;
+    return new Cloakscreen(config);
   }
 
+  // Content ID is passed through to the provider configuration
+  const contentIdConfig = options.contentId ? { contentId: options.contentId } : {};
+
   // Handle direct provider object
   if (typeof options.provider === 'object') {
     const config: CloakscreenConfig = {
       element,
-      provider: options.provider,
+      provider: {
+        ...options.provider,
+        config: { ...options.provider.config, ...contentIdConfig },
+      },
       options: {
         fallbackMode: options.fallback || 'blur',
         debug: options.debug || false,
       },
     };
-    const cloak = new Cloakscreen(config);
-    await cloak.protect();
-    return cloak;
+    return new Cloakscreen(config);
   }
 
   // Build configuration based on provider type
@@ -93,6 +118,7 @@ export async function protect(
         config: {
           siteId: options.siteId || 'CLOUD',
           tokenEndpoint: `https://cloud.cloakscreen.tech/api/license-token?key=${options.apiKey}`,
+          ...contentIdConfig,
         },
       },
       options: {
@@ -109,6 +135,7 @@ export async function protect(
         config: {
           siteId: options.siteId,
           tokenEndpoint: options.tokenEndpoint || '/api/get-license-token',
+          ...contentIdConfig,
         },
       },
       options: {
@@ -126,6 +153,7 @@ export async function protect(
       const providerConfig: any = {
         siteId,
         tokenEndpoint,
+        ...contentIdConfig,
       };
 
       // Add provider-specific fields if available
@@ -156,7 +184,5 @@ export async function protect(
     }
   }
 
-  const cloak = new Cloakscreen(config);
-  await cloak.protect();
-  return cloak;
+  return new Cloakscreen(config);
 }
@@ -0,0 +1,88 @@
+/**
+ * <Cloakscreen> - React component for content protection
+ */
+
+import { CSSProperties, ReactNode, useEffect, useRef } from 'react';
+import type { DRMStatus } from '../index';
+import { useCloakscreen, UseCloakscreenOptions, UseCloakscreenResult } from './useCloakscreen';
+
+export interface CloakscreenProps extends UseCloakscreenOptions {
+  /** Content to protect */
+  children?: ReactNode;
+
+  /** Class name of the protected wrapper element */
+  className?: string;
+
+  /** Style of the protected wrapper element */
+  style?: CSSProperties;
+
+  /** Called once protection is active */
+  onProtected?: (drmStatus: DRMStatus) => void;
+
+  /** Called when a fallback mode was applied */
+  onFallback?: (mode: string) => void;
+
+  /** Called when protection failed */
+  onError?: (error: Error) => void;
+
+  /** Called whenever the protection state changes */
+  onStateChange?: (state: UseCloakscreenResult) => void;
+}
+
+/**
+ * Protect its children for as long as it is mounted
+ *
+ * @example
+ * ```tsx
+ * <Cloakscreen provider={{ name: 'pallycon', config: { siteId, tokenEndpoint } }}>
+ *   <p>API Key: sk-1234567890abcdef</p>
+ * </Cloakscreen>
+ * ```
+ */
+export function Cloakscreen({
+  children,
+  className,
+  style,
+  onProtected,
+  onFallback,
+  onError,
+  onStateChange,
+  ...options
+}: CloakscreenProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const state = useCloakscreen(ref, options);
+
+  // Latest callbacks, so inline handlers don't re-trigger the effects below
+  const callbacks = useRef({ onProtected, onFallback, onError, onStateChange });
+  callbacks.current = { onProtected, onFallback, onError, onStateChange };
+
+  useEffect(() => {
+    if (state.status === 'protected' && state.drmStatus) {
+      callbacks.current.onProtected?.(state.drmStatus);
+    }
+  }, [state.status, state.drmStatus]);
+
+  useEffect(() => {
+    if (state.fallbackMode) {
+      callbacks.current.onFallback?.(state.fallbackMode);
+    }
+  }, [state.fallbackMode]);
+
+  useEffect(() => {
+    if (state.error) {
+      callbacks.current.onError?.(state.error);
+    }
+  }, [state.error]);
+
+  useEffect(() => {
+    callbacks.current.onStateChange?.(state);
+  }, [state.instance, state.status, state.drmStatus, state.fallbackMode, state.error]);
+
+  return (
+    <div ref={ref} className={className} style={style} data-cloakscreen-status={state.status}>
+      {children}
+    </div>
+  );
+}
+
+export default Cloakscreen;
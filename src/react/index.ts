@@ -0,0 +1,17 @@
+/**
+ * Cloakscreen React bindings
+ *
+ * @example
+ * ```tsx
+ * import { Cloakscreen, useCloakscreen } from 'cloakscreen/react';
+ * ```
+ */
+
+export { Cloakscreen } from './Cloakscreen';
+export { useCloakscreen } from './useCloakscreen';
+export type { CloakscreenProps } from './Cloakscreen';
+export type {
+  UseCloakscreenOptions,
+  UseCloakscreenResult,
+  CloakscreenProtectionStatus,
+} from './useCloakscreen';
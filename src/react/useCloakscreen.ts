@@ -0,0 +1,125 @@
+/**
+ * useCloakscreen - React hook for content protection
+ *
+ * Creates a Cloakscreen instance for the referenced element, protects it on
+ * mount and destroys it on unmount. Safe under StrictMode double-mounting:
+ * each mount owns its own instance, and cleanup destroys it right away
+ * (cancelling a protect() still running), so its layers are gone before the
+ * next mount protects the same element.
+ */
+
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { Cloakscreen } from '../index';
+import type { CloakscreenConfig, DRMStatus } from '../index';
+import { getConfigKey } from '../utils/config-key';
+
+/**
+ * Hook options - a Cloakscreen configuration without the element
+ */
+export interface UseCloakscreenOptions extends Omit<CloakscreenConfig, 'element'> {
+  /** Protected HTML content; changes are applied with updateContent() */
+  content?: string;
+
+  /** Skip protection (e.g. until data is loaded) */
+  disabled?: boolean;
+}
+
+export type CloakscreenProtectionStatus =
+  | 'idle'
+  | 'protecting'
+  | 'protected'
+  | 'fallback'
+  | 'error';
+
+export interface UseCloakscreenResult {
+  /** Underlying instance, null before mount or while disabled */
+  instance: Cloakscreen | null;
+
+  /** Protection lifecycle status */
+  status: CloakscreenProtectionStatus;
+
+  /** DRM status once protection is active */
+  drmStatus: DRMStatus | null;
+
+  /** Fallback mode applied when DRM is unavailable */
+  fallbackMode: string | null;
+
+  /** Error raised while protecting */
+  error: Error | null;
+}
+
+/**
+ * Protect the element behind a ref for the lifetime of the component
+ *
+ * Functions in the options (e.g. `getUserContext`) are compared by identity, so
+ * memoize them with `useCallback`: a new function re-protects the element.
+ */
+export function useCloakscreen<T extends HTMLElement>(
+  ref: RefObject<T | null>,
+  options: UseCloakscreenOptions
+): UseCloakscreenResult {
+  const { content, disabled, ...config } = options;
+  const [instance, setInstance] = useState<Cloakscreen | null>(null);
+  const [status, setStatus] = useState<CloakscreenProtectionStatus>('idle');
+  const [drmStatus, setDRMStatus] = useState<DRMStatus | null>(null);
+  const [fallbackMode, setFallbackMode] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Re-create the instance only when the configuration actually changes
+  const configKey = getConfigKey(config);
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || disabled) {
+      return;
+    }
+
+    let active = true;
+    const cloak = new Cloakscreen({ ...configRef.current, element });
+
+    cloak.on('protected', (data: { drmStatus: DRMStatus }) => {
+      if (active) {
+        setDRMStatus(data.drmStatus);
+        setStatus('protected');
+      }
+    });
+    cloak.on('fallback-activated', (data: { mode: string }) => {
+      if (active) {
+        setFallbackMode(data.mode);
+        setStatus('fallback');
+      }
+    });
+
+    setInstance(cloak);
+    setStatus('protecting');
+    setDRMStatus(null);
+    setFallbackMode(null);
+    setError(null);
+
+    cloak.protect().catch((protectError: Error) => {
+      if (active) {
+        setError(protectError);
+        setStatus(current => (current === 'fallback' ? current : 'error'));
+      }
+    });
+
+    return () => {
+      active = false;
+      setInstance(current => (current === cloak ? null : current));
+      cloak.destroy();
+    };
+  }, [ref, configKey, disabled]);
+
+  // Apply content updates without re-protecting
+  useEffect(() => {
+    if (instance && status === 'protected' && content !== undefined) {
+      if (instance.getContent() !== content) {
+        instance.updateContent(content);
+      }
+    }
+  }, [instance, status, content]);
+
+  return { instance, status, drmStatus, fallbackMode, error };
+}
@@ -0,0 +1,38 @@
+/**
+ * Cloakscreen Svelte bindings
+ *
+ * The `cloakscreen` action protects the element it is used on. Updated
+ * parameters apply content changes with updateContent() and re-protect the
+ * element when the configuration changes. The `protected`,
+ * `fallback-activated`, `security-violation` and `error` events are dispatched
+ * on the element, so they can be handled with `on:protected` and friends.
+ *
+ * @example
+ * ```svelte
+ * <script>
+ *   import { cloakscreen } from 'cloakscreen/svelte';
+ * </script>
+ *
+ * <div use:cloakscreen={{ provider: 'pallycon', content: html }} on:protected={onProtected} />
+ * ```
+ */
+
+import {
+  bindCloakscreen,
+  CloakscreenBinding,
+  CloakscreenBindingOptions,
+} from '../bindings/element-binding';
+
+export type { CloakscreenBindingOptions } from '../bindings/element-binding';
+
+/**
+ * `use:cloakscreen` action
+ */
+export function cloakscreen(
+  element: HTMLElement,
+  options: CloakscreenBindingOptions
+): CloakscreenBinding {
+  return bindCloakscreen(element, options);
+}
+
+export default cloakscreen;
@@ -139,9 +139,23 @@ export interface EventData {
   [key: string]: unknown;
 }
 
+export interface ContentDiff {
+  /** Offset of the first changed character */
+  start: number;
+
+  /** Markup removed at the offset */
+  removed: string;
+
+  /** Markup inserted at the offset */
+  inserted: string;
+}
+
 export interface ContentChangedEventData extends EventData {
   /** New content */
   content: string;
+
+  /** Changed range, present for edits made in the protected layer */
+  diff?: ContentDiff;
 }
 
 export interface DRMReadyEventData extends EventData {
@@ -158,5 +172,11 @@ export interface SecurityViolationEventData extends EventData {
   type: string;
 
   /** Violation details */
-  details: string[];
+  details?: string[];
+
+  /** Node that was tampered with */
+  target?: Node;
+
+  /** Attribute value before the change */
+  oldValue?: string | null;
 }
@@ -0,0 +1,158 @@
+/**
+ * Event maps - event names and payloads of each event emitter
+ *
+ * Used as the type parameter of EventEmitter, so `on()`, `once()` and
+ * `waitFor()` infer the payload from the event name. `void` marks events
+ * without a payload.
+ */
+
+import type { AttestationReport, DRMStatus, ProtectionStateChange, ResponsiveAsset } from './index';
+import type { ContentChangedEventData, SecurityViolationEventData } from './config';
+import type { LicenseTokenEvent } from '../providers/base/types';
+import type { FallbackReason } from '../fallbacks/FallbackStrategy';
+import type { PlaybackDegradedEvent, PlaybackDegradedReason } from '../core/PlaybackWatchdog';
+import type { CloakscreenError } from '../errors';
+
+/**
+ * A DRM error, with the video it concerns when it came from a player
+ */
+export interface DRMErrorEventData {
+  error: unknown;
+  video?: HTMLVideoElement;
+}
+
+/**
+ * A provider of the failover chain failed and the next one is tried
+ */
+export interface ProviderFailoverEventData {
+  /** Provider that failed */
+  from: string;
+
+  /** Provider tried next */
+  to: string;
+
+  /** Why the provider failed */
+  error: string;
+}
+
+/**
+ * The detected CDM is weaker than the configured requirements
+ */
+export interface SecurityInsufficientEventData {
+  required: {
+    securityLevel?: 'L1' | 'L2' | 'L3';
+    hardwareBacked: boolean;
+  };
+  detected: DRMStatus;
+  reasons: string[];
+}
+
+/**
+ * A fallback strategy shields the content
+ */
+export interface FallbackActivatedEventData {
+  /** Name of the strategy */
+  mode: string;
+  reason: FallbackReason;
+}
+
+/**
+ * The user revealed content shielded by the click-to-reveal fallback
+ */
+export interface FallbackRevealedEventData {
+  strategy: string;
+  reason: FallbackReason;
+  securityLevel: DRMStatus['securityLevel'];
+
+  /** ISO 8601 timestamp */
+  revealedAt: string;
+}
+
+/**
+ * The layers were resized to the target element
+ */
+export interface LayersResizedEventData {
+  width: number;
+  height: number;
+}
+
+/**
+ * Events of a Cloakscreen instance
+ */
+export interface CloakscreenEvents {
+  'protection-starting': void;
+  'drm-ready': { status: DRMStatus };
+  protected: { drmStatus: DRMStatus };
+  unprotected: void;
+  'state-change': ProtectionStateChange;
+  'drm-error': DRMErrorEventData;
+  error: { error: unknown };
+  'content-changed': ContentChangedEventData;
+  'content-loaded': { contentUrl: string };
+  'layers-resized': LayersResizedEventData;
+  'security-violation': SecurityViolationEventData;
+  'security-insufficient': SecurityInsufficientEventData;
+  'provider-failover': ProviderFailoverEventData;
+  'license-expiring': LicenseTokenEvent;
+  'license-renewed': LicenseTokenEvent;
+  'playback-degraded': { reason: PlaybackDegradedReason; keyStatus?: string };
+  'playback-recovered': { attempts: number };
+  'playback-recovery-failed': { attempts: number; error: CloakscreenError };
+  'attestation-reported': { reports: AttestationReport[] };
+  'attestation-failed': { error: string };
+  'fallback-activated': FallbackActivatedEventData;
+  'fallback-revealed': FallbackRevealedEventData;
+}
+
+/**
+ * Events of a DRMManager, shared by every region using it
+ */
+export interface DRMManagerEvents {
+  'drm-ready': { status: DRMStatus };
+  'drm-error': DRMErrorEventData;
+  'provider-failover': ProviderFailoverEventData;
+  'license-expiring': LicenseTokenEvent;
+  'license-renewed': LicenseTokenEvent;
+  'playback-degraded': PlaybackDegradedEvent & { video: HTMLVideoElement };
+  'playback-recovered': { video: HTMLVideoElement; attempts: number };
+  'playback-recovery-failed': {
+    video: HTMLVideoElement;
+    reason: PlaybackDegradedReason;
+    attempts: number;
+    error: unknown;
+  };
+}
+
+/**
+ * Events of a LayerManager
+ */
+export interface LayerManagerEvents {
+  'content-update-requested': { content: string };
+  'security-violation': SecurityViolationEventData;
+}
+
+/**
+ * Events of a DRM provider
+ */
+export interface DRMProviderEvents {
+  'provider-ready': void;
+  'provider-error': { error: unknown };
+  'drm-error': { error: unknown };
+  'license-expiring': LicenseTokenEvent;
+  'license-renewed': LicenseTokenEvent;
+}
+
+/**
+ * Events of content adapters and the ContentManager
+ */
+export interface ContentEvents {
+  'content-changed': ContentChangedEventData;
+}
+
+/**
+ * Events of a ResizeManager
+ */
+export interface ResizeManagerEvents {
+  'layers-resized': LayersResizedEventData;
+  'asset-change': { asset: ResponsiveAsset };
+}
@@ -2,29 +2,93 @@
  * TypeScript definitions for Cloakscreen library
  */
 
+import type { GetUserContext } from '../providers/base/types';
+import type { FallbackStrategy } from '../fallbacks/FallbackStrategy';
+import type { CloakscreenEvents } from './events';
+
 export interface CloakscreenConfig {
   /** Target element selector or HTMLElement */
   element: string | HTMLElement;
 
-  /** DRM provider configuration */
-  provider: DRMProviderConfig | string;
+  /** DRM provider configuration, or an ordered list of providers to fail over through */
+  provider: DRMProviderInput | DRMProviderInput[];
 
   /** Optional content and behavior settings */
   options?: {
     /** Initial content */
     content?: string;
 
-    /** Read-only mode */
+    /**
+     * Endpoint serving the content once the DRM license was acquired, so the
+     * sensitive text is never in the page beforehand. Requested with the
+     * short-lived content token issued alongside the license token; the bundled
+     * server only redeems it after an attestation report (see `attestation`).
+     */
+    contentUrl?: string;
+
+    /** Read-only mode (set to false to let users edit the protected content) */
     readOnly?: boolean;
 
-    /** Fallback behavior when DRM fails */
-    fallbackMode?: 'blur' | 'hide' | 'placeholder' | 'none';
+    /** Content adapter name (auto-detected from the target element when omitted) */
+    adapter?: string;
+
+    /** Mirror later DOM changes of the original content into the protected layers */
+    observeChanges?: boolean;
+
+    /** DRM assets at different sizes, switched as the protected area's aspect ratio changes */
+    responsiveAssets?: ResponsiveAsset[];
+
+    /** Fallback behavior when DRM fails, optionally chosen per detected security level */
+    fallbackMode?: FallbackMode;
+
+    /** Minimum DRM security level (L1 is strongest); weaker CDMs leave text capturable */
+    requireSecurityLevel?: 'L1' | 'L2' | 'L3';
+
+    /** Require a hardware-backed CDM */
+    requireHardwareBacked?: boolean;
+
+    /** What protect() does when the security requirements are not met (defaults to 'fallback') */
+    onInsufficientSecurity?: 'fallback' | 'throw';
+
+    /** Report the DRM status to the backend once a license was acquired */
+    attestation?: AttestationConfig;
+
+    /** Recover stalled or lost DRM playback, or false to leave playback unwatched */
+    playbackWatchdog?: PlaybackWatchdogOptions | false;
 
     /** Enable debug mode */
     debug?: boolean;
   };
 }
 
+/**
+ * Fallback strategy by registered name (blur, hide, placeholder, none,
+ * click-to-reveal, scramble, server-image), by name with options, or as an instance
+ */
+export type FallbackSelection =
+  | string
+  | { strategy: string; options?: Record<string, unknown> }
+  | FallbackStrategy;
+
+/**
+ * One fallback for every case, or one per detected security level
+ * (`default` covers the levels not listed)
+ */
+export type FallbackMode =
+  | FallbackSelection
+  | { [level in DRMStatus['securityLevel'] | 'default']?: FallbackSelection };
+
+export interface ResponsiveAsset {
+  /** Manifest URL of the encrypted video */
+  manifestUrl: string;
+
+  /** Video width in pixels */
+  width: number;
+
+  /** Video height in pixels */
+  height: number;
+}
+
 export interface DRMProviderConfig {
   /** Provider name */
   name: string;
@@ -33,6 +97,11 @@ export interface DRMProviderConfig {
   config?: Record<string, unknown>;
 }
 
+/**
+ * Provider name or full provider configuration
+ */
+export type DRMProviderInput = DRMProviderConfig | string;
+
 export interface PallyConConfig extends DRMProviderConfig {
   /** PallyCon Site ID */
   siteId: string;
@@ -46,7 +115,7 @@ export interface DRMStatus {
   supported: boolean;
 
   /** DRM type */
-  type: 'widevine' | 'playready' | 'fairplay' | 'none';
+  type: 'widevine' | 'playready' | 'fairplay' | 'clearkey' | 'none';
 
   /** Security level */
   securityLevel: 'L1' | 'L2' | 'L3' | 'unknown';
@@ -54,6 +123,9 @@ export interface DRMStatus {
   /** Is hardware-backed */
   hardwareBacked: boolean;
 
+  /** Name of the provider in use (the one that survived failover) */
+  provider?: string;
+
   /** Hardware acceleration status */
   hardwareAcceleration?: {
     available: boolean;
@@ -62,6 +134,59 @@ export interface DRMStatus {
   };
 }
 
+export interface AttestationConfig {
+  /** Endpoint receiving signed attestation reports */
+  endpoint: string;
+
+  /** Optional: Additional request headers */
+  headers?: Record<string, string>;
+
+  /** Optional: Resolve the signed-in user, whose authorization is sent with the report */
+  getUserContext?: GetUserContext;
+}
+
+/**
+ * DRM status of one protected content, as reported to the backend
+ */
+export interface AttestationReport {
+  /** Content the license token was issued for */
+  contentId: string;
+
+  /** DRM type the license token was issued for */
+  drmType: string;
+
+  /** DRM status detected in the browser */
+  status: Pick<DRMStatus, 'type' | 'securityLevel' | 'hardwareBacked' | 'provider'>;
+
+  /** Environment the status was detected in */
+  detection: {
+    browser: string;
+    platform: string;
+    supportedDRMs: string[];
+    hardwareAcceleration: boolean;
+  };
+
+  /** License acquisition */
+  license: {
+    acquired: boolean;
+    acquiredAt: string;
+    tokenExpiresAt: string | null;
+  };
+
+  /** When the report was created (ISO 8601) */
+  reportedAt: string;
+}
+
+/**
+ * Report as sent to the attestation endpoint. `signature` is the base64url
+ * HMAC-SHA256 of `payload` (the JSON report) keyed with the license token,
+ * which ties the report to a token the server issued.
+ */
+export interface SignedAttestationReport {
+  payload: string;
+  signature: string;
+}
+
 export interface BrowserCapabilities {
   /** Browser name */
   browser: string;
@@ -90,6 +215,55 @@ export interface DRMImplementation {
   destroy(): void;
 }
 
+/**
+ * Detection and recovery settings of the playback watchdog
+ *
+ * While the protected video is not playing, the middle layer shows nothing and
+ * the text can be captured, so a stall, an emptied video or an unusable key
+ * status counts as degraded protection: the fallback is applied and the
+ * license is re-acquired with exponential backoff.
+ */
+export interface PlaybackWatchdogOptions {
+  /** Milliseconds without playback progress before playback counts as stalled (default 5000) */
+  stallTimeout?: number;
+
+  /** Recovery attempts before giving up (default 5) */
+  maxAttempts?: number;
+
+  /** Delay before the first recovery attempt in milliseconds, doubled per attempt (default 1000) */
+  initialDelay?: number;
+
+  /** Upper bound of the delay between attempts in milliseconds (default 30000) */
+  maxDelay?: number;
+}
+
+/**
+ * Lifecycle state of a Cloakscreen instance
+ *
+ * `loading-deps`, `detecting` and `licensing` are the steps of a protect()
+ * attempt; `fallback` and `error` shield the content without DRM and allow
+ * protect() to be retried. `degraded` is a protected instance whose playback
+ * stopped and is being recovered.
+ */
+export type ProtectionState =
+  | 'idle'
+  | 'loading-deps'
+  | 'detecting'
+  | 'licensing'
+  | 'protected'
+  | 'degraded'
+  | 'fallback'
+  | 'error'
+  | 'destroyed';
+
+/**
+ * Payload of the `state-change` event
+ */
+export interface ProtectionStateChange {
+  from: ProtectionState;
+  to: ProtectionState;
+}
+
 export interface CloakscreenInstance {
   /** Protect the content */
   protect(): Promise<void>;
@@ -106,15 +280,34 @@ export interface CloakscreenInstance {
   /** Check protection status */
   isProtected(): boolean;
 
+  /** Get the lifecycle state */
+  getState(): ProtectionState;
+
   /** Get DRM status */
   getDRMStatus(): DRMStatus;
 
   /** Destroy instance */
   destroy(): void;
 
-  /** Event listeners */
-  on(event: string, callback: Function): void;
-  off(event: string, callback: Function): void;
+  /** Event listeners, typed by event name */
+  on<K extends keyof CloakscreenEvents>(
+    event: K,
+    callback: (data: CloakscreenEvents[K]) => void
+  ): void;
+  off<K extends keyof CloakscreenEvents>(
+    event: K,
+    callback: (data: CloakscreenEvents[K]) => void
+  ): void;
+  once<K extends keyof CloakscreenEvents>(
+    event: K,
+    callback: (data: CloakscreenEvents[K]) => void
+  ): void;
+
+  /** Wait for the next occurrence of an event, rejecting after `timeout` milliseconds */
+  waitFor<K extends keyof CloakscreenEvents>(
+    event: K,
+    timeout?: number
+  ): Promise<CloakscreenEvents[K]>;
 }
 
 // Clean, focused type definitions for v1.0.0
@@ -9,8 +9,8 @@
  * Generic media player interface
  */
 export interface MediaPlayer {
-  /** Load content from a URL */
-  load(url: string): Promise<void>;
+  /** Load content from a URL, optionally starting at a position in seconds */
+  load(url: string, startTime?: number): Promise<void>;
 
   /** Configure the player with options */
   configure(config: PlayerConfig): void;
@@ -32,6 +32,9 @@ export interface MediaPlayer {
 
   /** Get current playback state */
   getPlaybackState(): PlaybackState;
+
+  /** Get the status of each key by key ID (Shaka reports changes as `keystatuschanged`) */
+  getKeyStatuses?(): Record<string, string>;
 }
 
 /**
@@ -46,6 +49,9 @@ export interface PlayerConfig {
     /** Advanced DRM configuration */
     advanced?: Record<string, DRMAdvancedConfig>;
 
+    /** ClearKey keys as hex key ID → hex key (development only) */
+    clearKeys?: Record<string, string>;
+
     /** Retry parameters */
     retryParameters?: RetryParameters;
   };
@@ -0,0 +1,107 @@
+/**
+ * DOMSnapshot - Records inline styles and attributes before Cloakscreen changes them
+ *
+ * The first recording wins, so restore() brings back the state from before
+ * Cloakscreen touched an element, however often it changed it since. A style
+ * attribute nobody else changed in the meantime is restored to its exact
+ * original text (or removed again); when the page changed other styles too,
+ * only the properties Cloakscreen set are reverted.
+ */
+
+interface StyleRecord {
+  /** Style attribute before the first change */
+  attribute: string | null;
+
+  /** Value and priority of each changed property before the first change */
+  properties: Map<string, [string, string]>;
+
+  /** Style attribute right after the last change */
+  written: string | null;
+}
+
+export class DOMSnapshot {
+  private styles = new Map<HTMLElement, StyleRecord>();
+  private attributes = new Map<Element, Map<string, string | null>>();
+
+  /**
+   * Set an inline style property (kebab-case), recording its previous value first
+   */
+  setStyle(element: HTMLElement, property: string, value: string): void {
+    let record = this.styles.get(element);
+
+    if (!record) {
+      record = { attribute: element.getAttribute('style'), properties: new Map(), written: null };
+      this.styles.set(element, record);
+    }
+
+    if (!record.properties.has(property)) {
+      record.properties.set(property, [
+        element.style.getPropertyValue(property),
+        element.style.getPropertyPriority(property),
+      ]);
+    }
+
+    element.style.setProperty(property, value);
+    record.written = element.getAttribute('style');
+  }
+
+  /**
+   * Set an attribute, recording its previous value first
+   */
+  setAttribute(element: Element, name: string, value: string): void {
+    let attributes = this.attributes.get(element);
+
+    if (!attributes) {
+      attributes = new Map();
+      this.attributes.set(element, attributes);
+    }
+
+    if (!attributes.has(name)) {
+      attributes.set(name, element.getAttribute(name));
+    }
+
+    element.setAttribute(name, value);
+  }
+
+  /**
+   * Check whether anything was recorded for an element
+   */
+  has(element: Element): boolean {
+    return this.styles.has(element as HTMLElement) || this.attributes.has(element);
+  }
+
+  /**
+   * Revert every recorded change and forget the records
+   */
+  restore(): void {
+    this.styles.forEach((record, element) => {
+      if (element.getAttribute('style') === record.written) {
+        restoreAttribute(element, 'style', record.attribute);
+        return;
+      }
+
+      record.properties.forEach(([value, priority], property) => {
+        if (value) {
+          element.style.setProperty(property, value, priority);
+        } else {
+          element.style.removeProperty(property);
+        }
+      });
+    });
+
+    this.attributes.forEach((attributes, element) => {
+      attributes.forEach((value, name) => restoreAttribute(element, name, value));
+    });
+
+    this.styles.clear();
+    this.attributes.clear();
+  }
+}
+
+function restoreAttribute(element: Element, name: string, value: string | null): void {
+  if (value === null) {
+    element.removeAttribute(name);
+  } else {
+    element.setAttribute(name, value);
+  }
+}
@@ -1,18 +1,48 @@
 /**
  * EventEmitter - Simple event emitter implementation
  *
- * Provides event handling capabilities for library components
+ * Provides event handling capabilities for library components. The type
+ * parameter maps each event name to its payload (`void` for events without
+ * one), so listeners infer their payload from the event name:
+ *
+ * @example
+ * ```typescript
+ * class Player extends EventEmitter<{ ready: void; progress: { percent: number } }> {}
+ *
+ * player.on('progress', ({ percent }) => console.log(percent));
+ * const { percent } = await player.waitFor('progress');
+ * ```
  */
 
 import { utilsLogger } from './logger';
 
-export default class EventEmitter {
+/**
+ * Event names of an event map
+ */
+export type EventName<Events> = keyof Events & string;
+
+/**
+ * Listener for an event with payload `T`
+ */
+export type EventListener<T> = (data: T) => void;
+
+/**
+ * Arguments of emit() after the event name: none for `void` events, any for untyped emitters
+ */
+export type EventArgs<T> = 0 extends 1 & T ? [data?: any] : [T] extends [void] ? [] : [data: T];
+
+/** Listener registered through once(), remembering the listener it wraps for off() */
+interface OnceListener extends EventListener<any> {
+  listener: Function;
+}
+
+export default class EventEmitter<Events extends object = Record<string, any>> {
   private events: Map<string, Function[]> = new Map();
 
   /**
    * Add event listener
    */
-  on(event: string, callback: Function): void {
+  on<K extends EventName<Events>>(event: K, callback: EventListener<Events[K]>): void {
     if (!this.events.has(event)) {
       this.events.set(event, []);
     }
@@ -20,12 +50,14 @@ export default class EventEmitter {
   }
 
   /**
-   * Remove event listener
+   * Remove event listener (also one added with once())
    */
-  off(event: string, callback: Function): void {
+  off<K extends EventName<Events>>(event: K, callback: EventListener<Events[K]>): void {
     const callbacks = this.events.get(event);
     if (callbacks) {
-      const index = callbacks.indexOf(callback);
+      const index = callbacks.findIndex(
+        registered => registered === callback || (registered as OnceListener).listener === callback
+      );
       if (index > -1) {
         callbacks.splice(index, 1);
       }
@@ -35,10 +67,11 @@ export default class EventEmitter {
   /**
    * Emit event
    */
-  emit(event: string, data?: any): void {
+  emit<K extends EventName<Events>>(event: K, ...[data]: EventArgs<Events[K]>): void {
     const callbacks = this.events.get(event);
     if (callbacks) {
-      callbacks.forEach(callback => {
+      // Copied, as once() listeners remove themselves while the event is dispatched
+      [...callbacks].forEach(callback => {
         try {
           callback(data);
         } catch (error) {
@@ -51,18 +84,44 @@ export default class EventEmitter {
   /**
    * Add one-time event listener
    */
-  once(event: string, callback: Function): void {
-    const onceCallback = (data: any) => {
-      callback(data);
-      this.off(event, onceCallback);
-    };
+  once<K extends EventName<Events>>(event: K, callback: EventListener<Events[K]>): void {
+    const onceCallback: OnceListener = Object.assign(
+      (data: Events[K]) => {
+        this.off(event, onceCallback);
+        callback(data);
+      },
+      { listener: callback }
+    );
     this.on(event, onceCallback);
   }
 
+  /**
+   * Wait for the next occurrence of an event, resolving to its payload.
+   * Rejects when `timeout` milliseconds pass first.
+   */
+  waitFor<K extends EventName<Events>>(event: K, timeout?: number): Promise<Events[K]> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const listener = (data: Events[K]) => {
+        clearTimeout(timer);
+        resolve(data);
+      };
+      this.once(event, listener);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          this.off(event, listener);
+          reject(new Error(`Timed out after ${timeout}ms waiting for ${event}`));
+        }, timeout);
+      }
+    });
+  }
+
   /**
    * Remove all listeners for an event
    */
-  removeAllListeners(event?: string): void {
+  removeAllListeners(event?: EventName<Events>): void {
     if (event) {
       this.events.delete(event);
     } else {
@@ -73,7 +132,7 @@ export default class EventEmitter {
   /**
    * Get listener count for an event
    */
-  listenerCount(event: string): number {
+  listenerCount(event: EventName<Events>): number {
     const callbacks = this.events.get(event);
     return callbacks ? callbacks.length : 0;
   }
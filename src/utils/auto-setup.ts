@@ -3,6 +3,7 @@
  */
 
 import { coreLogger } from './logger';
+import type { Cloakscreen } from '../core/Cloakscreen';
 
 /**
  * Simple configuration options for auto-protection
@@ -16,41 +17,104 @@ export interface AutoProtectionConfig {
   siteId?: string;
   /** Token endpoint for self-hosted */
   tokenEndpoint?: string;
+  /** Content ID used for license requests */
+  contentId?: string;
   /** Fallback behavior */
   fallback?: 'blur' | 'hide' | 'placeholder';
   /** Enable debug mode */
   debug?: boolean;
 }
 
+const PROTECTED_SELECTOR = '[data-cloakscreen], .cloakscreen-protect';
+
+const PROVIDERS = ['demo', 'cloud', 'self-hosted'] as const;
+const FALLBACKS = ['blur', 'hide', 'placeholder'] as const;
+
+// Instances created by auto-protection, keyed by protected element
+const instances = new Map<HTMLElement, Promise<Cloakscreen | void>>();
+let observer: MutationObserver | null = null;
+
 /**
  * Find content that should be protected based on data attributes and classes
  */
-export function findProtectedContent(): HTMLElement[] {
+export function findProtectedContent(root: ParentNode | null = null): HTMLElement[] {
   // SSR safety check
   if (typeof document === 'undefined') {
     return [];
   }
 
-  const selectors = ['[data-cloakscreen]', '.cloakscreen-protect'];
-  const elements: HTMLElement[] = [];
+  const scope = root || document;
+  const elements = Array.from(scope.querySelectorAll<HTMLElement>(PROTECTED_SELECTOR));
 
-  selectors.forEach(selector => {
-    const found = document.querySelectorAll(selector) as NodeListOf<HTMLElement>;
-    found.forEach(el => {
-      // Ensure element has an ID for targeting
-      if (!el.id) {
-        el.id = `cloakscreen-${Math.random().toString(36).substr(2, 9)}`;
-      }
-      elements.push(el);
-    });
-  });
+  if (scope instanceof HTMLElement && scope.matches(PROTECTED_SELECTOR)) {
+    elements.unshift(scope);
+  }
 
-  return elements;
+  return (
+    elements
+      // Copies of protected content inside Cloakscreen layers are not protected again
+      .filter(el => !el.closest('.cloakscreen-container'))
+      .map(el => {
+        // Ensure element has an ID for targeting
+        if (!el.id) {
+          el.id = `cloakscreen-${Math.random().toString(36).substr(2, 9)}`;
+        }
+        return el;
+      })
+  );
+}
+
+/**
+ * Read per-element overrides from data attributes
+ *
+ * Supported attributes: data-cloakscreen-provider, data-cloakscreen-fallback,
+ * data-cloakscreen-content-id, data-cloakscreen-site-id and
+ * data-cloakscreen-token-endpoint.
+ */
+export function getElementConfig(
+  element: HTMLElement,
+  config: AutoProtectionConfig = {}
+): AutoProtectionConfig {
+  const elementConfig: AutoProtectionConfig = { ...config };
+  const { dataset } = element;
+
+  if (dataset.cloakscreenProvider) {
+    if ((PROVIDERS as readonly string[]).includes(dataset.cloakscreenProvider)) {
+      elementConfig.provider = dataset.cloakscreenProvider as AutoProtectionConfig['provider'];
+    } else {
+      coreLogger.warn(`Ignoring unknown data-cloakscreen-provider: ${dataset.cloakscreenProvider}`);
+    }
+  }
+
+  if (dataset.cloakscreenFallback) {
+    if ((FALLBACKS as readonly string[]).includes(dataset.cloakscreenFallback)) {
+      elementConfig.fallback = dataset.cloakscreenFallback as AutoProtectionConfig['fallback'];
+    } else {
+      coreLogger.warn(`Ignoring unknown data-cloakscreen-fallback: ${dataset.cloakscreenFallback}`);
+    }
+  }
+
+  if (dataset.cloakscreenContentId) {
+    elementConfig.contentId = dataset.cloakscreenContentId;
+  }
+
+  if (dataset.cloakscreenSiteId) {
+    elementConfig.siteId = dataset.cloakscreenSiteId;
+  }
+
+  if (dataset.cloakscreenTokenEndpoint) {
+    elementConfig.tokenEndpoint = dataset.cloakscreenTokenEndpoint;
+  }
+
+  return elementConfig;
 }
 
 /**
  * Initialize auto-protection with explicit configuration
  *
+ * Elements added to the page later are protected automatically, and removed
+ * elements are cleaned up, until stopAutoProtection() is called.
+ *
  * @param config - Protection configuration (defaults to demo mode)
  */
 export function initAutoProtection(config: AutoProtectionConfig = {}): void {
@@ -64,34 +128,112 @@ export function initAutoProtection(config: AutoProtectionConfig = {}): void {
     return;
   }
 
-  // Find elements to protect
-  const elements = findProtectedContent();
-  if (elements.length === 0) {
-    coreLogger.debug('No elements found with data-cloakscreen or .cloakscreen-protect');
-    return;
-  }
+  // Restart cleanly if called again
+  stopAutoProtection();
 
   // Use demo provider by default
-  const protectionConfig = {
+  const protectionConfig: AutoProtectionConfig = {
     provider: 'demo' as const,
     fallback: 'blur' as const,
     debug: false,
     ...config,
   };
 
+  // Watch for protected elements entering and leaving the page (SPA navigation)
+  if (typeof MutationObserver !== 'undefined' && document.body) {
+    observer = new MutationObserver(records => handleMutations(records, protectionConfig));
+    observer.observe(document.body, { childList: true, subtree: true });
+  }
+
+  // Find elements to protect
+  const elements = findProtectedContent();
+  if (elements.length === 0) {
+    coreLogger.debug('No elements found with data-cloakscreen or .cloakscreen-protect');
+    return;
+  }
+
+  protectElements(elements, protectionConfig);
+}
+
+/**
+ * Stop watching the page and remove protection from auto-protected elements
+ */
+export function stopAutoProtection(): void {
+  if (observer) {
+    observer.disconnect();
+    observer = null;
+  }
+
+  Array.from(instances.keys()).forEach(releaseElement);
+}
+
+/**
+ * Protect newly added elements and release removed ones
+ */
+function handleMutations(records: MutationRecord[], config: AutoProtectionConfig): void {
+  records.forEach(record => {
+    record.addedNodes.forEach(node => {
+      if (node instanceof HTMLElement && node.isConnected) {
+        protectElements(findProtectedContent(node), config);
+      }
+    });
+  });
+
+  // Checked after all records so elements moved within the page stay protected
+  Array.from(instances.keys())
+    .filter(element => !element.isConnected)
+    .forEach(releaseElement);
+}
+
+/**
+ * Protect elements that are not tracked yet, each with its own attribute config
+ */
+function protectElements(elements: HTMLElement[], config: AutoProtectionConfig): void {
+  const pending = elements.filter(element => !instances.has(element));
+  if (pending.length === 0) {
+    return;
+  }
+
   // Import and protect elements
-  import('../quick-start')
-    .then(({ protect }) => {
-      elements.forEach(async element => {
-        try {
-          await protect(element, protectionConfig);
-          coreLogger.debug('Protected element:', element);
-        } catch (error) {
+  const quickStart = import('../quick-start');
+  quickStart.catch(error => {
+    coreLogger.error('Failed to load protection module:', error);
+  });
+
+  pending.forEach(element => {
+    const elementConfig = getElementConfig(element, config);
+
+    instances.set(
+      element,
+      quickStart
+        .then(({ createCloakscreen }) => createCloakscreen(element, elementConfig))
+        .then(cloak => {
+          // Kept when protection fails too, so releasing the element reverts its fallback
+          cloak.protect().then(
+            () => coreLogger.debug('Protected element:', element),
+            error => coreLogger.warn('Failed to protect element:', element, error)
+          );
+          return cloak;
+        })
+        .catch(error => {
           coreLogger.warn('Failed to protect element:', element, error);
-        }
-      });
+        })
+    );
+  });
+}
+
+function releaseElement(element: HTMLElement): void {
+  const instance = instances.get(element);
+  instances.delete(element);
+
+  instance
+    ?.then(cloak => {
+      if (cloak) {
+        cloak.destroy();
+        coreLogger.debug('Released protection for element:', element);
+      }
     })
     .catch(error => {
-      coreLogger.error('Failed to load protection module:', error);
+      coreLogger.warn('Failed to release protection:', element, error);
     });
 }
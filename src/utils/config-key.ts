@@ -0,0 +1,30 @@
+/**
+ * Stable keys for configurations, used to tell when one actually changed
+ */
+
+const functionIds = new WeakMap<object, number>();
+let nextFunctionId = 0;
+
+/**
+ * Id of a function, the same for as long as it is referenced
+ */
+function getFunctionId(fn: object): number {
+  let id = functionIds.get(fn);
+  if (id === undefined) {
+    id = ++nextFunctionId;
+    functionIds.set(fn, id);
+  }
+  return id;
+}
+
+/**
+ * Key of a configuration, equal for configurations with equal values
+ *
+ * Functions are keyed by identity: they may close over different state (e.g. the
+ * signed-in user), so equal source does not make them interchangeable.
+ */
+export function getConfigKey(config: unknown): string {
+  return JSON.stringify(config, (_key, value) =>
+    typeof value === 'function' ? `function#${getFunctionId(value)}` : value
+  );
+}
@@ -4,6 +4,7 @@
 
 // Core utilities
 export { default as EventEmitter } from './EventEmitter';
+export { DOMSnapshot } from './DOMSnapshot';
 export { detectBrowserCapabilities } from './browser';
 export { validateConfig, isValidElement, sanitizeConfigForLogging } from './validation';
 export { getDRMCredentials } from './env';
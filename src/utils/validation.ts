@@ -5,11 +5,39 @@
  */
 
 import * as v from 'valibot';
-import { CloakscreenConfig, DRMProviderConfig } from '../types';
+import { CloakscreenConfig, DRMProviderConfig, DRMProviderInput } from '../types';
 import { ErrorFactory, ErrorCode } from '../errors';
 import { getDRMCredentials } from './env';
+import type { GetUserContext } from '../providers/base/types';
+import { fallbackRegistry, FallbackStrategy } from '../fallbacks';
 
 // Valibot schemas for validation
+const FallbackStrategyNameSchema = v.pipe(
+  v.string(),
+  v.check(
+    name => fallbackRegistry.isRegistered(name),
+    issue => `Unknown fallback strategy '${issue.input}'`
+  )
+);
+
+const FallbackSelectionSchema = v.union([
+  FallbackStrategyNameSchema,
+  v.strictObject({
+    strategy: FallbackStrategyNameSchema,
+    options: v.optional(v.record(v.string(), v.unknown())),
+  }),
+  v.custom<FallbackStrategy>(
+    input =>
+      typeof (input as FallbackStrategy)?.apply === 'function' &&
+      typeof (input as FallbackStrategy)?.revert === 'function',
+    'Fallback strategies must implement apply() and revert()'
+  ),
+]);
+
+const GetUserContextSchema = v.custom<GetUserContext>(
+  input => typeof input === 'function',
+  'getUserContext must be a function'
+);
 
 const DRMProviderConfigSchema = v.object({
   name: v.pipe(v.string(), v.minLength(1, 'Provider name is required')),
@@ -17,6 +45,9 @@ const DRMProviderConfigSchema = v.object({
   tokenEndpoint: v.optional(v.pipe(v.string(), v.minLength(1, 'Token endpoint is required'))),
   licenseServer: v.optional(v.string()),
   certificateUri: v.optional(v.string()),
+  contentId: v.optional(v.string()),
+  getUserContext: v.optional(GetUserContextSchema),
+  config: v.optional(v.record(v.string(), v.unknown())),
 });
 
 const ElementSchema = v.union([
@@ -24,17 +55,66 @@ const ElementSchema = v.union([
   v.instance(HTMLElement, 'Element must be a valid HTMLElement'),
 ]);
 
+const ProviderInputSchema = v.union([
+  v.pipe(v.string(), v.minLength(1, 'Provider name cannot be empty')),
+  DRMProviderConfigSchema,
+]);
+
 const CloakscreenConfigSchema = v.object({
   element: ElementSchema,
   provider: v.union([
-    v.pipe(v.string(), v.minLength(1, 'Provider name cannot be empty')),
-    DRMProviderConfigSchema,
+    ProviderInputSchema,
+    v.pipe(v.array(ProviderInputSchema), v.minLength(1, 'Provider list cannot be empty')),
   ]),
   options: v.optional(
     v.object({
       content: v.optional(v.string()),
+      contentUrl: v.optional(v.pipe(v.string(), v.minLength(1, 'Content URL cannot be empty'))),
       readOnly: v.optional(v.boolean()),
-      fallbackMode: v.optional(v.picklist(['blur', 'hide', 'placeholder', 'none'])),
+      adapter: v.optional(v.pipe(v.string(), v.minLength(1, 'Adapter name cannot be empty'))),
+      observeChanges: v.optional(v.boolean()),
+      responsiveAssets: v.optional(
+        v.array(
+          v.object({
+            manifestUrl: v.pipe(v.string(), v.minLength(1, 'Manifest URL cannot be empty')),
+            width: v.pipe(v.number(), v.minValue(1, 'Asset width must be positive')),
+            height: v.pipe(v.number(), v.minValue(1, 'Asset height must be positive')),
+          })
+        )
+      ),
+      fallbackMode: v.optional(
+        v.union([
+          FallbackSelectionSchema,
+          v.strictObject({
+            L1: v.optional(FallbackSelectionSchema),
+            L2: v.optional(FallbackSelectionSchema),
+            L3: v.optional(FallbackSelectionSchema),
+            unknown: v.optional(FallbackSelectionSchema),
+            default: v.optional(FallbackSelectionSchema),
+          }),
+        ])
+      ),
+      requireSecurityLevel: v.optional(v.picklist(['L1', 'L2', 'L3'])),
+      requireHardwareBacked: v.optional(v.boolean()),
+      onInsufficientSecurity: v.optional(v.picklist(['fallback', 'throw'])),
+      attestation: v.optional(
+        v.object({
+          endpoint: v.pipe(v.string(), v.minLength(1, 'Attestation endpoint cannot be empty')),
+          headers: v.optional(v.record(v.string(), v.string())),
+          getUserContext: v.optional(GetUserContextSchema),
+        })
+      ),
+      playbackWatchdog: v.optional(
+        v.union([
+          v.literal(false),
+          v.object({
+            stallTimeout: v.optional(v.pipe(v.number(), v.minValue(0))),
+            maxAttempts: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+            initialDelay: v.optional(v.pipe(v.number(), v.minValue(0))),
+            maxDelay: v.optional(v.pipe(v.number(), v.minValue(0))),
+          }),
+        ])
+      ),
       debug: v.optional(v.boolean()),
     })
   ),
@@ -48,10 +128,10 @@ export function validateConfig(config: unknown): CloakscreenConfig {
     // Parse and validate with Valibot
     const parsed = v.parse(CloakscreenConfigSchema, config);
 
-    // Normalize provider config
-    const normalizedProvider = normalizeProviderConfig(
-      parsed.provider as DRMProviderConfig | string
-    );
+    // Normalize provider config (each entry of a failover chain)
+    const normalizedProvider = Array.isArray(parsed.provider)
+      ? (parsed.provider as DRMProviderInput[]).map(normalizeProviderConfig)
+      : normalizeProviderConfig(parsed.provider as DRMProviderInput);
 
     // Apply defaults manually for better control
     const normalizedConfig: CloakscreenConfig = {
@@ -98,10 +178,10 @@ export function validateConfig(config: unknown): CloakscreenConfig {
 /**
  * Normalize provider configuration
  */
-function normalizeProviderConfig(provider: DRMProviderConfig | string): DRMProviderConfig {
+function normalizeProviderConfig(provider: DRMProviderInput): DRMProviderConfig {
   if (typeof provider === 'string') {
     // Simple provider name - validate and create default config
-    const validProviders = ['pallycon'];
+    const validProviders = ['pallycon', 'clearkey'];
 
     if (!validProviders.includes(provider)) {
       throw ErrorFactory.configuration(
@@ -110,7 +190,7 @@ function normalizeProviderConfig(provider: DRMProviderConfig | string): DRMProvi
         `Invalid DRM provider: ${provider}`,
         {
           suggestions: [
-            'Use a supported provider (pallycon)',
+            'Use a supported provider (pallycon, clearkey)',
             'Check provider name spelling',
             'Ensure provider is properly configured',
           ],
@@ -119,6 +199,10 @@ function normalizeProviderConfig(provider: DRMProviderConfig | string): DRMProvi
     }
 
     switch (provider) {
+      case 'clearkey':
+        // Development only - defaults to the local license endpoint
+        return { name: 'clearkey' };
+
       case 'pallycon':
         // Try to get credentials from environment variables
         try {
@@ -146,7 +230,12 @@ function normalizeProviderConfig(provider: DRMProviderConfig | string): DRMProvi
     }
   }
 
-  // Full provider configuration - already validated by main schema
+  // Full provider configuration - already validated by main schema.
+  // Providers read flat options, so lift values from a nested `config` object.
+  if (provider.config) {
+    return { ...provider.config, ...provider };
+  }
+
   return provider;
 }
 
@@ -201,17 +290,25 @@ export function isValidElement(element: unknown): element is string | HTMLElemen
 export function sanitizeConfigForLogging(config: CloakscreenConfig): Partial<CloakscreenConfig> {
   const sanitized = { ...config };
 
-  if (typeof sanitized.provider === 'object' && sanitized.provider.config) {
-    sanitized.provider = {
-      ...sanitized.provider,
+  sanitized.provider = Array.isArray(sanitized.provider)
+    ? sanitized.provider.map(sanitizeProviderForLogging)
+    : sanitizeProviderForLogging(sanitized.provider);
+
+  return sanitized;
+}
+
+function sanitizeProviderForLogging(provider: DRMProviderInput): DRMProviderInput {
+  if (typeof provider === 'object' && provider.config) {
+    return {
+      ...provider,
       config: {
-        ...sanitized.provider.config,
+        ...provider.config,
         // Mask sensitive fields
-        siteId: sanitized.provider.config.siteId ? '***' : undefined,
-        tokenEndpoint: sanitized.provider.config.tokenEndpoint ? '[REDACTED]' : undefined,
+        siteId: provider.config.siteId ? '***' : undefined,
+        tokenEndpoint: provider.config.tokenEndpoint ? '[REDACTED]' : undefined,
       },
     };
   }
 
-  return sanitized;
+  return provider;
 }
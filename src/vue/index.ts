@@ -0,0 +1,77 @@
+/**
+ * Cloakscreen Vue 3 bindings
+ *
+ * `v-cloakscreen` protects the element it is placed on. The binding value
+ * holds the configuration; content changes are applied with updateContent()
+ * and any other change re-protects the element. The `protected`,
+ * `fallback-activated`, `security-violation` and `error` events are dispatched
+ * on the element, so they can be handled with `@protected` and friends.
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * import { vCloakscreen } from 'cloakscreen/vue';
+ * </script>
+ *
+ * <template>
+ *   <div v-cloakscreen="{ provider: 'pallycon', content: html }" @protected="onProtected" />
+ * </template>
+ * ```
+ */
+
+import {
+  bindCloakscreen,
+  CloakscreenBinding,
+  CloakscreenBindingOptions,
+} from '../bindings/element-binding';
+
+export type { CloakscreenBindingOptions } from '../bindings/element-binding';
+
+/**
+ * Subset of Vue's DirectiveBinding used by the directive
+ */
+export interface CloakscreenDirectiveBinding {
+  value: CloakscreenBindingOptions;
+}
+
+export interface CloakscreenDirective {
+  mounted(element: HTMLElement, binding: CloakscreenDirectiveBinding): void;
+  updated(element: HTMLElement, binding: CloakscreenDirectiveBinding): void;
+  beforeUnmount(element: HTMLElement): void;
+}
+
+const bindings = new WeakMap<HTMLElement, CloakscreenBinding>();
+
+/**
+ * `v-cloakscreen` directive
+ */
+export const vCloakscreen: CloakscreenDirective = {
+  mounted(element, binding) {
+    bindings.set(element, bindCloakscreen(element, binding.value));
+  },
+
+  updated(element, binding) {
+    bindings.get(element)?.update(binding.value);
+  },
+
+  beforeUnmount(element) {
+    bindings.get(element)?.destroy();
+    bindings.delete(element);
+  },
+};
+
+/**
+ * Plugin registering `v-cloakscreen` globally
+ *
+ * @example
+ * ```ts
+ * createApp(App).use(CloakscreenPlugin).mount('#app');
+ * ```
+ */
+export const CloakscreenPlugin = {
+  install(app: { directive(name: string, directive: CloakscreenDirective): unknown }): void {
+    app.directive('cloakscreen', vCloakscreen);
+  },
+};
+
+export default CloakscreenPlugin;
@@ -5,10 +5,11 @@ import path from 'path';
 export default defineConfig({
   plugins: [react()],
   resolve: {
-    alias: {
+    alias: [
       // Alias cloakscreen to the built library for examples
-      'cloakscreen': path.resolve(__dirname, './dist/index.esm.js'),
-    },
+      { find: /^cloakscreen\/(react|vue|svelte)$/, replacement: path.resolve(__dirname, './dist/$1.esm.js') },
+      { find: /^cloakscreen$/, replacement: path.resolve(__dirname, './dist/index.esm.js') },
+    ],
   },
   optimizeDeps: {
     include: ['react', 'react-dom', 'react/jsx-runtime', 'react/jsx-dev-runtime'],